@@ -0,0 +1,90 @@
+/**
+ * Unit tests: crash-safe writes.
+ *
+ * A write replaces the target in one rename and leaves no temp file behind;
+ * the state file keeps the version it replaced, and loading falls back to
+ * that copy when the current one is unreadable (say, cut off by a crash).
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { App } from "obsidian";
+import { writeFileAtomic, writeFileAtomicSync } from "../src/atomic-write";
+import { SyncStateManager } from "../src/sync-state-manager";
+
+let dir: string;
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "evc-atomic-test-"));
+});
+
+afterEach(() => {
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("writeFileAtomicSync", () => {
+	test("replaces the file and leaves only the file", () => {
+		const target = path.join(dir, "plan.md");
+		fs.writeFileSync(target, "old");
+
+		writeFileAtomicSync(target, "new");
+
+		expect(fs.readFileSync(target, "utf-8")).toBe("new");
+		expect(fs.readdirSync(dir)).toEqual(["plan.md"]);
+	});
+
+	test("writes through a symlink instead of replacing it", () => {
+		const real = path.join(dir, "real.md");
+		const link = path.join(dir, "link.md");
+		fs.writeFileSync(real, "old");
+		fs.symlinkSync(real, link);
+
+		writeFileAtomicSync(link, "new");
+
+		expect(fs.lstatSync(link).isSymbolicLink()).toBe(true);
+		expect(fs.readFileSync(real, "utf-8")).toBe("new");
+	});
+
+	test("a failed write leaves the old file and no temp file", () => {
+		const target = path.join(dir, "missing-dir", "plan.md");
+
+		expect(() => writeFileAtomicSync(target, "new")).toThrow();
+		expect(fs.readdirSync(dir)).toEqual([]);
+	});
+});
+
+describe("writeFileAtomic", () => {
+	test("keeps the replaced file as the previous copy", async () => {
+		const target = path.join(dir, "state.json");
+		const previous = path.join(dir, "state.prev.json");
+
+		await writeFileAtomic(target, "1", { previousPath: previous });
+		expect(fs.existsSync(previous)).toBe(false);
+
+		await writeFileAtomic(target, "2", { previousPath: previous });
+
+		expect(fs.readFileSync(target, "utf-8")).toBe("2");
+		expect(fs.readFileSync(previous, "utf-8")).toBe("1");
+	});
+});
+
+describe("SyncStateManager persistence", () => {
+	const state = (hash: string) => [{ path: "plan.md", hash, mtime: 1, size: 1 }];
+
+	test("an unreadable state file falls back to the previous copy", async () => {
+		const manager = new SyncStateManager({} as App, dir);
+		manager.updateState("m1", state("a"), state("a"));
+		await manager.save();
+		manager.updateState("m1", state("b"), state("b"));
+		await manager.save();
+
+		// A crash cut the last write short
+		fs.writeFileSync(path.join(dir, "sync-state.json"), '{"mappings": {"m1": ');
+		const reloaded = new SyncStateManager({} as App, dir);
+		await reloaded.load();
+
+		expect(reloaded.getState("m1")?.aiFiles).toEqual(state("a"));
+	});
+});
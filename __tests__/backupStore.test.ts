@@ -0,0 +1,134 @@
+/**
+ * Unit tests: the versioned backup store.
+ *
+ * Retention keeps the newest versions of each file and side within the count
+ * and age limits; save() writes the index and drops the bodies nothing refers
+ * to any more, so a fresh store over the same folder sees what was kept.
+ * Pre-images stored for undo with backups off are not listed, and are kept
+ * for as long as save() is told they are referenced.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BackupStore, applyRetention, type BackupEntry } from "../src/backup-store";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(relativePath: string, time: number, side: BackupEntry["side"] = "ai"): BackupEntry {
+	return {
+		id: `${relativePath}-${side}-${time}`,
+		mappingId: "m1",
+		relativePath,
+		side,
+		hash: `${relativePath}-${time}`,
+		size: 1,
+		time,
+		reason: "overwrite",
+	};
+}
+
+describe("applyRetention", () => {
+	const now = 100 * DAY;
+
+	test("keeps the newest versions per file and side", () => {
+		const entries = [
+			entry("a.md", now - 3), entry("a.md", now - 2), entry("a.md", now - 1),
+			entry("a.md", now - 5, "obsidian"),
+			entry("b.md", now - 4),
+		];
+
+		const kept = applyRetention(entries, { maxVersions: 2, maxAgeDays: 0 }, now);
+
+		expect(kept.map((e) => e.id)).toEqual([
+			`a.md-ai-${now - 2}`, `a.md-ai-${now - 1}`, `a.md-obsidian-${now - 5}`, `b.md-ai-${now - 4}`,
+		]);
+	});
+
+	test("drops versions older than the age limit, and 0 means no limit", () => {
+		const entries = [entry("a.md", now - 31 * DAY), entry("a.md", now - 29 * DAY)];
+
+		expect(applyRetention(entries, { maxVersions: 0, maxAgeDays: 30 }, now)).toEqual([entries[1]]);
+		expect(applyRetention(entries, { maxVersions: 0, maxAgeDays: 0 }, now)).toEqual(entries);
+	});
+});
+
+describe("BackupStore", () => {
+	let root: string;
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), "evc-backup-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test("versions survive a reload, newest first, with their bytes", async () => {
+		const store = new BackupStore(root);
+		await store.add({ mappingId: "m1", relativePath: "a.md", side: "ai", reason: "overwrite" }, Buffer.from("v1"));
+		await store.add({ mappingId: "m1", relativePath: "a.md", side: "obsidian", reason: "delete" }, Buffer.from("v2"));
+		await store.add({ mappingId: "m1", relativePath: "b.md", side: "ai", reason: "overwrite" }, Buffer.from("other"));
+		await store.save({ maxVersions: 0, maxAgeDays: 0 });
+
+		const reloaded = new BackupStore(root);
+		const versions = await reloaded.list("m1", "a.md");
+
+		expect(versions.map((v) => v.side).sort()).toEqual(["ai", "obsidian"]);
+		expect(versions[0].time).toBeGreaterThanOrEqual(versions[1].time);
+		const bodies = await Promise.all(versions.map((v) => reloaded.read(v)));
+		expect(bodies.map((b) => b?.toString()).sort()).toEqual(["v1", "v2"]);
+	});
+
+	test("pruned versions lose their bodies, shared ones stay", async () => {
+		const store = new BackupStore(root);
+		const old = await store.add({ mappingId: "m1", relativePath: "a.md", side: "ai", reason: "overwrite" }, Buffer.from("old"));
+		await store.add({ mappingId: "m1", relativePath: "b.md", side: "ai", reason: "overwrite" }, Buffer.from("same"));
+		await store.add({ mappingId: "m1", relativePath: "a.md", side: "ai", reason: "overwrite" }, Buffer.from("same"));
+		// Make "old" the older of the two a.md versions whatever the clock did
+		old.time -= 1000;
+
+		await store.save({ maxVersions: 1, maxAgeDays: 0 });
+
+		expect((await store.list("m1", "a.md")).map((v) => v.hash)).not.toContain(old.hash);
+		expect(await store.read(old)).toBeUndefined();
+		expect((await store.list("m1", "b.md"))).toHaveLength(1);
+	});
+
+	test("unlisted pre-images are kept while referenced and dropped once released", async () => {
+		const store = new BackupStore(root);
+		const hash = await store.putPreImage(Buffer.from("before"));
+		await store.save({ maxVersions: 0, maxAgeDays: 0 });
+		await store.save({ maxVersions: 0, maxAgeDays: 0 }, new Set([hash]));
+
+		expect(await store.list("m1", "a.md")).toEqual([]);
+		expect((await store.read({ hash }))?.toString()).toBe("before");
+
+		await store.save({ maxVersions: 0, maxAgeDays: 0 });
+
+		expect(await store.read({ hash })).toBeUndefined();
+	});
+
+	test("clear removes the store's files but not the folder", async () => {
+		const store = new BackupStore(root);
+		fs.writeFileSync(path.join(root, "keep.txt"), "not ours");
+		await store.add({ mappingId: "m1", relativePath: "a.md", side: "ai", reason: "overwrite" }, Buffer.from("v1"));
+		await store.save({ maxVersions: 0, maxAgeDays: 0 });
+
+		expect(await store.clear()).toBe(1);
+
+		expect(fs.readdirSync(root)).toEqual(["keep.txt"]);
+		expect(await new BackupStore(root).list("m1", "a.md")).toEqual([]);
+	});
+
+	test("a clear called after an add also clears what it added", async () => {
+		const store = new BackupStore(root);
+		const adding = store.add({ mappingId: "m1", relativePath: "a.md", side: "ai", reason: "overwrite" }, Buffer.from("v1"));
+		const clearing = store.clear();
+		await adding;
+
+		expect(await clearing).toBe(1);
+		expect(await store.list("m1", "a.md")).toEqual([]);
+	});
+});
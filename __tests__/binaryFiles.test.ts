@@ -0,0 +1,45 @@
+/**
+ * Unit tests: text-vs-binary classification.
+ *
+ * Known extensions decide without looking at content; only unknown ones are
+ * sniffed, so a markdown file that happens to contain a NUL is still a note.
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { isBinaryFile, looksBinary, toArrayBuffer } from "../src/binary-files";
+
+describe("isBinaryFile", () => {
+	test("known binary extensions are binary regardless of content", () => {
+		expect(isBinaryFile("docs/diagram.PNG")).toBe(true);
+		expect(isBinaryFile("spec.pdf", Buffer.from("plain"))).toBe(true);
+	});
+
+	test("known text extensions are text regardless of content", () => {
+		expect(isBinaryFile("notes.md", Buffer.from([0x61, 0x00, 0x62]))).toBe(false);
+		expect(isBinaryFile("board.excalidraw.md")).toBe(false);
+	});
+
+	test("unknown extensions are sniffed for a NUL byte", () => {
+		expect(isBinaryFile("model.bin", Buffer.from([0x01, 0x00, 0x02]))).toBe(true);
+		expect(isBinaryFile("Makefile", Buffer.from("all:\n\techo hi\n"))).toBe(false);
+	});
+
+	test("an unknown extension without content is treated as text", () => {
+		expect(isBinaryFile("LICENSE")).toBe(false);
+	});
+});
+
+describe("looksBinary", () => {
+	test("only the first 8000 bytes are sniffed", () => {
+		const late = Buffer.alloc(9000, 0x61);
+		late[8500] = 0;
+		expect(looksBinary(late)).toBe(false);
+	});
+});
+
+describe("toArrayBuffer", () => {
+	test("copies exactly the Buffer's bytes, not its backing pool", () => {
+		const pooled = Buffer.from("abcdef").subarray(2, 4);
+		expect(Buffer.from(toArrayBuffer(pooled)).toString()).toBe("cd");
+	});
+});
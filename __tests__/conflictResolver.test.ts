@@ -0,0 +1,83 @@
+/**
+ * Unit tests: the conflict resolver's path-based parts.
+ *
+ * Conflict rules pick a strategy per file, first match wins, and have to
+ * survive the mapping modal's text editor; conflict copies must keep their
+ * file type so the copy still syncs once it is renamed.
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import type { App } from "obsidian";
+import {
+	ConflictResolver,
+	formatConflictRules,
+	getConflictCopyPath,
+	parseConflictRules,
+	type ConflictInfo,
+} from "../src/conflict-resolver";
+
+function conflict(relativePath: string, aiNewer: boolean): ConflictInfo {
+	const older = new Date("2026-01-01T10:00:00Z");
+	const newer = new Date("2026-01-01T11:00:00Z");
+	return {
+		relativePath,
+		aiPath: `/repo/docs/${relativePath}`,
+		obsidianPath: `/vault/docs/${relativePath}`,
+		aiMtime: aiNewer ? newer : older,
+		obsidianMtime: aiNewer ? older : newer,
+		aiSize: 1,
+		obsidianSize: 1,
+	};
+}
+
+describe("conflict rules", () => {
+	const resolver = new ConflictResolver({} as App, "newer-wins");
+	resolver.setRules([
+		{ pattern: "generated/**", strategy: "ai-wins" },
+		{ pattern: "decisions/", strategy: "always-ask" },
+		{ pattern: "generated/keep.md", strategy: "obsidian-wins" },
+	]);
+
+	test("the first matching rule picks the strategy", () => {
+		const result = resolver.resolve(conflict("generated/api.md", false));
+		expect(result.decision).toBe("use-ai");
+		expect(result.rule).toEqual({ pattern: "generated/**", strategy: "ai-wins" });
+
+		// A later, more specific rule does not override an earlier match
+		expect(resolver.resolve(conflict("generated/keep.md", false)).decision).toBe("use-ai");
+		expect(resolver.getStrategyFor("decisions/0001-storage.md")).toBe("always-ask");
+	});
+
+	test("files no rule matches use the strategy", () => {
+		const result = resolver.resolve(conflict("guide.md", false));
+		expect(result.decision).toBe("use-obsidian");
+		expect(result.rule).toBeUndefined();
+	});
+
+	test("the editor text round-trips and bad lines are reported", () => {
+		const text = "generated/** ai-wins\ndecisions/** always-ask";
+		expect(formatConflictRules(parseConflictRules(text).rules)).toBe(text);
+
+		const { rules, errors } = parseConflictRules("# generated\nnotes/** newest\nloose\n");
+		expect(rules).toEqual([]);
+		expect(errors[0]).toMatch(/^Line 2: unknown strategy "newest"/);
+		expect(errors[1]).toBe("Line 3: expected <pattern> <strategy>");
+	});
+});
+
+describe("getConflictCopyPath", () => {
+	const time = new Date(2026, 9, 19, 14, 32, 5);
+
+	test("the copy sits next to the original, named after the losing side", () => {
+		expect(getConflictCopyPath("adr/plan.md", "obsidian", time)).toBe(
+			"adr/plan (conflict obsidian 2026-10-19 143205).md"
+		);
+		expect(getConflictCopyPath("plan.md", "ai", time)).toBe("plan (conflict ai 2026-10-19 143205).md");
+	});
+
+	test("a multi-part file type stays whole", () => {
+		expect(getConflictCopyPath("board.excalidraw.md", "ai", time, [".md", ".excalidraw.md"])).toBe(
+			"board (conflict ai 2026-10-19 143205).excalidraw.md"
+		);
+	});
+});
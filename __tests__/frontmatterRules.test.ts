@@ -0,0 +1,143 @@
+/**
+ * Unit tests: per-mapping frontmatter rules.
+ *
+ * Each rule is checked one way and back again: what a bidirectional mapping
+ * writes to the other side must come back as the original note, or the two
+ * copies would keep rewriting each other.
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+	applyFrontmatterRules,
+	formatFrontmatterRules,
+	parseFrontmatterRules,
+} from "../src/frontmatter-rules";
+import type { FrontmatterRule } from "../src/settings";
+
+const NOTE = [
+	"---",
+	"title: Storage design",
+	"tags:",
+	"  - adr",
+	"  - storage",
+	"status: draft",
+	"cssclasses: wide",
+	"---",
+	"# Storage design",
+	"",
+].join("\n");
+
+function roundTrip(rules: FrontmatterRule[], vaultNote: string): { ai: string; back: string } {
+	const ai = applyFrontmatterRules(vaultNote, rules, "obs-to-ai");
+	const back = applyFrontmatterRules(ai, rules, "ai-to-obs", vaultNote);
+	return { ai, back };
+}
+
+describe("applyFrontmatterRules", () => {
+	test("strip removes the key, and the vault's value is kept on the way back", () => {
+		const rules: FrontmatterRule[] = [
+			{ action: "strip", direction: "obs-to-ai", key: "tags" },
+			{ action: "strip", direction: "obs-to-ai", key: "cssclasses" },
+		];
+		const { ai, back } = roundTrip(rules, NOTE);
+
+		expect(ai).toBe("---\ntitle: Storage design\nstatus: draft\n---\n# Storage design\n");
+		expect(back).toBe(NOTE);
+	});
+
+	test("an edit made in the repo survives the restore of stripped keys", () => {
+		const rules: FrontmatterRule[] = [{ action: "strip", direction: "obs-to-ai", key: "tags" }];
+		const ai = applyFrontmatterRules(NOTE, rules, "obs-to-ai").replace("status: draft", "status: accepted");
+
+		const back = applyFrontmatterRules(ai, rules, "ai-to-obs", NOTE);
+
+		expect(back).toBe(NOTE.replace("status: draft", "status: accepted"));
+	});
+
+	test("rename moves the value under the new key and back", () => {
+		const rules: FrontmatterRule[] = [{ action: "rename", direction: "obs-to-ai", key: "tags", to: "keywords" }];
+		const { ai, back } = roundTrip(rules, NOTE);
+
+		expect(ai).toContain("keywords:\n  - adr\n  - storage\n");
+		expect(ai).not.toContain("tags:");
+		expect(back).toBe(NOTE);
+	});
+
+	test("default adds a missing key on the way out and drops it again on the way back", () => {
+		const rules: FrontmatterRule[] = [{ action: "default", direction: "obs-to-ai", key: "sidebar_position", value: "10" }];
+		const { ai, back } = roundTrip(rules, NOTE);
+
+		expect(ai).toContain("cssclasses: wide\nsidebar_position: 10\n---");
+		expect(back).toBe(NOTE);
+
+		// A value set in the repo is a real edit and is carried over
+		const edited = ai.replace("sidebar_position: 10", "sidebar_position: 3");
+		expect(applyFrontmatterRules(edited, rules, "ai-to-obs", NOTE)).toContain("sidebar_position: 3");
+	});
+
+	test("map translates values both ways and keeps the quoting", () => {
+		const rules: FrontmatterRule[] = [
+			{ action: "map", direction: "obs-to-ai", key: "status", values: { draft: "proposed", done: "accepted" } },
+		];
+		const quoted = NOTE.replace("status: draft", 'status: "draft"');
+		const { ai, back } = roundTrip(rules, quoted);
+
+		expect(ai).toContain('status: "proposed"');
+		expect(back).toBe(quoted);
+	});
+
+	test("a note without frontmatter gets one only when a rule adds a key", () => {
+		const body = "# Plain\n";
+		expect(applyFrontmatterRules(body, [{ action: "strip", direction: "obs-to-ai", key: "tags" }], "obs-to-ai"))
+			.toBe(body);
+		expect(applyFrontmatterRules(body, [{ action: "default", direction: "obs-to-ai", key: "layout", value: "doc" }], "obs-to-ai"))
+			.toBe("---\nlayout: doc\n---\n# Plain\n");
+	});
+
+	test("stripping every key drops the block, and the restore brings it back", () => {
+		const note = "---\ntags: [a]\n---\n# T\n";
+		const rules: FrontmatterRule[] = [{ action: "strip", direction: "obs-to-ai", key: "tags" }];
+		const { ai, back } = roundTrip(rules, note);
+
+		expect(ai).toBe("# T\n");
+		expect(back).toBe(note);
+	});
+
+	test("untouched notes come back byte for byte, CRLF included", () => {
+		const crlf = "---\r\ntitle: x\r\n---\r\nbody\r\n";
+		const rules: FrontmatterRule[] = [{ action: "strip", direction: "obs-to-ai", key: "tags" }];
+		expect(applyFrontmatterRules(crlf, rules, "obs-to-ai")).toBe(crlf);
+	});
+});
+
+describe("parseFrontmatterRules / formatFrontmatterRules", () => {
+	test("the editor text round-trips", () => {
+		const text = [
+			"obs-to-ai strip cssclasses",
+			"obs-to-ai rename tags -> keywords",
+			"obs-to-ai default layout = doc",
+			"ai-to-obs map status proposed -> draft, accepted -> done",
+		].join("\n");
+
+		const { rules, errors } = parseFrontmatterRules(text);
+
+		expect(errors).toEqual([]);
+		expect(rules).toEqual([
+			{ action: "strip", direction: "obs-to-ai", key: "cssclasses" },
+			{ action: "rename", direction: "obs-to-ai", key: "tags", to: "keywords" },
+			{ action: "default", direction: "obs-to-ai", key: "layout", value: "doc" },
+			{ action: "map", direction: "ai-to-obs", key: "status", values: { proposed: "draft", accepted: "done" } },
+		]);
+		expect(formatFrontmatterRules(rules)).toBe(text);
+	});
+
+	test("bad lines are reported with their line number", () => {
+		const { rules, errors } = parseFrontmatterRules("# comment\nboth strip tags\nobs-to-ai rename tags\n");
+
+		expect(rules).toEqual([]);
+		expect(errors).toEqual([
+			'Line 2: expected obs-to-ai or ai-to-obs, got "both"',
+			"Line 3: expected rename <key> -> <new key>",
+		]);
+	});
+});
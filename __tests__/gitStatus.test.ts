@@ -0,0 +1,88 @@
+/**
+ * Unit tests: reading what git is doing in an AI project.
+ *
+ * The repository is found from any folder inside it, through a `.git` file
+ * for worktrees; rebases, merges and a fresh index lock count as operations
+ * in progress (a stale lock does not), and the branch comes from HEAD, or
+ * from the rebase state while HEAD is detached.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { readGitStatus } from "../src/git-status";
+
+let repo: string;
+let gitDir: string;
+
+beforeEach(() => {
+	repo = fs.mkdtempSync(path.join(os.tmpdir(), "evc-git-test-"));
+	gitDir = path.join(repo, ".git");
+	fs.mkdirSync(path.join(repo, "docs", "specs"), { recursive: true });
+	fs.mkdirSync(gitDir);
+	fs.writeFileSync(path.join(gitDir, "HEAD"), "ref: refs/heads/feature/docs\n");
+});
+
+afterEach(() => {
+	fs.rmSync(repo, { recursive: true, force: true });
+});
+
+describe("readGitStatus", () => {
+	test("finds the repository from a folder inside it", () => {
+		expect(readGitStatus(path.join(repo, "docs", "specs"))).toEqual({ operation: null, branch: "feature/docs" });
+	});
+
+	test("a folder outside any repository has no status", () => {
+		const outside = fs.mkdtempSync(path.join(os.tmpdir(), "evc-git-none-"));
+		try {
+			expect(readGitStatus(outside)).toBeNull();
+		} finally {
+			fs.rmSync(outside, { recursive: true, force: true });
+		}
+	});
+
+	test("reports merges, rebases and index locks in progress", () => {
+		const docs = path.join(repo, "docs");
+
+		fs.writeFileSync(path.join(gitDir, "index.lock"), "");
+		expect(readGitStatus(docs)?.operation).toBe("index-lock");
+
+		fs.writeFileSync(path.join(gitDir, "MERGE_HEAD"), "0123456789abcdef\n");
+		expect(readGitStatus(docs)?.operation).toBe("merge");
+
+		fs.mkdirSync(path.join(gitDir, "rebase-merge"));
+		expect(readGitStatus(docs)?.operation).toBe("rebase");
+	});
+
+	test("an index lock left by a crashed git is ignored", () => {
+		fs.writeFileSync(path.join(gitDir, "index.lock"), "");
+		const anHourLater = Date.now() + 60 * 60 * 1000;
+
+		expect(readGitStatus(repo, anHourLater)?.operation).toBeNull();
+	});
+
+	test("names the branch being rebased while HEAD is detached", () => {
+		fs.writeFileSync(path.join(gitDir, "HEAD"), "0123456789abcdef0123456789abcdef01234567\n");
+		expect(readGitStatus(repo)?.branch).toBe("0123456");
+
+		fs.mkdirSync(path.join(gitDir, "rebase-merge"));
+		fs.writeFileSync(path.join(gitDir, "rebase-merge", "head-name"), "refs/heads/main\n");
+		expect(readGitStatus(repo)).toEqual({ operation: "rebase", branch: "main" });
+	});
+
+	test("follows a worktree's .git file to its git directory", () => {
+		const worktree = fs.mkdtempSync(path.join(os.tmpdir(), "evc-git-worktree-"));
+		try {
+			const worktreeGitDir = path.join(gitDir, "worktrees", "review");
+			fs.mkdirSync(worktreeGitDir, { recursive: true });
+			fs.writeFileSync(path.join(worktreeGitDir, "HEAD"), "ref: refs/heads/review\n");
+			fs.writeFileSync(path.join(worktreeGitDir, "MERGE_HEAD"), "0123456789abcdef\n");
+			fs.writeFileSync(path.join(worktree, ".git"), `gitdir: ${worktreeGitDir}\n`);
+
+			expect(readGitStatus(worktree)).toEqual({ operation: "merge", branch: "review" });
+		} finally {
+			fs.rmSync(worktree, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests: gitignore-style exclude matching.
+ *
+ * The engine walks, the watcher and the mapping stats all ask the same
+ * IgnoreMatcher, so these cases pin down the gitignore semantics once:
+ * globs, `**`, negation, anchoring and directory-only rules.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IgnoreMatcher, buildMappingIgnoreMatcher } from "../src/ignore-matcher";
+
+describe("IgnoreMatcher", () => {
+	test("a bare name matches that file or folder at any depth", () => {
+		const m = new IgnoreMatcher(["node_modules"]);
+		expect(m.ignores("node_modules", true)).toBe(true);
+		expect(m.ignores("pkg/node_modules/x.md")).toBe(true);
+		// No substring matching any more
+		expect(m.ignores("my_node_modules_notes.md")).toBe(false);
+	});
+
+	test("* and ? stay within one segment", () => {
+		const m = new IgnoreMatcher(["*.tmp.md", "draft?.md"]);
+		expect(m.ignores("a/b/x.tmp.md")).toBe(true);
+		expect(m.ignores("draft1.md")).toBe(true);
+		expect(m.ignores("draft12.md")).toBe(false);
+		expect(m.ignores("x.md")).toBe(false);
+	});
+
+	test("** spans directories", () => {
+		const m = new IgnoreMatcher(["drafts/**/*.tmp.md"]);
+		expect(m.ignores("drafts/a.tmp.md")).toBe(true);
+		expect(m.ignores("drafts/x/y/a.tmp.md")).toBe(true);
+		expect(m.ignores("drafts/a.md")).toBe(false);
+		// A slash in the middle anchors the pattern to the root
+		expect(m.ignores("notes/drafts/a.tmp.md")).toBe(false);
+	});
+
+	test("a leading slash anchors, a leading **/ does not", () => {
+		const anchored = new IgnoreMatcher(["/build"]);
+		expect(anchored.ignores("build", true)).toBe(true);
+		expect(anchored.ignores("src/build", true)).toBe(false);
+
+		const anywhere = new IgnoreMatcher(["**/build"]);
+		expect(anywhere.ignores("src/build", true)).toBe(true);
+	});
+
+	test("a trailing slash only matches directories", () => {
+		const m = new IgnoreMatcher(["cache/"]);
+		expect(m.ignores("cache", true)).toBe(true);
+		expect(m.ignores("cache/entry.md")).toBe(true);
+		expect(m.ignores("cache", false)).toBe(false);
+	});
+
+	test("negation re-includes, and the last matching rule wins", () => {
+		const m = new IgnoreMatcher(["*.md", "!keep.md"]);
+		expect(m.ignores("a.md")).toBe(true);
+		expect(m.ignores("sub/keep.md")).toBe(false);
+
+		const reversed = new IgnoreMatcher(["!keep.md", "*.md"]);
+		expect(reversed.ignores("keep.md")).toBe(true);
+	});
+
+	test("nothing inside an excluded directory can be re-included", () => {
+		const m = new IgnoreMatcher(["private/", "!private/keep.md"]);
+		expect(m.ignores("private/keep.md")).toBe(true);
+	});
+
+	test("comments, blanks, escapes and character classes", () => {
+		const m = new IgnoreMatcher(["# comment", "", "\\#literal.md", "v[0-9].md", "x[!a].md"]);
+		expect(m.ignores("#literal.md")).toBe(true);
+		expect(m.ignores("v3.md")).toBe(true);
+		expect(m.ignores("vx.md")).toBe(false);
+		expect(m.ignores("xb.md")).toBe(true);
+		expect(m.ignores("xa.md")).toBe(false);
+	});
+
+	test("an empty matcher keeps everything", () => {
+		expect(new IgnoreMatcher().ignores("anything.md")).toBe(false);
+	});
+
+	test("explain names the deciding rule, including one on a parent folder", () => {
+		const m = new IgnoreMatcher(["*.log.md", "archive/"]);
+		expect(m.explain("run.log.md")).toBe('"*.log.md"');
+		expect(m.explain("archive/2023/q1.md")).toBe('"archive/"');
+		expect(m.explain("plan.md")).toBeUndefined();
+	});
+
+	test("as an include list, a folder pattern covers everything inside it", () => {
+		const include = new IgnoreMatcher(["specs/", "adr/*.md"]);
+		expect(include.matches("specs/api/v2.md")).toBe(true);
+		expect(include.matches("adr/0001-storage.md")).toBe(true);
+		expect(include.matches("adr/drafts/0002.md")).toBe(false);
+		expect(include.matches("guides/setup.md")).toBe(false);
+	});
+});
+
+describe("buildMappingIgnoreMatcher", () => {
+	let projectRoot: string;
+
+	beforeEach(() => {
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "evc-ignore-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+	});
+
+	test("project .gitignore rules are read relative to the project root, not the docs folder", () => {
+		fs.writeFileSync(path.join(projectRoot, ".gitignore"), "/docs/generated/\n*.log.md\n");
+		const m = buildMappingIgnoreMatcher({ patterns: [], projectRoot, docsSubdir: "docs", useGitignore: true });
+
+		expect(m.ignores("generated/api.md")).toBe(true);
+		expect(m.explain("generated/api.md")).toBe('.gitignore "/docs/generated/"');
+		expect(m.ignores("notes/run.log.md")).toBe(true);
+		expect(m.ignores("notes/plan.md")).toBe(false);
+	});
+
+	test("ignore files are only read when the mapping opts in", () => {
+		fs.writeFileSync(path.join(projectRoot, ".gitignore"), "*.md\n");
+		fs.writeFileSync(path.join(projectRoot, ".evcsyncignore"), "scratch/\n");
+
+		const off = buildMappingIgnoreMatcher({ patterns: [], projectRoot, docsSubdir: "" });
+		expect(off.isEmpty()).toBe(true);
+
+		const syncOnly = buildMappingIgnoreMatcher({ patterns: [], projectRoot, docsSubdir: "", useSyncIgnore: true });
+		expect(syncOnly.ignores("scratch/a.md")).toBe(true);
+		expect(syncOnly.ignores("a.md")).toBe(false);
+	});
+
+	test("mapping patterns come last and can re-include what .gitignore excludes", () => {
+		fs.writeFileSync(path.join(projectRoot, ".gitignore"), "*.local.md\n");
+		const m = buildMappingIgnoreMatcher({
+			patterns: ["!shared.local.md"],
+			projectRoot,
+			docsSubdir: "",
+			useGitignore: true,
+		});
+
+		expect(m.ignores("me.local.md")).toBe(true);
+		expect(m.ignores("shared.local.md")).toBe(false);
+	});
+
+	test("a missing ignore file is not an error", () => {
+		const m = buildMappingIgnoreMatcher({
+			patterns: [],
+			projectRoot,
+			docsSubdir: "",
+			useGitignore: true,
+			useSyncIgnore: true,
+		});
+		expect(m.isEmpty()).toBe(true);
+	});
+});
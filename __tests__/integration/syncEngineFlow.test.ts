@@ -13,7 +13,7 @@ import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globa
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
-import { makeVaultMock } from "../mocks/obsidian";
+import { makeFileManagerMock, makeMetadataCacheMock, makeVaultMock } from "../mocks/obsidian";
 
 // obsidian module is redirected to __tests__/mocks/obsidian.ts via moduleNameMapper in jest.config.js
 
@@ -24,7 +24,10 @@ jest.mock("../../src/obsidian-internal", () => ({
 }));
 
 import { SyncEngine } from "../../src/sync-engine";
+import { SyncStateManager } from "../../src/sync-state-manager";
+import { ObjectStore } from "../../src/object-store";
 import type { EVCLocalSyncSettings, ProjectMapping } from "../../src/settings";
+import type { FileChangeEvent } from "../../src/file-watcher";
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -97,7 +100,7 @@ describe("Integration: SyncEngine AI→Obs file copy flow", () => {
 
 		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
 		const settings = makeSettings({ mappings: [] });
-		engine = new SyncEngine(app, settings, "/tmp/evc-ls-plugin");
+		engine = new SyncEngine(app, settings, makeTempDir());
 		await engine.init();
 	});
 
@@ -253,7 +256,7 @@ describe("Integration: overlapping bidirectional mappings must not nest docs/doc
 		});
 
 		const settings = makeSettings({ mappings: [mappingA, mappingB] });
-		engine = new SyncEngine(app, settings, "/tmp/evc-ls-plugin");
+		engine = new SyncEngine(app, settings, makeTempDir());
 		await engine.init();
 	});
 
@@ -315,7 +318,7 @@ describe("Integration: docsSubdir-fold self-nesting (#9d86c756)", () => {
 		aiDocsPath = path.join(aiProjectRoot, "dev-docs");
 
 		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
-		engine = new SyncEngine(app, makeSettings({ mappings: [] }), "/tmp/evc-ls-plugin");
+		engine = new SyncEngine(app, makeSettings({ mappings: [] }), makeTempDir());
 		await engine.init();
 	});
 
@@ -398,7 +401,7 @@ describe("Integration: shared-docsSubdir shadow duplicate (#3bb939c5 — #58/1.3
 		vaultDir = makeTempDir();
 		vault = makeVaultMock(vaultDir);
 		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
-		engine = new SyncEngine(app, makeSettings({ mappings: [] }), "/tmp/evc-ls-plugin");
+		engine = new SyncEngine(app, makeSettings({ mappings: [] }), makeTempDir());
 		await engine.init();
 	});
 
@@ -603,7 +606,7 @@ describe("Integration: guard skips are reported, not swallowed (#4dce529d)", ()
 		aiDocsPath = path.join(aiProjectRoot, "dev-docs");
 
 		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
-		engine = new SyncEngine(app, makeSettings({ mappings: [] }), "/tmp/evc-ls-plugin");
+		engine = new SyncEngine(app, makeSettings({ mappings: [] }), makeTempDir());
 		await engine.init();
 	});
 
@@ -728,7 +731,7 @@ describe("Integration: runMappingDiagnostics over a real vault tree (#4dce529d)"
 
 	function engineWith(mappings: ProjectMapping[]): SyncEngine {
 		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
-		return new SyncEngine(app, makeSettings({ mappings }), "/tmp/evc-ls-plugin");
+		return new SyncEngine(app, makeSettings({ mappings }), makeTempDir());
 	}
 
 	test("detects the folded shape against a real folder tree", async () => {
@@ -823,3 +826,1963 @@ describe("Integration: runMappingDiagnostics over a real vault tree (#4dce529d)"
 		expect(engine.runMappingDiagnostics()).toEqual([]);
 	});
 });
+
+describe("Integration: auto-merge resolution keeps both sides' edits", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	const BASE = "# Spec\n\n## Goals\nShip it.\n\n## Risks\nNone.\n";
+
+	function setMtime(dir: string, relPath: string, when: Date): void {
+		fs.utimesSync(path.join(dir, relPath), when, when);
+	}
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ conflictResolution: "auto-merge" }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", {
+			id: "map-merge",
+			bidirectional: true,
+			syncDirection: undefined,
+		});
+
+	test("non-overlapping edits on both sides are merged and written to both", async () => {
+		writeFile(aiDir, "spec.md", BASE);
+		await engine.syncMapping(mapping());
+
+		writeFile(aiDir, "spec.md", BASE.replace("Ship it.", "Ship it by Friday."));
+		writeFile(vaultDir, "project-docs/spec.md", BASE.replace("None.", "Vendor lock-in."));
+		setMtime(aiDir, "spec.md", new Date(Date.now() + 60_000));
+
+		const result = await engine.syncMapping(mapping());
+
+		const expected = BASE.replace("Ship it.", "Ship it by Friday.").replace("None.", "Vendor lock-in.");
+		expect(result.success).toBe(true);
+		expect(result.files.find((f) => f.file === "spec.md")?.action).toBe("merge");
+		expect(readFile(aiDir, "spec.md")).toBe(expected);
+		expect(readFile(vaultDir, "project-docs/spec.md")).toBe(expected);
+	});
+
+	test("overlapping edits leave conflict markers on both sides instead of dropping one", async () => {
+		writeFile(aiDir, "spec.md", BASE);
+		await engine.syncMapping(mapping());
+
+		writeFile(aiDir, "spec.md", BASE.replace("Ship it.", "Ship it in Q3."));
+		writeFile(vaultDir, "project-docs/spec.md", BASE.replace("Ship it.", "Ship it in Q4."));
+		setMtime(aiDir, "spec.md", new Date(Date.now() + 60_000));
+
+		const result = await engine.syncMapping(mapping());
+
+		const record = result.files.find((f) => f.file === "spec.md");
+		expect(record?.action).toBe("conflict");
+		expect(record?.error).toContain("1 region");
+		for (const content of [readFile(aiDir, "spec.md"), readFile(vaultDir, "project-docs/spec.md")]) {
+			expect(content).toContain("Ship it in Q3.");
+			expect(content).toContain("Ship it in Q4.");
+			expect(content).toContain("<<<<<<< AI project");
+		}
+	});
+});
+
+describe("Integration: last-synced snapshots persist across restarts", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+
+	const BASE = "# Notes\n\nalpha\n\nbeta\n";
+
+	function makeEngine(): SyncEngine {
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		return new SyncEngine(app, makeSettings({ conflictResolution: "auto-merge" }), pluginDir);
+	}
+
+	function countObjects(): number {
+		const root = path.join(pluginDir, "objects");
+		if (!fs.existsSync(root)) return 0;
+		return fs.readdirSync(root).reduce((n, bucket) => n + fs.readdirSync(path.join(root, bucket)).length, 0);
+	}
+
+	beforeEach(() => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", {
+			id: "map-snapshots",
+			bidirectional: true,
+			syncDirection: undefined,
+		});
+
+	test("a fresh engine on the same plugin dir still merges against the last-synced base", async () => {
+		writeFile(aiDir, "notes.md", BASE);
+		const first = makeEngine();
+		await first.init();
+		await first.syncMapping(mapping());
+
+		writeFile(aiDir, "notes.md", BASE.replace("alpha", "alpha (ai)"));
+		writeFile(vaultDir, "project-docs/notes.md", BASE.replace("beta", "beta (obsidian)"));
+		fs.utimesSync(path.join(aiDir, "notes.md"), new Date(Date.now() + 60_000), new Date(Date.now() + 60_000));
+
+		const restarted = makeEngine();
+		await restarted.init();
+		const result = await restarted.syncMapping(mapping());
+
+		expect(result.files.find((f) => f.file === "notes.md")?.action).toBe("merge");
+		expect(readFile(aiDir, "notes.md")).toBe("# Notes\n\nalpha (ai)\n\nbeta (obsidian)\n");
+	});
+
+	test("only the last sync's snapshots are kept, and clearing the mapping releases them", async () => {
+		const engine = makeEngine();
+		await engine.init();
+
+		writeFile(aiDir, "notes.md", BASE);
+		await engine.syncMapping(mapping());
+		writeFile(aiDir, "notes.md", BASE + "gamma\n");
+		fs.utimesSync(path.join(aiDir, "notes.md"), new Date(Date.now() + 60_000), new Date(Date.now() + 60_000));
+		await engine.syncMapping(mapping());
+
+		expect(countObjects()).toBe(1);
+
+		await engine.clearMappingState("map-snapshots");
+		expect(countObjects()).toBe(0);
+	});
+
+	test("a run finishing in between does not remove the snapshots another mapping's run has not recorded yet", async () => {
+		const engine = makeEngine();
+		await engine.init();
+		const otherAiDir = makeTempDir();
+		const other = makeMapping(otherAiDir, "other-docs", { id: "map-other", bidirectional: true, syncDirection: undefined });
+		writeFile(aiDir, "notes.md", BASE);
+		writeFile(otherAiDir, "other.md", "# Other\n");
+
+		// Hold the first mapping's run right after its last snapshot (the vault side)
+		let reached: () => void = () => undefined;
+		const atSnapshot = new Promise<void>((resolve) => (reached = resolve));
+		let release: () => void = () => undefined;
+		const gate = new Promise<void>((resolve) => (release = resolve));
+		const buildFileState = SyncStateManager.prototype.buildFileState;
+		const spy = jest.spyOn(SyncStateManager.prototype, "buildFileState").mockImplementation(async function (
+			this: SyncStateManager,
+			files
+		) {
+			const states = await buildFileState.call(this, files);
+			if (files.some((f) => f.absolutePath.startsWith(path.join(vaultDir, "project-docs")))) {
+				reached();
+				await gate;
+			}
+			return states;
+		});
+
+		try {
+			const held = engine.syncMapping(mapping());
+			await atSnapshot;
+			await engine.syncMapping(other);
+			release();
+			await held;
+		} finally {
+			spy.mockRestore();
+			rmDir(otherAiDir);
+		}
+
+		const hash = ObjectStore.hash(BASE);
+		expect(fs.existsSync(path.join(pluginDir, "objects", hash.slice(0, 2), hash.slice(2)))).toBe(true);
+	});
+});
+
+describe("Integration: change detection by content hash, not mtime", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	const future = (): Date => new Date(Date.now() + 60_000);
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ conflictResolution: "newer-wins" }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", {
+			id: "map-hash",
+			bidirectional: true,
+			syncDirection: undefined,
+		});
+
+	test("a touched file with identical content is skipped, not a conflict", async () => {
+		writeFile(aiDir, "a.md", "same\n");
+		await engine.syncMapping(mapping());
+
+		fs.utimesSync(path.join(aiDir, "a.md"), future(), future());
+		const result = await engine.syncMapping(mapping());
+
+		expect(result.conflicts).toHaveLength(0);
+		expect(result.files.find((f) => f.file === "a.md")?.action).toBe("skip");
+	});
+
+	test("an Obsidian edit is not lost to an unchanged AI file with a fresher mtime", async () => {
+		writeFile(aiDir, "a.md", "v1\n");
+		await engine.syncMapping(mapping());
+
+		writeFile(vaultDir, "project-docs/a.md", "v2 from obsidian\n");
+		fs.utimesSync(path.join(aiDir, "a.md"), future(), future());
+		const result = await engine.syncMapping(mapping());
+
+		const record = result.files.find((f) => f.file === "a.md");
+		expect(result.conflicts).toHaveLength(0);
+		expect(record?.action).toBe("update");
+		expect(record?.direction).toBe("obs-to-ai");
+		expect(readFile(aiDir, "a.md")).toBe("v2 from obsidian\n");
+	});
+
+	test("only an edit on both sides reaches conflict resolution", async () => {
+		writeFile(aiDir, "a.md", "v1\n");
+		await engine.syncMapping(mapping());
+
+		writeFile(aiDir, "a.md", "v2 from ai\n");
+		writeFile(vaultDir, "project-docs/a.md", "v2 from obsidian\n");
+		fs.utimesSync(path.join(aiDir, "a.md"), future(), future());
+		const result = await engine.syncMapping(mapping());
+
+		expect(result.conflicts.map((c) => c.relativePath)).toEqual(["a.md"]);
+		expect(readFile(vaultDir, "project-docs/a.md")).toBe("v2 from ai\n");
+	});
+
+	test("dry run reports the side that changed", async () => {
+		writeFile(aiDir, "a.md", "v1\n");
+		await engine.syncMapping(mapping());
+
+		writeFile(vaultDir, "project-docs/a.md", "v2 from obsidian\n");
+		fs.utimesSync(path.join(aiDir, "a.md"), future(), future());
+		const plan = await engine.dryRunMapping(mapping());
+
+		expect(plan.plannedActions).toEqual([
+			expect.objectContaining({ file: "a.md", action: "update", direction: "obs-to-ai" }),
+		]);
+	});
+});
+
+describe("Integration: incremental syncPaths", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings(), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = makeMapping("", "project-docs", { id: "map-incremental", bidirectional: true, syncDirection: undefined });
+	const m = (): ProjectMapping => ({ ...mapping, aiPath: aiDir });
+
+	const changed = (relativePath: string): FileChangeEvent => ({
+		path: path.join(aiDir, relativePath),
+		relativePath,
+		type: "change",
+		mapping: m(),
+		source: "ai",
+	});
+
+	test("falls back to a full run before the mapping has had one", async () => {
+		writeFile(aiDir, "a.md", "a\n");
+		writeFile(aiDir, "b.md", "b\n");
+
+		const result = await engine.syncPaths(m(), [changed("a.md")]);
+
+		expect(result.files.map((f) => f.file).sort()).toEqual(["a.md", "b.md"]);
+	});
+
+	test("after a full run only the named paths are processed", async () => {
+		writeFile(aiDir, "a.md", "a\n");
+		writeFile(aiDir, "b.md", "b\n");
+		await engine.syncMapping(m());
+
+		writeFile(aiDir, "a.md", "a2\n");
+		writeFile(aiDir, "b.md", "b2\n");
+		const result = await engine.syncPaths(m(), [changed("a.md")]);
+
+		expect(result.files.map((f) => f.file)).toEqual(["a.md"]);
+		expect(readFile(vaultDir, "project-docs/a.md")).toBe("a2\n");
+		expect(readFile(vaultDir, "project-docs/b.md")).toBe("b\n");
+
+		// The untouched path kept its state, so a full rescan still sees b.md as
+		// an AI-only edit rather than a conflict.
+		const rescan = await engine.syncMapping(m());
+		expect(rescan.conflicts).toHaveLength(0);
+		expect(readFile(vaultDir, "project-docs/b.md")).toBe("b2\n");
+	});
+
+	test("a path the state has never seen triggers a full run", async () => {
+		writeFile(aiDir, "a.md", "a\n");
+		await engine.syncMapping(m());
+
+		writeFile(aiDir, "a.md", "a2\n");
+		writeFile(aiDir, "new.md", "n\n");
+		const result = await engine.syncPaths(m(), [changed("new.md")]);
+
+		expect(result.files.map((f) => f.file).sort()).toEqual(["a.md", "new.md"]);
+	});
+
+	test("paths a full walk would filter out are ignored", async () => {
+		writeFile(aiDir, "a.md", "a\n");
+		writeFile(aiDir, "drafts/b.md", "b\n");
+		await engine.syncMapping(m());
+
+		engine.updateSettings(makeSettings({ excludePatterns: ["drafts"] }));
+		writeFile(aiDir, "drafts/b.md", "b2\n");
+		const result = await engine.syncPaths(m(), [changed("drafts/b.md")]);
+
+		expect(result.files).toHaveLength(0);
+		expect(readFile(vaultDir, "project-docs/drafts/b.md")).toBe("b\n");
+	});
+});
+
+describe("Integration: renames and moves are replayed, not copied", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	const NOTE = "# Design\n\nline 1\nline 2\nline 3\nline 4\n";
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = {
+			vault,
+			fileManager: makeFileManagerMock(vaultDir),
+			_vaultBasePath: vaultDir,
+		} as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ syncDeletions: false }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", { id: "map-rename", bidirectional: true, syncDirection: undefined });
+
+	test("a note moved in Obsidian is moved in the AI project, leaving no old copy", async () => {
+		writeFile(aiDir, "design.md", NOTE);
+		await engine.syncMapping(mapping());
+
+		fs.mkdirSync(path.join(vaultDir, "project-docs/archive"));
+		fs.renameSync(path.join(vaultDir, "project-docs/design.md"), path.join(vaultDir, "project-docs/archive/design.md"));
+		const result = await engine.syncMapping(mapping());
+
+		expect(result.files.filter((f) => f.action !== "skip")).toEqual([
+			expect.objectContaining({ file: "archive/design.md", action: "rename", direction: "obs-to-ai", renamedFrom: "design.md" }),
+		]);
+		expect(fileExists(aiDir, "design.md")).toBe(false);
+		expect(readFile(aiDir, "archive/design.md")).toBe(NOTE);
+	});
+
+	test("a file renamed and edited in the AI project is renamed in the vault, then updated", async () => {
+		writeFile(aiDir, "design.md", NOTE);
+		await engine.syncMapping(mapping());
+
+		fs.rmSync(path.join(aiDir, "design.md"));
+		writeFile(aiDir, "architecture.md", NOTE + "line 5\n");
+		const result = await engine.syncMapping(mapping());
+
+		expect(result.files.map((f) => [f.file, f.action])).toEqual([
+			["architecture.md", "rename"],
+			["architecture.md", "update"],
+		]);
+		expect(fileExists(vaultDir, "project-docs/design.md")).toBe(false);
+		expect(readFile(vaultDir, "project-docs/architecture.md")).toBe(NOTE + "line 5\n");
+	});
+
+	test("unrelated content is not paired as a rename", async () => {
+		writeFile(aiDir, "design.md", NOTE);
+		await engine.syncMapping(mapping());
+
+		fs.rmSync(path.join(aiDir, "design.md"));
+		writeFile(aiDir, "other.md", "something else entirely\n");
+		const result = await engine.syncMapping(mapping());
+
+		expect(result.files.some((f) => f.action === "rename")).toBe(false);
+	});
+
+	test("dry run shows the rename", async () => {
+		writeFile(aiDir, "design.md", NOTE);
+		await engine.syncMapping(mapping());
+
+		fs.renameSync(path.join(vaultDir, "project-docs/design.md"), path.join(vaultDir, "project-docs/plan.md"));
+		const plan = await engine.dryRunMapping(mapping());
+
+		expect(plan.plannedActions).toEqual([
+			expect.objectContaining({ file: "plan.md", action: "rename", direction: "obs-to-ai" }),
+		]);
+	});
+});
+
+describe("Integration: binary attachments are copied byte for byte", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	// PNG signature plus bytes that do not survive a UTF-8 round trip
+	const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe, 0x80, 0xc3]);
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ fileTypes: [".md", ".png", ".bin"] }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", { id: "map-binary", bidirectional: true, syncDirection: undefined });
+
+	test("an image in the AI project arrives in the vault unchanged", async () => {
+		fs.mkdirSync(path.join(aiDir, "img"), { recursive: true });
+		fs.writeFileSync(path.join(aiDir, "img/arch.png"), PNG);
+
+		await engine.syncMapping(mapping());
+
+		expect(fs.readFileSync(path.join(vaultDir, "project-docs/img/arch.png")).equals(PNG)).toBe(true);
+	});
+
+	test("an attachment edited in Obsidian is copied back unchanged", async () => {
+		fs.writeFileSync(path.join(aiDir, "arch.png"), PNG);
+		await engine.syncMapping(mapping());
+
+		const edited = Buffer.concat([PNG, Buffer.from([0x00, 0x9f])]);
+		fs.writeFileSync(path.join(vaultDir, "project-docs/arch.png"), edited);
+		await engine.syncMapping(mapping());
+
+		expect(fs.readFileSync(path.join(aiDir, "arch.png")).equals(edited)).toBe(true);
+	});
+
+	test("an unknown extension is sniffed as binary", async () => {
+		fs.writeFileSync(path.join(aiDir, "weights.bin"), PNG);
+
+		await engine.syncMapping(mapping());
+
+		expect(fs.readFileSync(path.join(vaultDir, "project-docs/weights.bin")).equals(PNG)).toBe(true);
+	});
+});
+
+describe("Integration: gitignore-style exclude rules", () => {
+	let projectDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+
+	beforeEach(() => {
+		projectDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+	});
+
+	afterEach(() => {
+		rmDir(projectDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	async function makeEngine(settings: EVCLocalSyncSettings): Promise<SyncEngine> {
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		const engine = new SyncEngine(app, settings, pluginDir);
+		await engine.init();
+		return engine;
+	}
+
+	test("globs and negation decide what is copied", async () => {
+		writeFile(projectDir, "docs/drafts/a/idea.tmp.md", "tmp");
+		writeFile(projectDir, "docs/drafts/keep.md", "keep");
+		writeFile(projectDir, "docs/drafts/scratch.md", "scratch");
+		writeFile(projectDir, "docs/spec.md", "spec");
+		const engine = await makeEngine(makeSettings({ excludePatterns: ["drafts/**/*.tmp.md", "drafts/*.md", "!keep.md"] }));
+
+		await engine.syncMapping(makeMapping(projectDir, "project-docs", { docsSubdir: "docs" }));
+
+		expect(fileExists(vaultDir, "project-docs/docs/spec.md")).toBe(true);
+		expect(fileExists(vaultDir, "project-docs/docs/drafts/keep.md")).toBe(true);
+		expect(fileExists(vaultDir, "project-docs/docs/drafts/scratch.md")).toBe(false);
+		expect(fileExists(vaultDir, "project-docs/docs/drafts/a/idea.tmp.md")).toBe(false);
+	});
+
+	test("the project's .gitignore and .evcsyncignore apply only when the mapping opts in", async () => {
+		writeFile(projectDir, ".gitignore", "/docs/generated/\n");
+		writeFile(projectDir, ".evcsyncignore", "private.md\n");
+		writeFile(projectDir, "docs/generated/api.md", "api");
+		writeFile(projectDir, "docs/private.md", "private");
+		writeFile(projectDir, "docs/spec.md", "spec");
+		const engine = await makeEngine(makeSettings());
+
+		await engine.syncMapping(makeMapping(projectDir, "plain", { id: "plain", docsSubdir: "docs" }));
+		await engine.syncMapping(makeMapping(projectDir, "ignored", {
+			id: "ignored",
+			docsSubdir: "docs",
+			useGitignore: true,
+			useSyncIgnore: true,
+		}));
+
+		expect(fileExists(vaultDir, "plain/docs/generated/api.md")).toBe(true);
+		expect(fileExists(vaultDir, "plain/docs/private.md")).toBe(true);
+		expect(fileExists(vaultDir, "ignored/docs/spec.md")).toBe(true);
+		expect(fileExists(vaultDir, "ignored/docs/generated/api.md")).toBe(false);
+		expect(fileExists(vaultDir, "ignored/docs/private.md")).toBe(false);
+	});
+});
+
+describe("Integration: include patterns narrow a mapping to part of the docs tree", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ excludePatterns: ["*.draft.md"] }), pluginDir);
+		await engine.init();
+
+		writeFile(aiDir, "specs/api/v2.md", "api");
+		writeFile(aiDir, "specs/api/v3.draft.md", "draft");
+		writeFile(aiDir, "adr/0001-storage.md", "adr");
+		writeFile(aiDir, "adr/old/0000.md", "old adr");
+		writeFile(aiDir, "guides/setup.md", "guide");
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", {
+			id: "map-include",
+			bidirectional: true,
+			syncDirection: undefined,
+			includePatternsOverride: ["specs/**", "adr/*.md"],
+		});
+
+	test("only files matching an include pattern are synced, minus excludes", async () => {
+		await engine.syncMapping(mapping());
+
+		expect(fileExists(vaultDir, "project-docs/specs/api/v2.md")).toBe(true);
+		expect(fileExists(vaultDir, "project-docs/adr/0001-storage.md")).toBe(true);
+		expect(fileExists(vaultDir, "project-docs/specs/api/v3.draft.md")).toBe(false);
+		expect(fileExists(vaultDir, "project-docs/adr/old/0000.md")).toBe(false);
+		expect(fileExists(vaultDir, "project-docs/guides/setup.md")).toBe(false);
+	});
+
+	test("Obsidian-side files outside the include patterns are not copied back", async () => {
+		writeFile(vaultDir, "project-docs/inbox.md", "vault only");
+
+		await engine.syncMapping(mapping());
+
+		expect(fileExists(aiDir, "inbox.md")).toBe(false);
+	});
+
+	test("dry run says why each file was filtered out", async () => {
+		const plan = await engine.dryRunMapping(mapping());
+
+		expect(plan.plannedActions.map((a) => a.file).sort()).toEqual(["adr/0001-storage.md", "specs/api/v2.md"]);
+		expect(plan.filteredFiles).toEqual(expect.arrayContaining([
+			{ file: "specs/api/v3.draft.md", side: "ai", reason: 'Excluded by "*.draft.md"' },
+			{ file: "guides/setup.md", side: "ai", reason: "Not matched by any include pattern" },
+			{ file: "adr/old/0000.md", side: "ai", reason: "Not matched by any include pattern" },
+		]));
+	});
+});
+
+describe("Integration: links are rewritten between wikilinks and relative Markdown", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = {
+			vault,
+			metadataCache: makeMetadataCacheMock(vaultDir),
+			_vaultBasePath: vaultDir,
+		} as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings(), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (overrides: Partial<ProjectMapping> = {}): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", {
+			id: "map-links",
+			bidirectional: true,
+			syncDirection: undefined,
+			rewriteLinks: true,
+			...overrides,
+		});
+
+	test("wikilinks written in Obsidian arrive as relative Markdown links", async () => {
+		writeFile(vaultDir, "project-docs/guides/setup.md", "# Setup\n");
+		writeFile(vaultDir, "project-docs/notes/plan.md", "Follow [[setup#Install]] first.\n");
+
+		await engine.syncMapping(mapping());
+
+		expect(readFile(aiDir, "notes/plan.md")).toBe("Follow [setup#Install](../guides/setup.md#Install) first.\n");
+		// The vault keeps its wikilinks
+		expect(readFile(vaultDir, "project-docs/notes/plan.md")).toBe("Follow [[setup#Install]] first.\n");
+	});
+
+	test("relative links in the repo arrive as wikilinks", async () => {
+		writeFile(aiDir, "guides/setup.md", "# Setup\n");
+		writeFile(vaultDir, "project-docs/guides/setup.md", "# Setup\n");
+		writeFile(aiDir, "index.md", "Start with [the setup guide](guides/setup.md).\n");
+
+		await engine.syncMapping(mapping());
+
+		expect(readFile(vaultDir, "project-docs/index.md")).toBe("Start with [[setup|the setup guide]].\n");
+		expect(readFile(aiDir, "index.md")).toBe("Start with [the setup guide](guides/setup.md).\n");
+	});
+
+	test("a synced pair that differs only by link syntax is left alone on the next run", async () => {
+		writeFile(aiDir, "guides/setup.md", "# Setup\n");
+		writeFile(vaultDir, "project-docs/notes/plan.md", "See [[setup]].\n");
+		await engine.syncMapping(mapping());
+
+		const second = await engine.syncMapping(mapping());
+
+		expect(second.files.filter((f) => f.action !== "skip")).toEqual([]);
+		expect(second.conflicts).toEqual([]);
+	});
+
+	test("links that cannot be converted are kept and reported", async () => {
+		writeFile(vaultDir, "project-docs/plan.md", "See [[Nowhere]].\n");
+		writeFile(vaultDir, "elsewhere/outside.md", "not synced\n");
+		writeFile(vaultDir, "project-docs/refs.md", "See [[outside]].\n");
+
+		const result = await engine.syncMapping(mapping());
+
+		expect(readFile(aiDir, "plan.md")).toBe("See [[Nowhere]].\n");
+		expect(result.unresolvedLinks).toEqual(expect.arrayContaining([
+			{ file: "plan.md", link: "[[Nowhere]]", direction: "obs-to-ai", reason: "no matching file in the vault" },
+			{
+				file: "refs.md",
+				link: "[[outside]]",
+				direction: "obs-to-ai",
+				reason: "target elsewhere/outside.md is outside the mapping",
+			},
+		]));
+	});
+
+	test("without rewriteLinks files are copied as written", async () => {
+		writeFile(vaultDir, "project-docs/guides/setup.md", "# Setup\n");
+		writeFile(vaultDir, "project-docs/plan.md", "See [[setup]].\n");
+
+		await engine.syncMapping(mapping({ rewriteLinks: false }));
+
+		expect(readFile(aiDir, "plan.md")).toBe("See [[setup]].\n");
+	});
+});
+
+describe("Integration: frontmatter rules are applied per direction and round-trip", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	const NOTE = "---\ntitle: Plan\ntags: [roadmap]\n---\n# Plan\n";
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings(), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", {
+			id: "map-frontmatter",
+			bidirectional: true,
+			syncDirection: undefined,
+			frontmatterRules: [
+				{ action: "strip", direction: "obs-to-ai", key: "tags" },
+				{ action: "default", direction: "obs-to-ai", key: "sidebar_position", value: "1" },
+			],
+		});
+
+	test("the repo copy gets the repo's frontmatter, the vault keeps its own", async () => {
+		writeFile(vaultDir, "project-docs/plan.md", NOTE);
+
+		await engine.syncMapping(mapping());
+
+		expect(readFile(aiDir, "plan.md")).toBe("---\ntitle: Plan\nsidebar_position: 1\n---\n# Plan\n");
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe(NOTE);
+	});
+
+	test("an edit in the repo comes back without losing vault-only keys, and then settles", async () => {
+		writeFile(vaultDir, "project-docs/plan.md", NOTE);
+		await engine.syncMapping(mapping());
+
+		writeFile(aiDir, "plan.md", "---\ntitle: Plan v2\nsidebar_position: 1\n---\n# Plan\n");
+		const future = new Date(Date.now() + 5000);
+		fs.utimesSync(path.join(aiDir, "plan.md"), future, future);
+		await engine.syncMapping(mapping());
+
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("---\ntitle: Plan v2\ntags: [roadmap]\n---\n# Plan\n");
+
+		const third = await engine.syncMapping(mapping());
+		expect(third.files.filter((f) => f.action !== "skip")).toEqual([]);
+	});
+});
+
+describe("Integration: a conflict merged by hand in the modal is written to both sides", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	const BASE = "# Spec\nShip it.\n";
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ conflictResolution: "always-ask" }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", { id: "map-manual", bidirectional: true, syncDirection: undefined });
+
+	test("the modal sees both texts, and its hand-merged result lands on both sides", async () => {
+		writeFile(aiDir, "spec.md", BASE);
+		await engine.syncMapping(mapping());
+		writeFile(aiDir, "spec.md", "# Spec\nShip it in Q3.\n");
+		writeFile(vaultDir, "project-docs/spec.md", "# Spec\nShip it in Q4.\n");
+
+		const asked: Array<{ ai?: string; obs?: string }> = [];
+		engine.setConflictModalCallback(async (conflicts) => {
+			asked.push(...conflicts.map((c) => ({ ai: c.aiContent, obs: c.obsidianContent })));
+			return [{ decision: "manual", mergedContent: "# Spec\nShip it in Q3, or Q4 at the latest.\n" }];
+		});
+		const result = await engine.syncMapping(mapping());
+
+		expect(asked).toEqual([{ ai: "# Spec\nShip it in Q3.\n", obs: "# Spec\nShip it in Q4.\n" }]);
+		expect(result.files.find((f) => f.file === "spec.md")).toMatchObject({ action: "merge", success: true });
+		expect(readFile(aiDir, "spec.md")).toBe("# Spec\nShip it in Q3, or Q4 at the latest.\n");
+		expect(readFile(vaultDir, "project-docs/spec.md")).toBe("# Spec\nShip it in Q3, or Q4 at the latest.\n");
+		// The texts are for the modal only
+		expect(result.conflicts[0].aiContent).toBeUndefined();
+
+		const next = await engine.syncMapping(mapping());
+		expect(next.conflicts).toEqual([]);
+	});
+});
+
+describe("Integration: all conflicts of a run are put to the user in one review", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ conflictResolution: "always-ask" }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", { id: "map-review", bidirectional: true, syncDirection: undefined });
+
+	test("one callback for every conflict, and each answer is carried out", async () => {
+		for (const file of ["adr/0001.md", "adr/0002.md", "guide.md"]) {
+			writeFile(aiDir, file, "base\n");
+		}
+		writeFile(aiDir, "plain.md", "base\n");
+		await engine.syncMapping(mapping());
+		for (const file of ["adr/0001.md", "adr/0002.md", "guide.md"]) {
+			writeFile(aiDir, file, "ai edit\n");
+			writeFile(vaultDir, `project-docs/${file}`, "vault edit\n");
+		}
+		// A one-sided edit is not a conflict and is not asked about
+		writeFile(aiDir, "plain.md", "ai only\n");
+
+		const calls: string[][] = [];
+		engine.setConflictModalCallback(async (conflicts) => {
+			calls.push(conflicts.map((c) => c.relativePath.replace(/\\/g, "/")));
+			return conflicts.map((c) => ({
+				decision: c.relativePath.replace(/\\/g, "/").startsWith("adr/") ? "use-ai" : "skip",
+			}));
+		});
+		const result = await engine.syncMapping(mapping());
+
+		expect(calls).toHaveLength(1);
+		expect(calls[0].sort()).toEqual(["adr/0001.md", "adr/0002.md", "guide.md"]);
+		expect(readFile(vaultDir, "project-docs/adr/0001.md")).toBe("ai edit\n");
+		expect(readFile(vaultDir, "project-docs/adr/0002.md")).toBe("ai edit\n");
+		expect(readFile(vaultDir, "project-docs/guide.md")).toBe("vault edit\n");
+		expect(readFile(aiDir, "guide.md")).toBe("ai edit\n");
+		expect(readFile(vaultDir, "project-docs/plain.md")).toBe("ai only\n");
+		expect(result.conflicts).toHaveLength(3);
+	});
+});
+
+describe("Integration: background runs queue always-ask conflicts instead of asking", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let app: import("obsidian").App;
+	let engine: SyncEngine;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ conflictResolution: "always-ask" }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", { id: "map-pending", bidirectional: true, syncDirection: undefined });
+
+	async function makeConflict(file: string): Promise<void> {
+		writeFile(aiDir, file, "base\n");
+		await engine.syncMapping(mapping());
+		writeFile(aiDir, file, "ai edit\n");
+		writeFile(vaultDir, `project-docs/${file}`, "vault edit\n");
+	}
+
+	test("the conflict is skipped and queued, and survives a reload", async () => {
+		await makeConflict("plan.md");
+		writeFile(aiDir, "other.md", "new\n");
+		let asked = 0;
+		engine.setConflictModalCallback(async (conflicts) => {
+			asked++;
+			return conflicts.map(() => ({ decision: "use-ai" as const }));
+		});
+
+		await engine.syncMapping(mapping(), { deferConflicts: true });
+
+		expect(asked).toBe(0);
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("vault edit\n");
+		// The rest of the run goes ahead
+		expect(readFile(vaultDir, "project-docs/other.md")).toBe("new\n");
+		expect(engine.getPendingConflicts().map((c) => c.relativePath)).toEqual(["plan.md"]);
+
+		const reloaded = new SyncEngine(app, makeSettings({ conflictResolution: "always-ask" }), pluginDir);
+		await reloaded.init();
+		expect(reloaded.getPendingConflicts("map-pending")).toHaveLength(1);
+	});
+
+	test("resolving asks about the queued files and empties the queue", async () => {
+		await makeConflict("plan.md");
+		await engine.syncMapping(mapping(), { deferConflicts: true });
+
+		const asked: string[] = [];
+		engine.setConflictModalCallback(async (conflicts) => {
+			asked.push(...conflicts.map((c) => c.relativePath));
+			return conflicts.map(() => ({ decision: "use-ai" as const }));
+		});
+		await engine.syncPendingConflicts(mapping());
+
+		expect(asked).toEqual(["plan.md"]);
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("ai edit\n");
+		expect(engine.getPendingConflicts()).toEqual([]);
+	});
+
+	test("a skipped conflict stays queued, one made equal by hand leaves the queue", async () => {
+		await makeConflict("plan.md");
+		await engine.syncMapping(mapping(), { deferConflicts: true });
+		const queuedAt = engine.getPendingConflicts()[0].queuedAt;
+
+		engine.setConflictModalCallback(async (conflicts) => conflicts.map(() => ({ decision: "skip" as const })));
+		await engine.syncPendingConflicts(mapping());
+		expect(engine.getPendingConflicts()).toEqual([
+			{ mappingId: "map-pending", relativePath: "plan.md", queuedAt },
+		]);
+
+		writeFile(aiDir, "plan.md", "vault edit\n");
+		await engine.syncMapping(mapping(), { deferConflicts: true });
+		expect(engine.getPendingConflicts()).toEqual([]);
+	});
+});
+
+describe("Integration: keep-both saves the losing version as a conflict copy", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ conflictResolution: "keep-both" }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const COPY_RE = /^plan \(conflict obsidian \d{4}-\d\d-\d\d \d{6}\)\.md$/;
+
+	/** Edit both sides, the AI side last */
+	async function makeConflict(mapping: ProjectMapping): Promise<void> {
+		writeFile(aiDir, "plan.md", "base\n");
+		await engine.syncMapping(mapping);
+		writeFile(vaultDir, "project-docs/plan.md", "vault edit\n");
+		writeFile(aiDir, "plan.md", "ai edit\n");
+		const later = new Date(Date.now() + 60_000);
+		fs.utimesSync(path.join(aiDir, "plan.md"), later, later);
+	}
+
+	test("the newer version is synced and the other is kept on both sides", async () => {
+		const mapping = makeMapping(aiDir, "project-docs", { bidirectional: true, syncDirection: undefined });
+		await makeConflict(mapping);
+
+		await engine.syncMapping(mapping);
+
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("ai edit\n");
+		const aiCopies = fs.readdirSync(aiDir).filter((f) => COPY_RE.test(f));
+		const vaultCopies = fs.readdirSync(path.join(vaultDir, "project-docs")).filter((f) => COPY_RE.test(f));
+		expect(aiCopies).toHaveLength(1);
+		expect(vaultCopies).toEqual(aiCopies);
+		expect(readFile(aiDir, aiCopies[0])).toBe("vault edit\n");
+		expect(readFile(vaultDir, `project-docs/${aiCopies[0]}`)).toBe("vault edit\n");
+	});
+
+	test("copies are left out of syncs until renamed", async () => {
+		const mapping = makeMapping(aiDir, "project-docs", { bidirectional: true, syncDirection: undefined });
+		await makeConflict(mapping);
+		await engine.syncMapping(mapping);
+		const copy = fs.readdirSync(aiDir).filter((f) => COPY_RE.test(f))[0];
+
+		writeFile(aiDir, copy, "edited copy\n");
+		await engine.syncMapping(mapping);
+		expect(readFile(vaultDir, `project-docs/${copy}`)).toBe("vault edit\n");
+
+		const plan = await engine.dryRunMapping(mapping);
+		expect(plan.filteredFiles).toContainEqual({
+			file: copy,
+			side: "ai",
+			reason: "Conflict copy (rename it to sync it)",
+		});
+
+		fs.renameSync(path.join(vaultDir, "project-docs", copy), path.join(vaultDir, "project-docs", "plan-vault.md"));
+		await engine.syncMapping(mapping);
+		expect(readFile(aiDir, "plan-vault.md")).toBe("vault edit\n");
+	});
+
+	test("a one-way mapping syncs its source side and keeps the copy on the target only", async () => {
+		const mapping = makeMapping(aiDir, "project-docs", { bidirectional: false, syncDirection: "ai-to-obs" });
+		writeFile(aiDir, "plan.md", "base\n");
+		await engine.syncMapping(mapping);
+		writeFile(aiDir, "plan.md", "ai edit\n");
+		writeFile(vaultDir, "project-docs/plan.md", "vault edit\n");
+		// The vault edit is newer, but nothing flows back to the repo
+		const later = new Date(Date.now() + 60_000);
+		fs.utimesSync(path.join(vaultDir, "project-docs/plan.md"), later, later);
+
+		await engine.syncMapping(mapping);
+
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("ai edit\n");
+		const vaultCopies = fs.readdirSync(path.join(vaultDir, "project-docs")).filter((f) => COPY_RE.test(f));
+		expect(vaultCopies).toHaveLength(1);
+		expect(fs.readdirSync(aiDir).filter((f) => COPY_RE.test(f))).toEqual([]);
+	});
+});
+
+describe("Integration: conflict rules pick the strategy per path", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		engine = new SyncEngine(app, makeSettings({ conflictResolution: "newer-wins" }), pluginDir);
+		await engine.init();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	const mapping = (): ProjectMapping =>
+		makeMapping(aiDir, "project-docs", {
+			id: "map-rules",
+			bidirectional: true,
+			syncDirection: undefined,
+			conflictRules: [
+				{ pattern: "generated/**", strategy: "ai-wins" },
+				{ pattern: "decisions/**", strategy: "always-ask" },
+			],
+		});
+
+	const FILES = ["generated/api.md", "decisions/0001.md", "guide.md"];
+
+	/** Edit every file on both sides, the vault side last */
+	async function makeConflicts(): Promise<void> {
+		for (const file of FILES) {
+			writeFile(aiDir, file, "base\n");
+		}
+		await engine.syncMapping(mapping());
+		const later = new Date(Date.now() + 60_000);
+		for (const file of FILES) {
+			writeFile(aiDir, file, "ai edit\n");
+			writeFile(vaultDir, `project-docs/${file}`, "vault edit\n");
+			fs.utimesSync(path.join(vaultDir, "project-docs", file), later, later);
+		}
+	}
+
+	test("each file is resolved by the first rule matching it", async () => {
+		await makeConflicts();
+		const asked: string[] = [];
+		engine.setConflictModalCallback(async (conflicts) => {
+			asked.push(...conflicts.map((c) => c.relativePath.replace(/\\/g, "/")));
+			return conflicts.map(() => ({ decision: "use-ai" as const }));
+		});
+
+		await engine.syncMapping(mapping());
+
+		// Only the always-ask rule asks, even though the mapping is newer-wins
+		expect(asked).toEqual(["decisions/0001.md"]);
+		expect(readFile(vaultDir, "project-docs/decisions/0001.md")).toBe("ai edit\n");
+		// The vault edit is newer, but the rule says the AI version wins
+		expect(readFile(vaultDir, "project-docs/generated/api.md")).toBe("ai edit\n");
+		expect(readFile(aiDir, "guide.md")).toBe("vault edit\n");
+	});
+
+	test("the dry run names the rule that matched", async () => {
+		await makeConflicts();
+
+		const plan = await engine.dryRunMapping(mapping());
+		const byFile = new Map(plan.plannedActions.map((a) => [a.file.replace(/\\/g, "/"), a]));
+
+		expect(byFile.get("generated/api.md")?.conflictRule).toBe("generated/** ai-wins");
+		expect(byFile.get("decisions/0001.md")).toMatchObject({
+			action: "skip",
+			reason: "Changed on both sides, you will be asked",
+			conflictRule: "decisions/** always-ask",
+		});
+		expect(byFile.get("guide.md")?.conflictRule).toBeUndefined();
+	});
+});
+
+describe("Integration: backups go to the versioned store, not next to the originals", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+	let mapping: ProjectMapping;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		mapping = makeMapping(aiDir, "project-docs");
+		engine = new SyncEngine(app, makeSettings({ createBackups: true, mappings: [mapping] }), pluginDir);
+		await engine.init();
+
+		writeFile(aiDir, "notes/plan.md", "v1\n");
+		await engine.syncMapping(mapping);
+		writeFile(aiDir, "notes/plan.md", "v2\n");
+		const later = new Date(Date.now() + 60_000);
+		fs.utimesSync(path.join(aiDir, "notes/plan.md"), later, later);
+		await engine.syncMapping(mapping);
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	test("an overwrite saves the old version in the store only", async () => {
+		expect(readFile(vaultDir, "project-docs/notes/plan.md")).toBe("v2\n");
+		expect(fs.readdirSync(path.join(vaultDir, "project-docs/notes"))).toEqual(["plan.md"]);
+
+		const located = engine.locateVaultFile("project-docs/notes/plan.md");
+		expect(located?.relativePath).toBe("notes/plan.md");
+		const history = await engine.getFileHistory(mapping.id, "notes/plan.md");
+		expect(history).toHaveLength(1);
+		expect(history[0]).toMatchObject({ side: "obsidian", reason: "overwrite" });
+		expect((await engine.readBackup(history[0]))?.toString()).toBe("v1\n");
+		expect(fs.existsSync(path.join(pluginDir, "backups", "index.json"))).toBe(true);
+	});
+
+	test("a restore puts the version back and saves the one it replaced", async () => {
+		const [version] = await engine.getFileHistory(mapping.id, "notes/plan.md");
+
+		await engine.restoreBackup(mapping, version);
+
+		expect(readFile(vaultDir, "project-docs/notes/plan.md")).toBe("v1\n");
+		const history = await engine.getFileHistory(mapping.id, "notes/plan.md");
+		expect(history.map((v) => v.reason).sort()).toEqual(["overwrite", "restore"]);
+		const replaced = history.find((v) => v.reason === "restore");
+		expect(replaced && (await engine.readBackup(replaced))?.toString()).toBe("v2\n");
+	});
+});
+
+describe("Integration: undo last sync reverts exactly that run", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let engine: SyncEngine;
+	let mapping: ProjectMapping;
+
+	/** Write in the AI project with an mtime after the last sync */
+	function writeAiLater(relPath: string, content: string): void {
+		writeFile(aiDir, relPath, content);
+		const later = new Date(Date.now() + 60_000);
+		fs.utimesSync(path.join(aiDir, relPath), later, later);
+	}
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = {
+			vault,
+			fileManager: {
+				...makeFileManagerMock(vaultDir),
+				trashFile: async (file: { path: string }) => fs.rmSync(path.join(vaultDir, file.path)),
+			},
+			_vaultBasePath: vaultDir,
+		} as unknown as import("obsidian").App;
+		mapping = makeMapping(aiDir, "project-docs", { bidirectional: true, syncDirection: undefined });
+		engine = new SyncEngine(
+			app,
+			makeSettings({ createBackups: true, syncDeletions: true, mappings: [mapping] }),
+			pluginDir
+		);
+		await engine.init();
+
+		writeFile(aiDir, "plan.md", "v1\n");
+		writeFile(aiDir, "old.md", "keep me\nand me\nand me too\n");
+		await engine.syncMapping(mapping);
+
+		// The "bad checkout": an overwrite, a new file and a deletion
+		writeAiLater("plan.md", "v2\n");
+		writeAiLater("new.md", "something\nelse\nentirely\n");
+		fs.rmSync(path.join(aiDir, "old.md"));
+		await engine.syncMapping(mapping);
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	test("writes, creations and deletions are reverted, and the next sync sees the same changes", async () => {
+		expect(engine.getLastRun()?.entries).toHaveLength(3);
+
+		const result = await engine.undoLastRun();
+
+		expect(result?.refused).toEqual([]);
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("v1\n");
+		expect(readFile(vaultDir, "project-docs/old.md")).toBe("keep me\nand me\nand me too\n");
+		expect(fileExists(vaultDir, "project-docs/new.md")).toBe(false);
+		// The AI project was not written by the run and is left alone
+		expect(readFile(aiDir, "plan.md")).toBe("v2\n");
+		// The run before (the first sync) is now the last one
+		expect(engine.getLastRun()?.entries.map((e) => e.relativePath).sort()).toEqual(["old.md", "plan.md"]);
+
+		const again = await engine.syncMapping(mapping);
+		expect(again.conflicts).toEqual([]);
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("v2\n");
+		expect(fileExists(vaultDir, "project-docs/old.md")).toBe(false);
+	});
+
+	test("a file edited after the run is refused and left as it is", async () => {
+		writeFile(vaultDir, "project-docs/plan.md", "my edit\n");
+
+		const result = await engine.undoLastRun();
+
+		expect(result?.refused).toEqual([
+			expect.objectContaining({ file: "plan.md", success: false, error: "edited after the sync" }),
+		]);
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("my edit\n");
+		expect(fileExists(vaultDir, "project-docs/new.md")).toBe(false);
+	});
+
+	test("a replayed rename is moved back, with the content it had", async () => {
+		fs.rmSync(path.join(aiDir, "plan.md"));
+		writeAiLater("design.md", "v2\nmore\n");
+		await engine.syncMapping(mapping);
+		expect(fileExists(vaultDir, "project-docs/plan.md")).toBe(false);
+
+		const result = await engine.undoLastRun();
+
+		expect(result?.reverted).toEqual([
+			expect.objectContaining({ file: "plan.md", action: "rename", renamedFrom: "design.md" }),
+		]);
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("v2\n");
+		expect(fileExists(vaultDir, "project-docs/design.md")).toBe(false);
+	});
+});
+
+describe("Integration: undo last sync with backups off", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+
+	beforeEach(() => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	test("overwrites and deletions are reverted from the kept pre-images", async () => {
+		const vault = makeVaultMock(vaultDir);
+		const app = {
+			vault,
+			fileManager: {
+				...makeFileManagerMock(vaultDir),
+				trashFile: async (file: { path: string }) => fs.rmSync(path.join(vaultDir, file.path)),
+			},
+			_vaultBasePath: vaultDir,
+		} as unknown as import("obsidian").App;
+		const mapping = makeMapping(aiDir, "project-docs", { bidirectional: true, syncDirection: undefined });
+		const engine = new SyncEngine(
+			app,
+			makeSettings({ createBackups: false, syncDeletions: true, mappings: [mapping] }),
+			pluginDir
+		);
+		await engine.init();
+
+		writeFile(aiDir, "plan.md", "v1\n");
+		writeFile(aiDir, "old.md", "keep me\nand me\nand me too\n");
+		await engine.syncMapping(mapping);
+		writeFile(aiDir, "plan.md", "v2\n");
+		const later = new Date(Date.now() + 60_000);
+		fs.utimesSync(path.join(aiDir, "plan.md"), later, later);
+		fs.rmSync(path.join(aiDir, "old.md"));
+		await engine.syncMapping(mapping);
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("v2\n");
+		// Nothing is listed as a backup
+		expect(await engine.getFileHistory(mapping.id, "plan.md")).toEqual([]);
+
+		const result = await engine.undoLastRun();
+
+		expect(result?.refused).toEqual([]);
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("v1\n");
+		expect(readFile(vaultDir, "project-docs/old.md")).toBe("keep me\nand me\nand me too\n");
+	});
+});
+
+describe("Integration: runs of one mapping never overlap", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let engine: SyncEngine;
+	let mapping: ProjectMapping;
+
+	const changed = (relativePath: string): FileChangeEvent => ({
+		path: path.join(aiDir, relativePath),
+		relativePath,
+		type: "change",
+		mapping,
+		source: "ai",
+	});
+
+	/** Write in the AI project with an mtime after the last sync */
+	function writeAiLater(relPath: string, content: string): void {
+		writeFile(aiDir, relPath, content);
+		const later = new Date(Date.now() + 60_000);
+		fs.utimesSync(path.join(aiDir, relPath), later, later);
+	}
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		mapping = makeMapping(aiDir, "project-docs");
+		engine = new SyncEngine(app, makeSettings({ mappings: [mapping] }), makeTempDir());
+		await engine.init();
+
+		writeFile(aiDir, "a.md", "a1\n");
+		writeFile(aiDir, "b.md", "b1\n");
+		await engine.syncMapping(mapping);
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+	});
+
+	test("triggers during a run share exactly one follow-up run", async () => {
+		writeAiLater("a.md", "a2\n");
+
+		const first = engine.syncMapping(mapping);
+		const second = engine.syncMapping(mapping, { deferConflicts: true });
+		const third = engine.syncMapping(mapping);
+		const [r1, r2, r3] = await Promise.all([first, second, third]);
+
+		expect(r2).toBe(r3);
+		expect(r2.startTime.getTime()).toBeGreaterThanOrEqual(r1.endTime.getTime());
+		expect(r1.filesCopied).toBe(1);
+		expect(r2.filesCopied).toBe(0);
+		expect(readFile(vaultDir, "project-docs/a.md")).toBe("a2\n");
+	});
+
+	test("queued watcher paths are merged into one scoped run", async () => {
+		writeAiLater("a.md", "a2\n");
+		writeAiLater("b.md", "b2\n");
+
+		const running = engine.syncPaths(mapping, [changed("a.md")]);
+		const queuedA = engine.syncPaths(mapping, [changed("a.md")]);
+		const queuedB = engine.syncPaths(mapping, [changed("b.md")]);
+		const [r1, rA, rB] = await Promise.all([running, queuedA, queuedB]);
+
+		expect(rA).toBe(rB);
+		expect(r1.files.map((f) => f.file)).toEqual(["a.md"]);
+		// Both queued scopes; a.md is already in sync by then
+		expect(rA.files.map((f) => f.file).sort()).toEqual(["a.md", "b.md"]);
+		expect(rA.filesCopied).toBe(1);
+		expect(readFile(vaultDir, "project-docs/b.md")).toBe("b2\n");
+
+		// The lock is released: the next trigger runs right away
+		writeAiLater("a.md", "a3\n");
+		const next = await engine.syncPaths(mapping, [changed("a.md")]);
+		expect(next.filesCopied).toBe(1);
+	});
+
+	test("a forced trigger gets a run of its own instead of joining the queued one", async () => {
+		writeAiLater("a.md", "a2\n");
+
+		const first = engine.syncMapping(mapping);
+		const queued = engine.syncMapping(mapping);
+		const forced = engine.syncMapping(mapping, { force: true });
+		const folded = engine.syncMapping(mapping);
+		const [, rQueued, rForced, rFolded] = await Promise.all([first, queued, forced, folded]);
+
+		expect(rFolded).toBe(rQueued);
+		expect(rForced).not.toBe(rQueued);
+		expect(rForced.startTime.getTime()).toBeGreaterThanOrEqual(rQueued.endTime.getTime());
+	});
+
+	test("undo waits for the run in progress instead of reverting alongside it", async () => {
+		writeAiLater("a.md", "a2\n");
+
+		const running = engine.syncMapping(mapping);
+		const undo = engine.undoLastRun();
+
+		await expect(undo).rejects.toThrow("in the meantime");
+		expect((await running).filesCopied).toBe(1);
+		expect(readFile(vaultDir, "project-docs/a.md")).toBe("a2\n");
+		expect(fileExists(vaultDir, "project-docs/b.md")).toBe(true);
+	});
+});
+
+describe("Integration: the engine registers what it writes", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let engine: SyncEngine;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = { vault, _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		const mapping = makeMapping(aiDir, "project-docs");
+		engine = new SyncEngine(app, makeSettings({ mappings: [mapping] }), makeTempDir());
+		await engine.init();
+
+		writeFile(aiDir, "notes/plan.md", "v1\n");
+		await engine.syncMapping(mapping);
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+	});
+
+	test("the copy it wrote is its own write until someone edits it", () => {
+		const written = path.join(vaultDir, "project-docs/notes/plan.md");
+		const ownWrites = engine.getOwnWrites();
+
+		expect(ownWrites.isOwnWrite(written)).toBe(true);
+		// The source it read from was not written by the sync
+		expect(ownWrites.isOwnWrite(path.join(aiDir, "notes/plan.md"))).toBe(false);
+
+		writeFile(vaultDir, "project-docs/notes/plan.md", "edited\n");
+		expect(ownWrites.isOwnWrite(written)).toBe(false);
+	});
+});
+
+describe("Integration: watcher deletions are synced in one confirmed run", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let engine: SyncEngine;
+	let mapping: ProjectMapping;
+	let asked: string[][];
+	let answer: boolean;
+
+	const removed = (relativePath: string, type: "unlink" | "unlinkDir"): FileChangeEvent => ({
+		path: path.join(vaultDir, "project-docs", relativePath),
+		relativePath,
+		type,
+		mapping,
+		source: "obsidian",
+	});
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = {
+			vault,
+			fileManager: {
+				...makeFileManagerMock(vaultDir),
+				trashFile: async (file: { path: string }) =>
+					fs.rmSync(path.join(vaultDir, file.path), { recursive: true }),
+			},
+			_vaultBasePath: vaultDir,
+		} as unknown as import("obsidian").App;
+		mapping = makeMapping(aiDir, "project-docs", { bidirectional: true, syncDirection: undefined });
+		engine = new SyncEngine(
+			app,
+			makeSettings({ syncDeletions: true, confirmDeletions: true, mappings: [mapping] }),
+			makeTempDir()
+		);
+		asked = [];
+		answer = true;
+		engine.setDeletionConfirmCallback(async (deletions) => {
+			asked.push(deletions.map((d) => d.relativePath).sort());
+			return answer;
+		});
+		await engine.init();
+
+		writeFile(aiDir, "specs/api.md", "api\n");
+		writeFile(aiDir, "specs/deep/db.md", "db\n");
+		writeFile(aiDir, "guide.md", "guide\n");
+		await engine.syncMapping(mapping);
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+	});
+
+	test("a folder deleted in Obsidian is removed from the repo after one confirmation", async () => {
+		rmDir(path.join(vaultDir, "project-docs/specs"));
+
+		const result = await engine.syncPaths(mapping, [removed("specs", "unlinkDir")]);
+
+		expect(asked).toEqual([["specs/api.md", "specs/deep/db.md"]]);
+		expect(fs.existsSync(path.join(aiDir, "specs"))).toBe(false);
+		expect(readFile(aiDir, "guide.md")).toBe("guide\n");
+		expect(result.filesDeleted).toBe(2);
+		expect(result.files).toContainEqual(expect.objectContaining({ file: "specs/", action: "delete", success: true }));
+	});
+
+	test("declined deletions are copied back and the folder stays", async () => {
+		rmDir(path.join(vaultDir, "project-docs/specs"));
+		answer = false;
+
+		await engine.syncPaths(mapping, [removed("specs/api.md", "unlink"), removed("specs", "unlinkDir")]);
+
+		expect(asked).toHaveLength(1);
+		expect(readFile(aiDir, "specs/deep/db.md")).toBe("db\n");
+		expect(readFile(vaultDir, "project-docs/specs/api.md")).toBe("api\n");
+	});
+});
+
+describe("Integration: folders are synced as entries of their own", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let pluginDir: string;
+	let mapping: ProjectMapping;
+
+	const isDir = (dir: string, relPath: string) => fs.existsSync(path.join(dir, relPath));
+
+	async function makeEngine(overrides: Partial<EVCLocalSyncSettings> = {}): Promise<SyncEngine> {
+		const vault = makeVaultMock(vaultDir);
+		const app = {
+			vault,
+			fileManager: {
+				...makeFileManagerMock(vaultDir),
+				trashFile: async (file: { path: string }) =>
+					fs.rmSync(path.join(vaultDir, file.path), { recursive: true }),
+			},
+			_vaultBasePath: vaultDir,
+		} as unknown as import("obsidian").App;
+		const engine = new SyncEngine(app, makeSettings({ mappings: [mapping], ...overrides }), pluginDir);
+		await engine.init();
+		return engine;
+	}
+
+	beforeEach(() => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		pluginDir = makeTempDir();
+		mapping = makeMapping(aiDir, "project-docs", { bidirectional: true, syncDirection: undefined });
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+		rmDir(pluginDir);
+	});
+
+	test("an empty folder is created on the other side, one with only other file types is not", async () => {
+		const engine = await makeEngine();
+		fs.mkdirSync(path.join(vaultDir, "project-docs/drafts/later"), { recursive: true });
+		writeFile(aiDir, "src/index.ts", "code\n");
+
+		const result = await engine.syncMapping(mapping);
+
+		expect(isDir(aiDir, "drafts/later")).toBe(true);
+		expect(isDir(vaultDir, "project-docs/src")).toBe(false);
+		expect(result.files).toContainEqual(expect.objectContaining({ file: "drafts/", action: "copy", direction: "obs-to-ai" }));
+	});
+
+	test("a deleted folder is removed on the other side with deletion sync", async () => {
+		const engine = await makeEngine({ syncDeletions: true });
+		fs.mkdirSync(path.join(aiDir, "archive/2024"), { recursive: true });
+		writeFile(aiDir, "guide.md", "guide\n");
+		await engine.syncMapping(mapping);
+		expect(isDir(vaultDir, "project-docs/archive/2024")).toBe(true);
+
+		rmDir(path.join(vaultDir, "project-docs/archive"));
+		const result = await engine.syncMapping(mapping);
+
+		expect(isDir(aiDir, "archive")).toBe(false);
+		expect(result.files).toContainEqual(expect.objectContaining({ file: "archive/", action: "delete", success: true }));
+		// Without deletion sync the folder would have been restored instead
+		expect(isDir(vaultDir, "project-docs/archive")).toBe(false);
+	});
+
+	test("a renamed folder is renamed on the other side, empty subfolders included", async () => {
+		const engine = await makeEngine();
+		writeFile(aiDir, "specs/api.md", "the api\nin detail\nwith examples\n");
+		fs.mkdirSync(path.join(aiDir, "specs/drafts"), { recursive: true });
+		await engine.syncMapping(mapping);
+
+		fs.renameSync(path.join(aiDir, "specs"), path.join(aiDir, "design"));
+		const result = await engine.syncMapping(mapping);
+
+		expect(readFile(vaultDir, "project-docs/design/api.md")).toBe("the api\nin detail\nwith examples\n");
+		expect(isDir(vaultDir, "project-docs/design/drafts")).toBe(true);
+		expect(isDir(vaultDir, "project-docs/specs")).toBe(false);
+		expect(result.files).toContainEqual(
+			expect.objectContaining({ file: "design/", action: "rename", renamedFrom: "specs/", success: true })
+		);
+	});
+
+	test("with pruning, AI folders emptied by deletions go and are not recreated", async () => {
+		const engine = await makeEngine({ syncDeletions: true, pruneEmptyAiFolders: true });
+		writeFile(aiDir, "notes/deep/plan.md", "plan\n");
+		await engine.syncMapping(mapping);
+
+		fs.rmSync(path.join(vaultDir, "project-docs/notes/deep/plan.md"));
+		await engine.syncMapping(mapping);
+
+		expect(isDir(aiDir, "notes")).toBe(false);
+		expect(isDir(vaultDir, "project-docs/notes/deep")).toBe(true);
+
+		await engine.syncMapping(mapping);
+		expect(isDir(aiDir, "notes")).toBe(false);
+		expect(isDir(vaultDir, "project-docs/notes/deep")).toBe(true);
+	});
+
+	test("a folder created while the watcher runs is synced by a full run", async () => {
+		const engine = await makeEngine();
+		writeFile(aiDir, "guide.md", "guide\n");
+		await engine.syncMapping(mapping);
+
+		fs.mkdirSync(path.join(vaultDir, "project-docs/drafts"));
+		const result = await engine.syncPaths(mapping, [
+			{ path: path.join(vaultDir, "project-docs/drafts"), relativePath: "drafts", type: "addDir", mapping, source: "obsidian" },
+		]);
+
+		expect(isDir(aiDir, "drafts")).toBe(true);
+		expect(result.files).toContainEqual(expect.objectContaining({ file: "drafts/", action: "copy", direction: "obs-to-ai" }));
+	});
+
+	test("a scoped run that prunes an emptied AI folder drops it from the recorded folders", async () => {
+		const engine = await makeEngine({ syncDeletions: true, pruneEmptyAiFolders: true });
+		writeFile(aiDir, "notes/plan.md", "plan\n");
+		writeFile(aiDir, "guide.md", "guide\n");
+		await engine.syncMapping(mapping);
+
+		fs.rmSync(path.join(vaultDir, "project-docs/notes/plan.md"));
+		await engine.syncPaths(mapping, [
+			{ path: path.join(vaultDir, "project-docs/notes/plan.md"), relativePath: "notes/plan.md", type: "unlink", mapping, source: "obsidian" },
+		]);
+
+		expect(isDir(aiDir, "notes")).toBe(false);
+		const state = JSON.parse(fs.readFileSync(path.join(pluginDir, "sync-state.json"), "utf-8"));
+		expect(state.mappings[mapping.id].aiDirs).toEqual([]);
+		expect(state.mappings[mapping.id].obsDirs).toEqual(["notes"]);
+	});
+});
+
+describe("Integration: files sync deletes go to the recycle bin", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let engine: SyncEngine;
+	let mapping: ProjectMapping;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		const vault = makeVaultMock(vaultDir);
+		const app = {
+			vault,
+			fileManager: {
+				...makeFileManagerMock(vaultDir),
+				trashFile: async (file: { path: string }) =>
+					fs.rmSync(path.join(vaultDir, file.path), { recursive: true }),
+			},
+			_vaultBasePath: vaultDir,
+		} as unknown as import("obsidian").App;
+		mapping = makeMapping(aiDir, "project-docs", { bidirectional: true, syncDirection: undefined });
+		// Backups off: the bin must not depend on them
+		engine = new SyncEngine(app, makeSettings({ syncDeletions: true, mappings: [mapping] }), makeTempDir());
+		await engine.init();
+
+		writeFile(aiDir, "specs/api.md", "# API\n\nEndpoints and their payloads.\n");
+		writeFile(aiDir, "guide.md", "# Guide\n\nHow to get started.\n");
+		await engine.syncMapping(mapping);
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+	});
+
+	test("a deletion synced from Obsidian can be restored in the repo", async () => {
+		fs.unlinkSync(path.join(vaultDir, "project-docs/specs/api.md"));
+		await engine.syncMapping(mapping);
+		expect(fileExists(aiDir, "specs/api.md")).toBe(false);
+
+		const deleted = await engine.getRecentlyDeleted();
+		expect(deleted).toHaveLength(1);
+		expect(deleted[0]).toMatchObject({
+			mappingId: mapping.id,
+			mappingName: mapping.name,
+			relativePath: "specs/api.md",
+			side: "ai",
+		});
+
+		await engine.restoreDeleted(deleted[0]);
+		expect(readFile(aiDir, "specs/api.md")).toBe("# API\n\nEndpoints and their payloads.\n");
+		expect(await engine.getRecentlyDeleted()).toEqual([]);
+
+		// The next sync brings it back to the vault too
+		await engine.syncMapping(mapping);
+		expect(readFile(vaultDir, "project-docs/specs/api.md")).toBe("# API\n\nEndpoints and their payloads.\n");
+	});
+
+	test("a restore never replaces a file that took the deleted one's place", async () => {
+		fs.unlinkSync(path.join(aiDir, "guide.md"));
+		await engine.syncMapping(mapping);
+		const [entry] = await engine.getRecentlyDeleted();
+		expect(entry).toMatchObject({ relativePath: "guide.md", side: "obsidian" });
+
+		writeFile(vaultDir, "project-docs/guide.md", "# A new guide\n");
+		await expect(engine.restoreDeleted(entry)).rejects.toThrow("already exists");
+		expect(readFile(vaultDir, "project-docs/guide.md")).toBe("# A new guide\n");
+
+		await engine.purgeDeleted(entry);
+		expect(await engine.getRecentlyDeleted()).toEqual([]);
+	});
+});
+
+describe("Integration: a run stops at the mapping's safety limit", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let app: import("obsidian").App;
+
+	const makeEngine = async (mapping: ProjectMapping, overrides: Partial<EVCLocalSyncSettings> = {}) => {
+		const engine = new SyncEngine(app, makeSettings({ mappings: [mapping], ...overrides }), makeTempDir());
+		await engine.init();
+		return engine;
+	};
+
+	beforeEach(() => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		app = {
+			vault: makeVaultMock(vaultDir),
+			fileManager: {
+				...makeFileManagerMock(vaultDir),
+				trashFile: async (file: { path: string }) =>
+					fs.rmSync(path.join(vaultDir, file.path), { recursive: true }),
+			},
+			_vaultBasePath: vaultDir,
+		} as unknown as import("obsidian").App;
+		for (let i = 1; i <= 12; i++) {
+			writeFile(aiDir, `notes/note-${i}.md`, `# Note ${i}\n\nContent of note number ${i}.\n`);
+		}
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+	});
+
+	test("mass deletions need a forced run", async () => {
+		const mapping = makeMapping(aiDir, "project-docs");
+		const engine = await makeEngine(mapping, { syncDeletions: true });
+		await engine.syncMapping(mapping);
+		for (let i = 2; i <= 12; i++) {
+			fs.unlinkSync(path.join(aiDir, `notes/note-${i}.md`));
+		}
+
+		const stopped = await engine.syncMapping(mapping);
+
+		expect(stopped.success).toBe(false);
+		expect(stopped.safetyStop).toEqual({ deletions: 11, overwrites: 0, trackedFiles: 12, emptyTree: false });
+		expect(stopped.error).toContain("safety limit");
+		expect(fs.readdirSync(path.join(vaultDir, "project-docs/notes"))).toHaveLength(12);
+
+		const forced = await engine.syncMapping(mapping, { force: true });
+
+		expect(forced.success).toBe(true);
+		expect(forced.filesDeleted).toBe(11);
+		expect(fs.readdirSync(path.join(vaultDir, "project-docs/notes"))).toEqual(["note-1.md"]);
+	});
+
+	test("an AI project folder that is suddenly empty stops the run, deletions on or off, limits or none", async () => {
+		const mapping = makeMapping(aiDir, "project-docs", {
+			bidirectional: true, syncDirection: undefined, maxChangedFiles: 0, maxChangedPercent: 0,
+		});
+		const engine = await makeEngine(mapping);
+		await engine.syncMapping(mapping);
+		rmDir(path.join(aiDir, "notes"));
+
+		const stopped = await engine.syncMapping(mapping);
+
+		expect(stopped.safetyStop).toEqual({ deletions: 0, overwrites: 0, trackedFiles: 12, emptyTree: true });
+		expect(stopped.error).toContain("is empty");
+		// Nothing was copied back into the empty folder
+		expect(fs.readdirSync(aiDir)).toEqual([]);
+	});
+
+	test("edits the mapping's direction never syncs are not counted", async () => {
+		const mapping = makeMapping(aiDir, "project-docs");
+		const engine = await makeEngine(mapping);
+		await engine.syncMapping(mapping);
+		for (let i = 1; i <= 12; i++) {
+			writeFile(vaultDir, `project-docs/notes/note-${i}.md`, `# Note ${i}\n\nEdited in the vault.\n`);
+		}
+
+		const result = await engine.syncMapping(mapping);
+
+		expect(result.safetyStop).toBeUndefined();
+		expect(result.success).toBe(true);
+		expect(readFile(vaultDir, "project-docs/notes/note-1.md")).toBe("# Note 1\n\nEdited in the vault.\n");
+	});
+
+	test("conflicts left open are not counted", async () => {
+		const mapping = makeMapping(aiDir, "project-docs", {
+			bidirectional: true, syncDirection: undefined, conflictResolutionOverride: "always-ask",
+		});
+		const engine = await makeEngine(mapping);
+		await engine.syncMapping(mapping);
+		for (let i = 1; i <= 12; i++) {
+			writeFile(aiDir, `notes/note-${i}.md`, `# Note ${i}\n\nEdited in the AI project.\n`);
+			writeFile(vaultDir, `project-docs/notes/note-${i}.md`, `# Note ${i}\n\nEdited in the vault.\n`);
+		}
+
+		const result = await engine.syncMapping(mapping, { deferConflicts: true });
+
+		expect(result.safetyStop).toBeUndefined();
+		expect(readFile(vaultDir, "project-docs/notes/note-1.md")).toBe("# Note 1\n\nEdited in the vault.\n");
+	});
+
+	test("the mapping sets its own limit; 0 turns it off", async () => {
+		const edit = () => {
+			for (let i = 1; i <= 3; i++) {
+				writeFile(aiDir, `notes/note-${i}.md`, `# Note ${i}\n\nRewritten on another branch.\n`);
+			}
+		};
+		const limited = makeMapping(aiDir, "project-docs", { maxChangedFiles: 2 });
+		const engine = await makeEngine(limited);
+		await engine.syncMapping(limited);
+		edit();
+
+		const stopped = await engine.syncMapping(limited);
+		expect(stopped.safetyStop).toMatchObject({ deletions: 0, overwrites: 3 });
+		expect(readFile(vaultDir, "project-docs/notes/note-1.md")).toBe("# Note 1\n\nContent of note number 1.\n");
+
+		const unlimited = { ...limited, maxChangedFiles: 0, maxChangedPercent: 0 };
+		const result = await engine.syncMapping(unlimited);
+		expect(result.success).toBe(true);
+		expect(readFile(vaultDir, "project-docs/notes/note-1.md")).toBe("# Note 1\n\nRewritten on another branch.\n");
+	});
+});
+
+describe("Integration: sync waits for git operations in the AI project", () => {
+	let aiDir: string;
+	let vaultDir: string;
+	let engine: SyncEngine;
+	let mapping: ProjectMapping;
+
+	beforeEach(async () => {
+		aiDir = makeTempDir();
+		vaultDir = makeTempDir();
+		const app = { vault: makeVaultMock(vaultDir), _vaultBasePath: vaultDir } as unknown as import("obsidian").App;
+		mapping = makeMapping(aiDir, "project-docs");
+		engine = new SyncEngine(app, makeSettings({ mappings: [mapping] }), makeTempDir());
+		await engine.init();
+
+		fs.mkdirSync(path.join(aiDir, ".git"));
+		fs.writeFileSync(path.join(aiDir, ".git", "HEAD"), "ref: refs/heads/main\n");
+		writeFile(aiDir, "plan.md", "# Plan\n");
+	});
+
+	afterEach(() => {
+		rmDir(aiDir);
+		rmDir(vaultDir);
+	});
+
+	test("a merge in progress defers the run until it is committed", async () => {
+		fs.writeFileSync(path.join(aiDir, ".git", "MERGE_HEAD"), "0123456789abcdef\n");
+
+		const deferred = await engine.syncMapping(mapping);
+
+		expect(deferred).toMatchObject({ success: true, gitOperation: "merge", gitBranch: "main", filesCopied: 0 });
+		expect(engine.getGitOperation(mapping)).toBe("merge");
+		expect(fileExists(vaultDir, "project-docs/plan.md")).toBe(false);
+
+		fs.unlinkSync(path.join(aiDir, ".git", "MERGE_HEAD"));
+		expect(engine.getGitOperation(mapping)).toBeNull();
+
+		const result = await engine.syncMapping(mapping);
+
+		expect(result.gitOperation).toBeUndefined();
+		expect(result.gitBranch).toBe("main");
+		expect(readFile(vaultDir, "project-docs/plan.md")).toBe("# Plan\n");
+	});
+});
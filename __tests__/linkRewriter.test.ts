@@ -0,0 +1,85 @@
+/**
+ * Unit tests: wikilink ↔ relative Markdown link rewriting.
+ *
+ * Resolution is injected, so these cases pin down the text transform alone:
+ * relative hrefs, embeds, headings and aliases, what is left untouched, and
+ * what gets reported.
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { markdownToWikilinks, wikilinksToMarkdown, type WikilinkTarget } from "../src/link-rewriter";
+
+const docs = new Set(["Other Note.md", "guides/setup.md", "img/diagram.png", "index.md"]);
+
+function resolve(linkpath: string): WikilinkTarget {
+	for (const candidate of [`${linkpath}.md`, linkpath]) {
+		const hit = [...docs].find((p) => p === candidate || p.endsWith(`/${candidate}`));
+		if (hit) return { relativePath: hit };
+	}
+	return { unresolved: "no matching file in the vault" };
+}
+
+function toLinktext(target: string): string | undefined {
+	if (!docs.has(target)) return undefined;
+	return target.split("/").pop()!.replace(/\.md$/, "");
+}
+
+describe("wikilinksToMarkdown", () => {
+	test("links become paths relative to the source note", () => {
+		const { content } = wikilinksToMarkdown("See [[Other Note]] and [[setup]].", "guides/intro.md", resolve);
+		expect(content).toBe("See [Other Note](../Other%20Note.md) and [setup](setup.md).");
+	});
+
+	test("headings, aliases and embeds", () => {
+		const { content } = wikilinksToMarkdown(
+			"[[setup#Install steps|install]] [[#Local]] ![[diagram.png]]",
+			"index.md",
+			resolve
+		);
+		expect(content).toBe(
+			"[install](guides/setup.md#Install%20steps) [Local](#Local) ![diagram.png](img/diagram.png)"
+		);
+	});
+
+	test("code and frontmatter are left alone", () => {
+		const input = ["---", "related: \"[[setup]]\"", "---", "```", "[[setup]]", "```", "`[[setup]]` [[setup]]"].join("\n");
+		const { content } = wikilinksToMarkdown(input, "index.md", resolve);
+		expect(content.split("\n").slice(0, 6)).toEqual(input.split("\n").slice(0, 6));
+		expect(content.split("\n")[6]).toBe("`[[setup]]` [setup](guides/setup.md)");
+	});
+
+	test("an unresolved link is kept and reported", () => {
+		const result = wikilinksToMarkdown("[[Missing]]", "index.md", resolve);
+		expect(result.content).toBe("[[Missing]]");
+		expect(result.unresolved).toEqual([{ link: "[[Missing]]", reason: "no matching file in the vault" }]);
+	});
+});
+
+describe("markdownToWikilinks", () => {
+	test("round-trips what wikilinksToMarkdown produced", () => {
+		const original = "See [[Other Note]], [[setup#Install steps|install]] and ![[diagram.png]].";
+		const markdown = wikilinksToMarkdown(original, "index.md", resolve).content;
+		expect(markdownToWikilinks(markdown, "index.md", toLinktext).content).toBe(original);
+	});
+
+	test("a custom label becomes an alias", () => {
+		const { content } = markdownToWikilinks("[the setup guide](setup.md)", "guides/a.md", toLinktext);
+		expect(content).toBe("[[setup|the setup guide]]");
+	});
+
+	test("external and absolute links are not touched", () => {
+		const input = "[site](https://example.com/a.md) [mail](mailto:a@b.c) [root](/abs.md)";
+		const result = markdownToWikilinks(input, "index.md", toLinktext);
+		expect(result.content).toBe(input);
+		expect(result.unresolved).toEqual([]);
+	});
+
+	test("links leaving the docs tree or to missing files are kept and reported", () => {
+		const result = markdownToWikilinks("[up](../README.md) [gone](gone.md)", "index.md", toLinktext);
+		expect(result.content).toBe("[up](../README.md) [gone](gone.md)");
+		expect(result.unresolved.map((u) => u.reason)).toEqual([
+			"points outside the synced folder",
+			"target does not exist",
+		]);
+	});
+});
@@ -49,7 +49,7 @@ export function makeVaultMock(vaultBasePath: string) {
 	const path = require("path") as typeof import("path");
 	const nodePath = path;
 
-	return {
+	const vault = {
 		configDir: ".obsidian",
 
 		getRoot(): TFolder {
@@ -81,7 +81,7 @@ export function makeVaultMock(vaultBasePath: string) {
 					const childAbs = path.join(abs, entry);
 					const childStat = fs.statSync(childAbs);
 					if (childStat.isDirectory()) {
-						folder.children.push(new TFolder(childRel));
+						folder.children.push(vault.getAbstractFileByPath(childRel) as TFolder);
 					} else {
 						const f = new TFile(childRel);
 						f.stat.mtime = childStat.mtimeMs;
@@ -116,6 +116,19 @@ export function makeVaultMock(vaultBasePath: string) {
 			fs.writeFileSync(abs, content, "utf-8");
 		},
 
+		async createBinary(vaultRelPath: string, data: ArrayBuffer): Promise<TFile> {
+			const abs = path.join(vaultBasePath, vaultRelPath);
+			fs.mkdirSync(path.dirname(abs), { recursive: true });
+			fs.writeFileSync(abs, Buffer.from(data));
+			return new TFile(vaultRelPath);
+		},
+
+		async modifyBinary(_file: TFile, data: ArrayBuffer): Promise<void> {
+			const abs = path.join(vaultBasePath, _file.path);
+			fs.mkdirSync(path.dirname(abs), { recursive: true });
+			fs.writeFileSync(abs, Buffer.from(data));
+		},
+
 		async read(file: TFile): Promise<string> {
 			const abs = path.join(vaultBasePath, file.path);
 			return fs.readFileSync(abs, "utf-8");
@@ -151,4 +164,69 @@ export function makeVaultMock(vaultBasePath: string) {
 			},
 		},
 	};
+	return vault;
+}
+
+export function makeFileManagerMock(vaultBasePath: string) {
+	const fs = require("fs") as typeof import("fs");
+	const path = require("path") as typeof import("path");
+
+	return {
+		async renameFile(file: TAbstractFile, newPath: string): Promise<void> {
+			const dest = path.join(vaultBasePath, newPath);
+			fs.mkdirSync(path.dirname(dest), { recursive: true });
+			fs.renameSync(path.join(vaultBasePath, file.path), dest);
+		},
+	};
+}
+
+/**
+ * Link resolution as Obsidian does it, over the files on disk: an exact vault
+ * path (with or without `.md`) wins, else a file with that name anywhere in the
+ * vault. Link text is the shortest unambiguous form: the basename when unique.
+ */
+export function makeMetadataCacheMock(vaultBasePath: string) {
+	const fs = require("fs") as typeof import("fs");
+	const path = require("path") as typeof import("path");
+
+	const listFiles = (rel = ""): string[] => {
+		const abs = path.join(vaultBasePath, rel);
+		if (!fs.existsSync(abs)) return [];
+		const out: string[] = [];
+		for (const entry of fs.readdirSync(abs)) {
+			if (entry === ".obsidian") continue;
+			const childRel = rel ? `${rel}/${entry}` : entry;
+			if (fs.statSync(path.join(vaultBasePath, childRel)).isDirectory()) {
+				out.push(...listFiles(childRel));
+			} else {
+				out.push(childRel);
+			}
+		}
+		return out;
+	};
+
+	const byName = (name: string): string[] =>
+		listFiles().filter((p) => p === name || p.endsWith(`/${name}`));
+
+	return {
+		getFirstLinkpathDest(linkpath: string, _sourcePath: string): TFile | null {
+			const candidates = /\.[^/.]+$/.test(linkpath) ? [linkpath] : [`${linkpath}.md`, linkpath];
+			for (const candidate of candidates) {
+				const abs = path.join(vaultBasePath, candidate);
+				if (fs.existsSync(abs) && fs.statSync(abs).isFile()) {
+					return new TFile(candidate);
+				}
+			}
+			for (const candidate of candidates) {
+				const [match] = byName(candidate);
+				if (match) return new TFile(match);
+			}
+			return null;
+		},
+
+		fileToLinktext(file: TFile, _sourcePath: string, omitMdExtension = true): string {
+			const strip = (p: string) => (omitMdExtension ? p.replace(/\.md$/, "") : p);
+			return byName(file.name).length === 1 ? strip(file.name) : strip(file.path);
+		},
+	};
 }
@@ -0,0 +1,58 @@
+/**
+ * Unit tests: the sync's own writes, as the file watcher sees them.
+ *
+ * A file is the sync's own write only while it has exactly the content the
+ * sync left (or is still gone), and only for a while: a user edit right after
+ * a sync must still reach the other side.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { OwnWriteRegistry } from "../src/own-writes";
+
+let dir: string;
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "evc-own-writes-test-"));
+});
+
+afterEach(() => {
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("OwnWriteRegistry", () => {
+	test("matches a file only while it has the content that was written", () => {
+		const file = path.join(dir, "plan.md");
+		const registry = new OwnWriteRegistry();
+		fs.writeFileSync(file, "synced");
+		registry.register(file);
+
+		expect(registry.isOwnWrite(file)).toBe(true);
+		expect(registry.isOwnWrite(path.join(dir, "other.md"))).toBe(false);
+
+		fs.writeFileSync(file, "user edit");
+		expect(registry.isOwnWrite(file)).toBe(false);
+	});
+
+	test("a removal matches while the file stays gone", () => {
+		const file = path.join(dir, "old.md");
+		const registry = new OwnWriteRegistry();
+		registry.register(file);
+
+		expect(registry.isOwnWrite(file)).toBe(true);
+		fs.writeFileSync(file, "created again");
+		expect(registry.isOwnWrite(file)).toBe(false);
+	});
+
+	test("writes are forgotten after a minute", () => {
+		const file = path.join(dir, "plan.md");
+		const registry = new OwnWriteRegistry();
+		fs.writeFileSync(file, "synced");
+		registry.register(file, 0);
+
+		expect(registry.isOwnWrite(file, 30_000)).toBe(true);
+		expect(registry.isOwnWrite(file, 61_000)).toBe(false);
+	});
+});
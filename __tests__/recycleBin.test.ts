@@ -0,0 +1,105 @@
+/**
+ * Unit tests: the recycle bin for files sync deletes.
+ *
+ * Entries list most recently deleted first; removed entries and entries past
+ * the retention period are dropped on save() along with their bodies, and a
+ * fresh bin over the same folder sees what was kept. Operations run one at a
+ * time, in call order.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RecycleBin } from "../src/recycle-bin";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let root: string;
+
+beforeEach(() => {
+	root = fs.mkdtempSync(path.join(os.tmpdir(), "evc-recycle-test-"));
+});
+
+afterEach(() => {
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
+const meta = (relativePath: string) => ({
+	mappingId: "m1",
+	mappingName: "Project",
+	relativePath,
+	side: "ai" as const,
+});
+
+describe("RecycleBin", () => {
+	test("keeps deleted files with their mapping, path and time", async () => {
+		const bin = new RecycleBin(root);
+		await bin.add(meta("old.md"), Buffer.from("old"), 1000);
+		const added = await bin.add(meta("new.md"), Buffer.from("new"), 2000);
+		await bin.save(30, 2000);
+
+		const reopened = new RecycleBin(root);
+		const entries = await reopened.list();
+
+		expect(entries.map((e) => e.relativePath)).toEqual(["new.md", "old.md"]);
+		expect(entries[0]).toEqual(added);
+		expect((await reopened.read(entries[0]))?.toString()).toBe("new");
+	});
+
+	test("a removed entry is gone after save, and so are its bytes", async () => {
+		const bin = new RecycleBin(root);
+		const kept = await bin.add(meta("kept.md"), Buffer.from("kept"));
+		const purged = await bin.add(meta("purged.md"), Buffer.from("purged"));
+
+		expect(await bin.remove(purged.id)).toBe(true);
+		expect(await bin.remove(purged.id)).toBe(false);
+		await bin.save(30);
+
+		expect((await new RecycleBin(root).list()).map((e) => e.id)).toEqual([kept.id]);
+		expect(await bin.read(purged)).toBeUndefined();
+		expect((await bin.read(kept))?.toString()).toBe("kept");
+	});
+
+	test("entries past the retention period are dropped; 0 keeps them", async () => {
+		const now = 100 * DAY;
+		const bin = new RecycleBin(root);
+		await bin.add(meta("ancient.md"), Buffer.from("ancient"), now - 40 * DAY);
+		await bin.add(meta("recent.md"), Buffer.from("recent"), now - 2 * DAY);
+
+		await bin.save(0, now);
+		expect(await bin.list()).toHaveLength(2);
+
+		await bin.save(30, now);
+		expect((await bin.list()).map((e) => e.relativePath)).toEqual(["recent.md"]);
+	});
+
+	test("clear() empties the bin", async () => {
+		const bin = new RecycleBin(root);
+		await bin.add(meta("a.md"), Buffer.from("a"));
+		await bin.save(30);
+
+		expect(await bin.clear()).toBe(1);
+		expect(await new RecycleBin(root).list()).toEqual([]);
+	});
+
+	test("operations run in the order they were called, not side by side", async () => {
+		const bin = new RecycleBin(root);
+		const old = await bin.add(meta("old.md"), Buffer.from("old"));
+		await bin.save(30);
+
+		// The save collects unused bodies while the add stores a new one
+		await bin.remove(old.id);
+		const saving = bin.save(30);
+		const adding = bin.add(meta("new.md"), Buffer.from("new"));
+		await saving;
+		expect((await bin.read(await adding))?.toString()).toBe("new");
+
+		// A clear called after an add also clears what it added
+		const added = bin.add(meta("late.md"), Buffer.from("late"));
+		const cleared = bin.clear();
+		await added;
+		expect(await cleared).toBe(2);
+		expect(await bin.list()).toEqual([]);
+	});
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests: the two-way diff behind the conflict modal.
+ *
+ * Rows decide what the user sees (context, collapsed regions, changes),
+ * word segments what gets highlighted inside a changed line, and hunk
+ * choices what "Merge manually" writes to both sides.
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { applyHunkChoices, buildTextDiff, diffWords } from "../src/text-diff";
+
+const lines = (count: number, prefix = "line") =>
+	Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe("buildTextDiff", () => {
+	test("unchanged regions beyond the context are collapsed", () => {
+		const a = [...lines(10), "old", ...lines(10, "tail"), ""].join("\n");
+		const b = a.replace("old", "new");
+
+		const { hunks, rows } = buildTextDiff(a, b, 2);
+
+		expect(hunks).toHaveLength(1);
+		expect(rows.map((r) => r.type)).toEqual([
+			"collapsed", "context", "context", "change", "context", "context", "collapsed",
+		]);
+		expect(rows[0]).toMatchObject({ type: "collapsed", aLine: 0, lines: lines(8) });
+		expect(rows[3]).toMatchObject({ type: "change", aLine: 10, bLine: 10, removed: ["old"], added: ["new"] });
+		// The empty string after the final newline is not shown
+		expect(rows[6]).toMatchObject({ type: "collapsed", lines: lines(10, "tail").slice(2) });
+	});
+
+	test("a single hidden line is shown instead of collapsed", () => {
+		const a = ["a", "b", "c", "d", "x", "e"].join("\n");
+		const b = ["a", "b", "c", "d", "y", "e"].join("\n");
+
+		const { rows } = buildTextDiff(a, b, 3);
+
+		expect(rows.filter((r) => r.type === "collapsed")).toEqual([]);
+	});
+
+	test("identical texts have no hunks", () => {
+		expect(buildTextDiff("same\n", "same\n").hunks).toEqual([]);
+	});
+});
+
+describe("diffWords", () => {
+	test("only the changed words are marked", () => {
+		const { removed, added } = diffWords("Ship it by Friday.", "Ship it by Monday.");
+
+		expect(removed).toEqual([
+			{ text: "Ship it by ", changed: false },
+			{ text: "Friday", changed: true },
+			{ text: ".", changed: false },
+		]);
+		expect(added.filter((s) => s.changed).map((s) => s.text)).toEqual(["Monday"]);
+	});
+});
+
+describe("applyHunkChoices", () => {
+	const ai = ["# Plan", "Ship Friday.", "", "Risks: none.", ""].join("\n");
+	const obs = ["# Plan", "Ship Monday.", "", "Risks: vendor lock-in.", ""].join("\n");
+
+	test("each hunk comes from the chosen side", () => {
+		const { hunks } = buildTextDiff(ai, obs);
+
+		expect(applyHunkChoices(ai, obs, hunks, ["obsidian", "ai"])).toBe(
+			["# Plan", "Ship Monday.", "", "Risks: none.", ""].join("\n")
+		);
+	});
+
+	test("both keeps the AI lines first, and a missing choice keeps the AI version", () => {
+		const { hunks } = buildTextDiff(ai, obs);
+
+		expect(applyHunkChoices(ai, obs, hunks, ["both"])).toBe(
+			["# Plan", "Ship Friday.", "Ship Monday.", "", "Risks: none.", ""].join("\n")
+		);
+	});
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests: line-based three-way merge.
+ *
+ * The merge is a pure function over strings, so nothing is mocked. The cases
+ * that matter are the ones "newer-wins" gets wrong: two people editing
+ * different parts of the same document must BOTH keep their edit, and two
+ * people editing the same lines must see both versions instead of losing one.
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { diffLines, mergeThreeWay, splitLines } from "../src/three-way-merge";
+
+const BASE = ["# Spec", "", "## Goals", "Ship it.", "", "## Risks", "None.", ""].join("\n");
+
+describe("diffLines", () => {
+	test("identical input produces no hunks", () => {
+		expect(diffLines(["a", "b"], ["a", "b"])).toEqual([]);
+	});
+
+	test("a replaced middle line is one hunk covering only that line", () => {
+		expect(diffLines(["a", "b", "c"], ["a", "x", "c"])).toEqual([
+			{ aStart: 1, aEnd: 2, bStart: 1, bEnd: 2 },
+		]);
+	});
+
+	test("pure insertion has an empty source range", () => {
+		expect(diffLines(["a", "c"], ["a", "b", "c"])).toEqual([
+			{ aStart: 1, aEnd: 1, bStart: 1, bEnd: 2 },
+		]);
+	});
+
+	test("splitLines round-trips a trailing newline", () => {
+		expect(splitLines("a\nb\n").join("\n")).toBe("a\nb\n");
+	});
+});
+
+describe("mergeThreeWay", () => {
+	test("edits to different sections from each side are both kept", () => {
+		const ai = BASE.replace("Ship it.", "Ship it by Friday.");
+		const obs = BASE.replace("None.", "Vendor lock-in.");
+
+		const result = mergeThreeWay(BASE, ai, obs);
+
+		expect(result.clean).toBe(true);
+		expect(result.conflicts).toBe(0);
+		expect(result.content).toContain("Ship it by Friday.");
+		expect(result.content).toContain("Vendor lock-in.");
+	});
+
+	test("a one-sided edit is taken as-is", () => {
+		const ai = BASE + "Appendix\n";
+		const result = mergeThreeWay(BASE, ai, BASE);
+		expect(result).toEqual({ clean: true, content: ai, conflicts: 0 });
+	});
+
+	test("the same change made on both sides is not a conflict", () => {
+		const both = BASE.replace("None.", "Scope creep.");
+		const result = mergeThreeWay(BASE, both, both);
+		expect(result.clean).toBe(true);
+		expect(result.content).toBe(both);
+	});
+
+	test("identical changes to the same region on top of other edits merge cleanly", () => {
+		const ai = BASE.replace("None.", "Scope creep.").replace("# Spec", "# Spec v2");
+		const obs = BASE.replace("None.", "Scope creep.");
+		const result = mergeThreeWay(BASE, ai, obs);
+		expect(result.clean).toBe(true);
+		expect(result.content).toBe(ai);
+	});
+
+	test("overlapping edits produce git-style markers with both versions", () => {
+		const ai = BASE.replace("Ship it.", "Ship it in Q3.");
+		const obs = BASE.replace("Ship it.", "Ship it in Q4.");
+
+		const result = mergeThreeWay(BASE, ai, obs);
+
+		expect(result.clean).toBe(false);
+		expect(result.conflicts).toBe(1);
+		expect(result.content).toContain(
+			["<<<<<<< AI project", "Ship it in Q3.", "=======", "Ship it in Q4.", ">>>>>>> Obsidian"].join("\n")
+		);
+		// Untouched regions survive around the conflict block
+		expect(result.content.startsWith("# Spec\n\n## Goals\n<<<<<<<")).toBe(true);
+		expect(result.content.endsWith("## Risks\nNone.\n")).toBe(true);
+	});
+
+	test("a deletion on one side and an edit elsewhere on the other both apply", () => {
+		const ai = BASE.replace("## Risks\nNone.\n", "");
+		const obs = BASE.replace("# Spec", "# Product spec");
+
+		const result = mergeThreeWay(BASE, ai, obs);
+
+		expect(result.clean).toBe(true);
+		expect(result.content).toBe("# Product spec\n\n## Goals\nShip it.\n\n");
+	});
+
+	test("edits to adjacent lines are treated as overlapping", () => {
+		const base = "a\nb\nc\n";
+		const result = mergeThreeWay(base, "a\nB\nc\n", "a\nb\nC\n");
+		expect(result.clean).toBe(false);
+	});
+
+	test("without an ancestor, every difference is marked — no side is silently chosen", () => {
+		const result = mergeThreeWay(undefined, "a\nx\nc\n", "a\ny\nc\n");
+		expect(result.clean).toBe(false);
+		expect(result.conflicts).toBe(1);
+		expect(result.content).toBe("a\n<<<<<<< AI project\nx\n=======\ny\n>>>>>>> Obsidian\nc\n");
+	});
+
+	test("without an ancestor, identical versions are still clean", () => {
+		expect(mergeThreeWay(undefined, "same\n", "same\n").clean).toBe(true);
+	});
+});
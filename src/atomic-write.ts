@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as fsPromises from "fs/promises";
+import * as path from "path";
+import * as crypto from "crypto";
+
+/**
+ * Crash-safe file writes.
+ *
+ * The content goes to a temp file next to the target, is flushed to disk and
+ * then replaces the target with a single rename. A crash or sleep mid-write
+ * leaves either the old file or the new one, never a mix; at worst a stray
+ * temp file, whose name (ending in TEMP_SUFFIX) no file type matches.
+ *
+ * fsync is best effort: some file systems, and directories on Windows, do
+ * not support it. The rename is atomic either way.
+ */
+
+/** Ending of the temp files written next to their targets */
+export const TEMP_SUFFIX = ".evc-tmp";
+
+/**
+ * Write a file atomically (synchronous, for the AI project side of a sync).
+ * A symlink is written through, not replaced; an existing file keeps its mode.
+ */
+export function writeFileAtomicSync(targetPath: string, content: Buffer | string): void {
+  const target = resolveTarget(targetPath);
+  const tempPath = getTempPath(target);
+
+  try {
+    const fd = fs.openSync(tempPath, "w", getMode(target));
+    try {
+      fs.writeFileSync(fd, content);
+      try {
+        fs.fsyncSync(fd);
+      } catch {
+        // Not supported here
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, target);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+
+  syncDirectory(path.dirname(target));
+}
+
+/**
+ * Write a file atomically. With `previousPath`, the file being replaced is
+ * first renamed there, so one earlier version is always kept to fall back to.
+ */
+export async function writeFileAtomic(
+  targetPath: string,
+  content: Buffer | string,
+  options: { previousPath?: string } = {}
+): Promise<void> {
+  const target = resolveTarget(targetPath);
+  const tempPath = getTempPath(target);
+
+  try {
+    const handle = await fsPromises.open(tempPath, "w", getMode(target));
+    try {
+      await handle.writeFile(content);
+      await handle.sync().catch(() => undefined);
+    } finally {
+      await handle.close();
+    }
+
+    if (options.previousPath) {
+      try {
+        await fsPromises.rename(target, options.previousPath);
+      } catch (error) {
+        // Nothing to keep on the first write
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+    }
+    await fsPromises.rename(tempPath, target);
+  } catch (error) {
+    await fsPromises.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  syncDirectory(path.dirname(target));
+}
+
+/**
+ * The file a symlink points at, so the link itself survives the rename
+ */
+function resolveTarget(targetPath: string): string {
+  try {
+    return fs.realpathSync(targetPath);
+  } catch {
+    return targetPath;
+  }
+}
+
+/**
+ * Unique temp file next to the target (same directory, so the rename stays on
+ * one file system)
+ */
+function getTempPath(target: string): string {
+  const random = crypto.randomBytes(4).toString("hex");
+  return path.join(path.dirname(target), `.${path.basename(target)}.${random}${TEMP_SUFFIX}`);
+}
+
+/**
+ * Permission bits of the file being replaced, or the default for a new one
+ */
+function getMode(target: string): number {
+  try {
+    return fs.statSync(target).mode & 0o777;
+  } catch {
+    return 0o666;
+  }
+}
+
+/**
+ * Flush a directory entry change (the rename) to disk where supported
+ */
+function syncDirectory(dir: string): void {
+  try {
+    const fd = fs.openSync(dir, "r");
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    // Not supported here (Windows)
+  }
+}
@@ -0,0 +1,265 @@
+import * as fsPromises from "fs/promises";
+import * as path from "path";
+import * as crypto from "crypto";
+import { ObjectStore } from "./object-store";
+import { writeFileAtomic } from "./atomic-write";
+
+/**
+ * Why a version was saved: the file was about to be overwritten or deleted by
+ * a sync, replaced by a restore from this store, or reverted by an undo
+ */
+export type BackupReason = "overwrite" | "delete" | "restore" | "undo";
+
+/**
+ * One saved version of a synced file
+ */
+export interface BackupEntry {
+  id: string;
+  mappingId: string;
+  /** Relative path within the docs folder */
+  relativePath: string;
+  /** Which copy of the file was saved */
+  side: "ai" | "obsidian";
+  /** Key of the saved bytes in the object store */
+  hash: string;
+  /** Size in bytes */
+  size: number;
+  /** When the version was saved (ms) */
+  time: number;
+  reason: BackupReason;
+}
+
+/**
+ * How many versions to keep. 0 means no limit.
+ */
+export interface BackupRetention {
+  /** Versions kept per file and side */
+  maxVersions: number;
+  /** Versions older than this are removed */
+  maxAgeDays: number;
+}
+
+interface BackupIndex {
+  entries: BackupEntry[];
+  version: number;
+}
+
+const INDEX_FILE = "index.json";
+const OBJECTS_DIR = "objects";
+const CURRENT_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Versioned store for the copies sync takes before it overwrites or deletes a
+ * file, kept outside both the vault and the AI project.
+ *
+ * Bodies go into an ObjectStore (so an unchanged file saved twice costs one
+ * copy) and `index.json` lists the versions. add() only changes the index in
+ * memory; save() writes it, applies retention and drops unreferenced bodies,
+ * so a sync run costs one index write however many files it backs up.
+ * Operations run one at a time, as in RecycleBin: a body stored by an add()
+ * in progress has no entry yet for save() to keep it by.
+ */
+export class BackupStore {
+  private root: string;
+  private objectStore: ObjectStore;
+  private entries: BackupEntry[] = [];
+  private loading: Promise<void> | null = null;
+  private dirty = false;
+  /** The last operation queued (see serialize) */
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Pre-images stored since they were last passed to save() as referenced */
+  private unlisted: Set<string> = new Set();
+  /** Hashes the last save() was told are referenced outside the index */
+  private referenced: Set<string> = new Set();
+
+  constructor(root: string) {
+    this.root = root;
+    this.objectStore = new ObjectStore(path.join(root, OBJECTS_DIR));
+  }
+
+  /**
+   * Folder the store lives in
+   */
+  getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * Save a version of a file. Returns the new entry.
+   */
+  async add(
+    meta: Pick<BackupEntry, "mappingId" | "relativePath" | "side" | "reason">,
+    content: Buffer
+  ): Promise<BackupEntry> {
+    return this.serialize(async () => {
+      await this.ensureLoaded();
+      const hash = await this.objectStore.put(content);
+      const time = Date.now();
+      const entry: BackupEntry = {
+        ...meta,
+        id: `${time.toString(36)}-${crypto.randomBytes(4).toString("hex")}`,
+        hash,
+        size: content.length,
+        time,
+      };
+      this.entries.push(entry);
+      this.dirty = true;
+      return entry;
+    });
+  }
+
+  /**
+   * Store the version a journaled change replaces without listing it as a
+   * backup (backups off). Its body is kept while save() is passed its hash as
+   * referenced, and until then. Returns the hash.
+   */
+  async putPreImage(content: Buffer): Promise<string> {
+    return this.serialize(async () => {
+      const hash = await this.objectStore.put(content);
+      this.unlisted.add(hash);
+      return hash;
+    });
+  }
+
+  /**
+   * Saved versions of one file (both sides), newest first
+   */
+  async list(mappingId: string, relativePath: string): Promise<BackupEntry[]> {
+    await this.ensureLoaded();
+    return this.entries
+      .filter((entry) => entry.mappingId === mappingId && entry.relativePath === relativePath)
+      .sort((a, b) => b.time - a.time);
+  }
+
+  /**
+   * The saved bytes of a version, or undefined if they are gone
+   */
+  async read(entry: Pick<BackupEntry, "hash">): Promise<Buffer | undefined> {
+    return this.objectStore.get(entry.hash);
+  }
+
+  /**
+   * Apply retention, then write the index and remove bodies no version uses.
+   * `referenced` are hashes needed outside the index (the sync journal's
+   * pre-images); they are kept even when retention drops their version.
+   */
+  async save(retention: BackupRetention, referenced: Set<string> = new Set(), now = Date.now()): Promise<void> {
+    return this.serialize(() => this.write(retention, referenced, now));
+  }
+
+  /**
+   * save() holding the queue
+   */
+  private async write(retention: BackupRetention, referenced: Set<string>, now: number): Promise<void> {
+    await this.ensureLoaded();
+    const kept = applyRetention(this.entries, retention, now);
+    const pruned = kept.length !== this.entries.length;
+    const released = [...this.referenced].some((hash) => !referenced.has(hash));
+    this.referenced = referenced;
+    for (const hash of referenced) {
+      this.unlisted.delete(hash);
+    }
+    if (!this.dirty && !pruned && !released) {
+      return;
+    }
+    this.entries = kept;
+
+    try {
+      await fsPromises.mkdir(this.root, { recursive: true });
+      const index: BackupIndex = { entries: this.entries, version: CURRENT_VERSION };
+      await writeFileAtomic(path.join(this.root, INDEX_FILE), JSON.stringify(index, null, 2));
+      this.dirty = false;
+    } catch (error) {
+      console.error("EVC Sync: Failed to save backup index:", error);
+      return;
+    }
+
+    // Pre-images not referenced yet belong to runs still to be journaled
+    if (pruned || released) {
+      try {
+        await this.objectStore.gc(new Set([...this.entries.map((entry) => entry.hash), ...referenced, ...this.unlisted]));
+      } catch (error) {
+        console.error("EVC Sync: Failed to clean up backups:", error);
+      }
+    }
+  }
+
+  /**
+   * Delete every version. Returns how many there were.
+   */
+  async clear(): Promise<number> {
+    return this.serialize(async () => {
+      await this.ensureLoaded();
+      const count = this.entries.length;
+      this.entries = [];
+      this.unlisted.clear();
+      this.dirty = false;
+      // Only our own files: the folder may be one the user picked
+      await fsPromises.rm(path.join(this.root, OBJECTS_DIR), { recursive: true, force: true });
+      await fsPromises.rm(path.join(this.root, INDEX_FILE), { force: true });
+      return count;
+    });
+  }
+
+  /**
+   * Run an operation once every operation queued before it has settled
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.catch(() => undefined).then(operation);
+    this.queue = result;
+    return result;
+  }
+
+  /**
+   * Read the index once, on first use
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const content = await fsPromises.readFile(path.join(this.root, INDEX_FILE), "utf-8");
+      const data = JSON.parse(content) as BackupIndex;
+      if (data.version && data.version <= CURRENT_VERSION && Array.isArray(data.entries)) {
+        this.entries = data.entries;
+      } else {
+        console.warn("EVC Sync: backup index has newer version, ignoring it");
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("EVC Sync: Failed to load backup index:", error);
+      }
+    }
+  }
+}
+
+/**
+ * The entries retention keeps: per file and side, the newest `maxVersions`
+ * that are at most `maxAgeDays` old
+ */
+export function applyRetention(entries: BackupEntry[], retention: BackupRetention, now: number): BackupEntry[] {
+  const minTime = retention.maxAgeDays > 0 ? now - retention.maxAgeDays * DAY_MS : -Infinity;
+  const counts = new Map<string, number>();
+
+  const newestFirst = [...entries].sort((a, b) => b.time - a.time);
+  const kept = new Set<BackupEntry>();
+  for (const entry of newestFirst) {
+    if (entry.time < minTime) {
+      continue;
+    }
+    const key = `${entry.mappingId}\0${entry.side}\0${entry.relativePath}`;
+    const count = counts.get(key) ?? 0;
+    if (retention.maxVersions > 0 && count >= retention.maxVersions) {
+      continue;
+    }
+    counts.set(key, count + 1);
+    kept.add(entry);
+  }
+
+  return entries.filter((entry) => kept.has(entry));
+}
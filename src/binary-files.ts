@@ -0,0 +1,72 @@
+/**
+ * Text-vs-binary classification for synced files.
+ *
+ * Text files go through the vault's text API (vault.read / create / modify) so
+ * Obsidian treats them as notes; everything else must go through the binary API,
+ * or a UTF-8 round trip corrupts it. Known extensions decide on their own; an
+ * unknown one is sniffed the way git does it — a NUL byte in the first 8000 bytes
+ * means binary.
+ */
+
+const BINARY_EXTENSIONS = new Set([
+  // Images
+  ".png", ".jpg", ".jpeg", ".gif", ".webp", ".bmp", ".ico", ".tif", ".tiff", ".avif", ".heic",
+  // Documents and archives
+  ".pdf", ".zip", ".gz", ".tgz", ".7z", ".docx", ".xlsx", ".pptx", ".odt", ".epub",
+  // Audio and video
+  ".mp3", ".wav", ".ogg", ".m4a", ".flac", ".mp4", ".webm", ".mov", ".mkv",
+  // Fonts and databases
+  ".woff", ".woff2", ".ttf", ".otf", ".sqlite", ".db",
+]);
+
+const TEXT_EXTENSIONS = new Set([
+  ".md", ".canvas", ".txt", ".json", ".svg", ".csv", ".yaml", ".yml", ".xml", ".html",
+  ".drawio", ".mmd", ".puml", ".excalidraw",
+]);
+
+/** How many leading bytes are sniffed for a NUL (same window as git) */
+const SNIFF_LENGTH = 8000;
+
+/**
+ * True when a file must be copied as bytes. `content` is only consulted for
+ * extensions that are neither known-binary nor known-text.
+ */
+export function isBinaryFile(relativePath: string, content?: Uint8Array): boolean {
+  const ext = getExtension(relativePath);
+  if (BINARY_EXTENSIONS.has(ext)) {
+    return true;
+  }
+  if (TEXT_EXTENSIONS.has(ext)) {
+    return false;
+  }
+  return content !== undefined && looksBinary(content);
+}
+
+/**
+ * Content sniffing: a NUL byte near the start means binary.
+ */
+export function looksBinary(content: Uint8Array): boolean {
+  const end = Math.min(content.length, SNIFF_LENGTH);
+  for (let i = 0; i < end; i++) {
+    if (content[i] === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Copy a Buffer's bytes into a standalone ArrayBuffer for the vault's binary API
+ * (a Buffer may be a view into a larger shared pool).
+ */
+export function toArrayBuffer(content: Buffer): ArrayBuffer {
+  const copy = new ArrayBuffer(content.byteLength);
+  new Uint8Array(copy).set(content);
+  return copy;
+}
+
+function getExtension(relativePath: string): string {
+  const name = relativePath.split(/[/\\]/).pop() ?? relativePath;
+  const dot = name.lastIndexOf(".");
+  return dot <= 0 ? "" : name.slice(dot).toLowerCase();
+}
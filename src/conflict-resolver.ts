@@ -1,5 +1,7 @@
 import type { App } from "obsidian";
-import type { ConflictResolution } from "./settings";
+import * as path from "path";
+import type { ConflictResolution, ConflictRule } from "./settings";
+import { IgnoreMatcher } from "./ignore-matcher";
 
 /**
  * Information about a file conflict
@@ -12,12 +14,30 @@ export interface ConflictInfo {
   obsidianMtime: Date;
   aiSize: number;
   obsidianSize: number;
+  /**
+   * Text of both versions, filled in when the user is asked (for the diff in
+   * ConflictModal). Absent for binary files. With link rewriting or frontmatter
+   * rules the Obsidian text is in its AI-side form, so only real edits show.
+   */
+  aiContent?: string;
+  obsidianContent?: string;
 }
 
 /**
- * Resolution decision
+ * Resolution decision. "manual" writes text the user assembled from both
+ * versions (ConflictModal's "Merge manually") to both sides. "keep-both"
+ * syncs the newer version and saves the other as a conflict copy.
+ */
+export type ResolutionDecision = "use-ai" | "use-obsidian" | "skip" | "merge" | "manual" | "keep-both";
+
+/**
+ * What the user chose in the conflict modal
  */
-export type ResolutionDecision = "use-ai" | "use-obsidian" | "skip" | "merge";
+export interface UserResolution {
+  decision: ResolutionDecision;
+  /** The hand-merged text, for "manual" */
+  mergedContent?: string;
+}
 
 /**
  * Result of conflict resolution
@@ -26,8 +46,22 @@ export interface ResolutionResult {
   conflict: ConflictInfo;
   decision: ResolutionDecision;
   userChosen: boolean;
+  /** The hand-merged text, for "manual" */
+  mergedContent?: string;
+  /** The mapping's conflict rule that picked the strategy, if one matched */
+  rule?: ConflictRule;
 }
 
+/** Every strategy, as written in conflict rules */
+const CONFLICT_STRATEGIES: ConflictResolution[] = [
+  "newer-wins",
+  "always-ask",
+  "ai-wins",
+  "obsidian-wins",
+  "auto-merge",
+  "keep-both",
+];
+
 /**
  * Conflict resolver that handles version conflicts during sync (FR-013)
  *
@@ -36,10 +70,16 @@ export interface ResolutionResult {
  * - always-ask: Return 'skip' (UI will handle via modal)
  * - ai-wins: Always prefer AI version
  * - obsidian-wins: Always prefer Obsidian version
+ * - auto-merge: Three-way merge against the last-synced content
+ * - keep-both: Newer file wins, the other is kept as a conflict copy
+ *
+ * Conflict rules (setRules) pick the strategy per path; the first rule whose
+ * pattern matches wins, and the strategy above applies to the rest.
  */
 export class ConflictResolver {
   private app: App;
   private strategy: ConflictResolution;
+  private rules: Array<{ rule: ConflictRule; matcher: IgnoreMatcher }> = [];
 
   constructor(app: App, strategy: ConflictResolution) {
     this.app = app;
@@ -61,10 +101,41 @@ export class ConflictResolver {
   }
 
   /**
-   * Resolve a conflict based on the current strategy
+   * Set the conflict rules of the mapping being synced
+   */
+  setRules(rules: ConflictRule[]): void {
+    this.rules = rules.map((rule) => ({ rule, matcher: new IgnoreMatcher([rule.pattern]) }));
+  }
+
+  /**
+   * The first conflict rule matching a relative path, if any
+   */
+  matchRule(relativePath: string): ConflictRule | undefined {
+    const normalized = relativePath.replace(/\\/g, "/");
+    return this.rules.find(({ matcher }) => matcher.matches(normalized))?.rule;
+  }
+
+  /**
+   * The strategy that applies to a relative path: its rule's, or the current one
+   */
+  getStrategyFor(relativePath: string): ConflictResolution {
+    return this.matchRule(relativePath)?.strategy ?? this.strategy;
+  }
+
+  /**
+   * Resolve a conflict based on the strategy for its path
    */
   resolve(conflict: ConflictInfo): ResolutionResult {
-    switch (this.strategy) {
+    const rule = this.matchRule(conflict.relativePath);
+    const result = this.resolveWith(rule?.strategy ?? this.strategy, conflict);
+    return rule ? { ...result, rule } : result;
+  }
+
+  /**
+   * Resolve a conflict with the given strategy
+   */
+  private resolveWith(strategy: ConflictResolution, conflict: ConflictInfo): ResolutionResult {
+    switch (strategy) {
       case "newer-wins":
         return this.resolveNewerWins(conflict);
 
@@ -77,6 +148,12 @@ export class ConflictResolver {
       case "always-ask":
         return this.resolveAlwaysAsk(conflict);
 
+      case "auto-merge":
+        return this.resolveAutoMerge(conflict);
+
+      case "keep-both":
+        return this.resolveKeepBoth(conflict);
+
       default:
         // Default to newer-wins if unknown strategy
         return this.resolveNewerWins(conflict);
@@ -135,6 +212,32 @@ export class ConflictResolver {
     };
   }
 
+  /**
+   * Resolve using "auto-merge" strategy
+   * The sync engine performs the merge; overlapping edits are written with
+   * conflict markers rather than one side being dropped
+   */
+  private resolveAutoMerge(conflict: ConflictInfo): ResolutionResult {
+    return {
+      conflict,
+      decision: "merge",
+      userChosen: false,
+    };
+  }
+
+  /**
+   * Resolve using "keep-both" strategy
+   * The sync engine syncs the newer version and writes the other one next to
+   * it as a conflict copy (see getConflictCopyPath)
+   */
+  private resolveKeepBoth(conflict: ConflictInfo): ResolutionResult {
+    return {
+      conflict,
+      decision: "keep-both",
+      userChosen: false,
+    };
+  }
+
   /**
    * Resolve using "always-ask" strategy
    * Returns 'skip' - UI layer (ConflictModal) will handle this
@@ -157,12 +260,14 @@ export class ConflictResolver {
    */
   resolveWithUserChoice(
     conflict: ConflictInfo,
-    decision: ResolutionDecision
+    decision: ResolutionDecision,
+    mergedContent?: string
   ): ResolutionResult {
     return {
       conflict,
       decision,
       userChosen: true,
+      mergedContent,
     };
   }
 
@@ -235,3 +340,70 @@ export class ConflictResolver {
     return false;
   }
 }
+
+/**
+ * Relative path of the copy "keep-both" saves a conflict's losing version
+ * under, next to the original: `adr/plan (conflict obsidian 2026-10-19 143205).md`.
+ * `side` is where that version came from. Multi-part extensions from
+ * `fileTypes` (.excalidraw.md) stay whole so the copy keeps its file type.
+ */
+export function getConflictCopyPath(
+  relativePath: string,
+  side: "ai" | "obsidian",
+  time: Date,
+  fileTypes: string[] = []
+): string {
+  const dir = path.posix.dirname(relativePath);
+  const name = path.posix.basename(relativePath);
+  const ext =
+    fileTypes
+      .filter((type) => name.toLowerCase().endsWith(type.toLowerCase()) && name.length > type.length)
+      .sort((a, b) => b.length - a.length)[0] ?? path.posix.extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const stamp =
+    `${time.getFullYear()}-${pad(time.getMonth() + 1)}-${pad(time.getDate())} ` +
+    `${pad(time.getHours())}${pad(time.getMinutes())}${pad(time.getSeconds())}`;
+  const copyName = `${stem} (conflict ${side} ${stamp})${name.slice(stem.length)}`;
+
+  return dir === "." ? copyName : `${dir}/${copyName}`;
+}
+
+/**
+ * Parse the mapping modal's conflict rules text: one `<pattern> <strategy>`
+ * per line, in order (`generated/** ai-wins`). Blank lines and lines starting
+ * with `#` are skipped; bad lines are reported as "Line N: ..." and left out.
+ */
+export function parseConflictRules(text: string): { rules: ConflictRule[]; errors: string[] } {
+  const rules: ConflictRule[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) {
+      return;
+    }
+    const split = line.lastIndexOf(" ");
+    if (split < 0) {
+      errors.push(`Line ${index + 1}: expected <pattern> <strategy>`);
+      return;
+    }
+    const pattern = line.slice(0, split).trim();
+    const strategy = line.slice(split + 1);
+    if (!CONFLICT_STRATEGIES.includes(strategy as ConflictResolution)) {
+      errors.push(`Line ${index + 1}: unknown strategy "${strategy}", expected one of ${CONFLICT_STRATEGIES.join(", ")}`);
+      return;
+    }
+    rules.push({ pattern, strategy: strategy as ConflictResolution });
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Conflict rules as editor text, the inverse of parseConflictRules
+ */
+export function formatConflictRules(rules: ConflictRule[]): string {
+  return rules.map((rule) => `${rule.pattern} ${rule.strategy}`).join("\n");
+}
@@ -5,6 +5,15 @@ import type { App } from "obsidian";
 import type { EVCLocalSyncSettings, ProjectMapping } from "./settings";
 import { getVaultBasePath } from "./obsidian-internal";
 import { expandHome } from "./path-utils";
+import {
+  buildIncludeMatcher,
+  buildMappingIgnoreMatcher,
+  GITIGNORE_FILE,
+  SYNC_IGNORE_FILE,
+  type IgnoreMatcher,
+} from "./ignore-matcher";
+import { getEffectiveExcludePatterns, getEffectiveIncludePatterns } from "./sync-state-manager";
+import type { OwnWriteRegistry } from "./own-writes";
 
 /**
  * File change event
@@ -12,7 +21,8 @@ import { expandHome } from "./path-utils";
 export interface FileChangeEvent {
   path: string;
   relativePath: string;
-  type: "add" | "change" | "unlink";
+  /** "addDir" / "unlinkDir": a folder was created / deleted (`relativePath` is the folder) */
+  type: "add" | "change" | "unlink" | "addDir" | "unlinkDir";
   mapping: ProjectMapping;
   source: "ai" | "obsidian";
 }
@@ -36,6 +46,12 @@ export class FileWatcher {
   private isWatching = false;
   private pendingEvents: Map<string, FileChangeEvent> = new Map();
   private debounceTimer: number | null = null;
+  /** Per-mapping exclude rules, built when the mapping starts being watched */
+  private ignoreMatchers: Map<string, IgnoreMatcher> = new Map();
+  /** Per-mapping include rules (only for mappings that have some) */
+  private includeMatchers: Map<string, IgnoreMatcher> = new Map();
+  /** The sync engine's own recent writes, whose events are dropped */
+  private ownWrites: OwnWriteRegistry | null;
 
   // Excluded patterns (same as sync-engine)
   // Note: configDir is added dynamically via shouldIgnore method
@@ -51,9 +67,10 @@ export class FileWatcher {
     ".vscode",
   ];
 
-  constructor(app: App, settings: EVCLocalSyncSettings) {
+  constructor(app: App, settings: EVCLocalSyncSettings, ownWrites: OwnWriteRegistry | null = null) {
     this.app = app;
     this.settings = settings;
+    this.ownWrites = ownWrites;
   }
 
   /**
@@ -111,6 +128,8 @@ export class FileWatcher {
     }
 
     this.watchers.clear();
+    this.ignoreMatchers.clear();
+    this.includeMatchers.clear();
     this.pendingEvents.clear();
     this.isWatching = false;
   }
@@ -127,6 +146,21 @@ export class FileWatcher {
    * Watch a single mapping (both AI and Obsidian sides)
    */
   private watchMapping(mapping: ProjectMapping): void {
+    this.ignoreMatchers.set(mapping.id, buildMappingIgnoreMatcher({
+      patterns: getEffectiveExcludePatterns(mapping, this.settings),
+      projectRoot: this.getAiProjectPath(mapping),
+      docsSubdir: mapping.docsSubdir ?? "",
+      useGitignore: mapping.useGitignore,
+      useSyncIgnore: mapping.useSyncIgnore,
+    }));
+    const include = buildIncludeMatcher(getEffectiveIncludePatterns(mapping));
+    if (include) {
+      this.includeMatchers.set(mapping.id, include);
+    } else {
+      this.includeMatchers.delete(mapping.id);
+    }
+    this.watchIgnoreFiles(mapping);
+
     // Watch AI project docs folder
     const aiDocsPath = this.getAiDocsPath(mapping);
     this.watchDirectory(aiDocsPath, mapping, "ai");
@@ -138,23 +172,84 @@ export class FileWatcher {
     this.watchDirectory(fullObsDocsPath, mapping, "obsidian");
   }
 
+  /**
+   * Watch the project's .gitignore / .evcsyncignore when the mapping reads
+   * them. chokidar does not descend into folders the old rules ignored, so
+   * rebuilding the rules is not enough: a change restarts the mapping's
+   * watchers (rewatchMapping).
+   */
+  private watchIgnoreFiles(mapping: ProjectMapping): void {
+    const watcherId = `${mapping.id}-ignore-files`;
+    const projectRoot = this.getAiProjectPath(mapping);
+    const files: string[] = [];
+    if (mapping.useGitignore) {
+      files.push(path.join(projectRoot, GITIGNORE_FILE));
+    }
+    if (mapping.useSyncIgnore) {
+      files.push(path.join(projectRoot, SYNC_IGNORE_FILE));
+    }
+    if (files.length === 0 || this.watchers.has(watcherId)) {
+      return;
+    }
+
+    try {
+      // Files that do not exist yet are reported when they are created
+      const watcher = chokidar.watch(files, { persistent: true, ignoreInitial: true });
+      const onChange = (filePath: string): void => {
+        console.debug(`EVC Watcher: ${path.basename(filePath)} changed, restarting watchers for mapping "${mapping.name}"`);
+        void this.rewatchMapping(mapping);
+      };
+      watcher.on("add", onChange);
+      watcher.on("change", onChange);
+      watcher.on("unlink", onChange);
+      watcher.on("error", (error) => {
+        console.error(`EVC Watcher: Error watching ignore files of ${projectRoot}:`, error);
+      });
+      this.watchers.set(watcherId, watcher);
+    } catch (error) {
+      console.error(`EVC Watcher: Failed to watch ignore files of ${projectRoot}:`, error);
+    }
+  }
+
+  /**
+   * Restart a mapping's folder watchers with its exclude rules rebuilt
+   */
+  private async rewatchMapping(mapping: ProjectMapping): Promise<void> {
+    for (const source of ["ai", "obsidian"]) {
+      const watcherId = `${mapping.id}-${source}`;
+      const watcher = this.watchers.get(watcherId);
+      this.watchers.delete(watcherId);
+      await watcher?.close();
+    }
+    // Stopped meanwhile
+    if (!this.isWatching) {
+      return;
+    }
+    this.watchMapping(mapping);
+  }
+
   /**
    * Get full docs path for AI project (same logic as sync-engine).
    * For intra-vault mappings, aiPath is vault-relative so prepend vaultBasePath.
    */
   private getAiDocsPath(mapping: ProjectMapping): string {
-    let basePath: string;
-    if (mapping.intraVault) {
-      basePath = path.join(getVaultBasePath(this.app), mapping.aiPath);
-    } else {
-      basePath = expandHome(mapping.aiPath);
-    }
+    const basePath = this.getAiProjectPath(mapping);
     if (mapping.docsSubdir && mapping.docsSubdir.trim().length > 0) {
       return path.join(basePath, mapping.docsSubdir);
     }
     return basePath;
   }
 
+  /**
+   * Get the AI project root (where its .gitignore lives)
+   */
+  private getAiProjectPath(mapping: ProjectMapping): string {
+    if (mapping.intraVault) {
+      return path.join(getVaultBasePath(this.app), mapping.aiPath);
+    }
+    return expandHome(mapping.aiPath);
+  }
+
   /**
    * Get full docs path for Obsidian (same logic as sync-engine)
    */
@@ -211,10 +306,19 @@ export class FileWatcher {
         this.handleFileEvent(relativePath, "change", mapping, source, dirPath);
       });
 
+      // Folders are synced as entries of their own, empty ones included
+      watcher.on("addDir", (relativePath) => {
+        this.handleFileEvent(relativePath, "addDir", mapping, source, dirPath);
+      });
+
+      // Deletions only sync when enabled (FR-060); a whole folder arrives as
+      // one unlinkDir next to the unlink of each file in it
       watcher.on("unlink", (relativePath) => {
-        // Note: We don't sync deletions by design (NFR-020)
-        // Just log for debugging
-        console.debug(`EVC Watcher: File removed (not synced): ${relativePath}`);
+        this.handleDeletionEvent(relativePath, "unlink", mapping, source, dirPath);
+      });
+
+      watcher.on("unlinkDir", (relativePath) => {
+        this.handleDeletionEvent(relativePath, "unlinkDir", mapping, source, dirPath);
       });
 
       watcher.on("error", (error) => {
@@ -232,12 +336,30 @@ export class FileWatcher {
     }
   }
 
+  /**
+   * Handle a file or folder deletion: queued like any change when deletions
+   * are synced, otherwise only logged
+   */
+  private handleDeletionEvent(
+    relativePath: string,
+    type: "unlink" | "unlinkDir",
+    mapping: ProjectMapping,
+    source: "ai" | "obsidian",
+    basePath: string
+  ): void {
+    if (!this.settings.syncDeletions) {
+      console.debug(`EVC Watcher: ${type === "unlinkDir" ? "Folder" : "File"} removed (deletion sync off): ${relativePath}`);
+      return;
+    }
+    this.handleFileEvent(relativePath, type, mapping, source, basePath);
+  }
+
   /**
    * Handle a file change event with debouncing
    */
   private handleFileEvent(
     relativePath: string,
-    type: "add" | "change" | "unlink",
+    type: FileChangeEvent["type"],
     mapping: ProjectMapping,
     source: "ai" | "obsidian",
     basePath: string
@@ -270,15 +392,27 @@ export class FileWatcher {
   }
 
   /**
-   * Flush all pending events to callbacks
+   * Flush all pending events to callbacks. Events caused by the sync's own
+   * writes are dropped here, once the writes have settled: a file that still
+   * has the content the sync left needs no sync, and syncing it anyway would
+   * start another run (or, with the mtime window, bounce it back and forth).
    */
   private flushPendingEvents(): void {
     if (this.pendingEvents.size === 0) {
       return;
     }
 
-    const events = Array.from(this.pendingEvents.values());
+    const events = Array.from(this.pendingEvents.values()).filter((event) => {
+      if (this.ownWrites?.isOwnWrite(event.path)) {
+        console.debug(`EVC Watcher: Ignoring own write: ${event.relativePath} (source: ${event.source})`);
+        return false;
+      }
+      return true;
+    });
     this.pendingEvents.clear();
+    if (events.length === 0) {
+      return;
+    }
 
     // Notify all callbacks
     for (const callback of this.callbacks) {
@@ -326,10 +460,24 @@ export class FileWatcher {
       }
     }
 
-    // Check user-defined exclusions
-    for (const pattern of this.settings.excludePatterns) {
-      if (filePath.includes(pattern)) {
-        return true;
+    // Check the mapping's exclude and include rules (same matchers as the sync
+    // engine). Without stats chokidar hasn't told us the type yet; it asks again
+    // with stats, so directory-only rules still apply before it recurses.
+    // Include patterns, like the file-type filter, only apply to known files.
+    if (mapping) {
+      const relativePath = watchRoot && path.isAbsolute(filePath)
+        ? path.relative(watchRoot, filePath)
+        : filePath;
+      const normalized = relativePath.split(path.sep).join("/");
+      if (normalized && normalized !== ".") {
+        const ignore = this.ignoreMatchers.get(mapping.id);
+        if (ignore?.ignores(normalized, stats?.isDirectory() ?? false)) {
+          return true;
+        }
+        const include = this.includeMatchers.get(mapping.id);
+        if (include && stats?.isFile() && !include.matches(normalized)) {
+          return true;
+        }
       }
     }
 
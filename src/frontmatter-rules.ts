@@ -0,0 +1,361 @@
+import type { FrontmatterRule, SyncDirection } from "./settings";
+
+/**
+ * Per-mapping frontmatter rules (ProjectMapping.frontmatterRules).
+ *
+ * Keys are edited as whole top-level entries, line by line, instead of
+ * through a YAML round trip: an entry the rules don't touch keeps its exact
+ * formatting, and a note no rule changes is returned byte for byte. Only
+ * scalar values are compared and rewritten (`default`, `map`); a list or
+ * nested value can still be stripped or renamed as a whole.
+ *
+ * Rules apply in list order on the way out and are undone in reverse order on
+ * the way back, so a bidirectional mapping converges instead of ping-ponging.
+ */
+
+/** One top-level key with its continuation lines (nested values, list items) */
+interface FrontmatterEntry {
+  /** "" for comments and blank lines before the first key */
+  key: string;
+  lines: string[];
+}
+
+interface ParsedNote {
+  open: string;
+  close: string;
+  entries: FrontmatterEntry[];
+  /** Everything after the closing fence (the whole note when it has none) */
+  body: string;
+}
+
+const ACTIONS: FrontmatterRule["action"][] = ["strip", "rename", "default", "map"];
+const DIRECTIONS: SyncDirection[] = ["obs-to-ai", "ai-to-obs"];
+const KEY_RE = /^(["']?)([^\s"'#:-][^:]*?)\1[ \t]*:(?=[ \t]|\r?$)/;
+/** Scalars that YAML would read differently unless quoted */
+const NEEDS_QUOTES_RE = /^$|^\s|\s$|: | #|^[-?:,[\]{}&*!|>'"%@`]/;
+
+/**
+ * Apply a mapping's rules to a note copied in `direction`. `existingTarget` is
+ * the current content of the copy being overwritten, if any: keys stripped on
+ * the way out are restored from it on the way back.
+ */
+export function applyFrontmatterRules(
+  content: string,
+  rules: FrontmatterRule[],
+  direction: SyncDirection,
+  existingTarget?: string
+): string {
+  if (rules.length === 0) {
+    return content;
+  }
+
+  const note = parseNote(content);
+  const existing = existingTarget !== undefined ? parseNote(existingTarget) : undefined;
+  let changed = false;
+
+  // Undo the other direction's rules first: they were applied last on the way in
+  for (const rule of [...rules].reverse()) {
+    if (rule.direction !== direction) {
+      changed = undoRule(note, rule, existing) || changed;
+    }
+  }
+  for (const rule of rules) {
+    if (rule.direction === direction) {
+      changed = applyRule(note, rule) || changed;
+    }
+  }
+
+  return changed ? serializeNote(note) : content;
+}
+
+/**
+ * Parse the rule editor's text, one rule per line:
+ *
+ *     obs-to-ai strip cssclasses
+ *     obs-to-ai rename tags -> keywords
+ *     obs-to-ai default layout = doc
+ *     ai-to-obs map status draft -> wip, done -> published
+ *
+ * Blank lines and `#` comments are skipped.
+ */
+export function parseFrontmatterRules(text: string): { rules: FrontmatterRule[]; errors: string[] } {
+  const rules: FrontmatterRule[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line.length === 0 || line.startsWith("#")) {
+      return;
+    }
+    const fail = (message: string) => errors.push(`Line ${index + 1}: ${message}`);
+
+    const [direction, action, key, ...restWords] = line.split(/\s+/);
+    if (!DIRECTIONS.includes(direction as SyncDirection)) {
+      fail(`expected obs-to-ai or ai-to-obs, got "${direction}"`);
+      return;
+    }
+    if (!ACTIONS.includes(action as FrontmatterRule["action"])) {
+      fail(`unknown action "${action ?? ""}" (use ${ACTIONS.join(", ")})`);
+      return;
+    }
+    if (!key) {
+      fail("missing key");
+      return;
+    }
+    const rule: FrontmatterRule = {
+      action: action as FrontmatterRule["action"],
+      direction: direction as SyncDirection,
+      key,
+    };
+    const rest = restWords.join(" ");
+
+    switch (rule.action) {
+      case "strip":
+        if (rest) {
+          fail("strip takes only a key");
+          return;
+        }
+        break;
+      case "rename": {
+        const match = /^->\s*(\S+)$/.exec(rest);
+        if (!match) {
+          fail("expected rename <key> -> <new key>");
+          return;
+        }
+        rule.to = match[1];
+        break;
+      }
+      case "default": {
+        const match = /^=\s*(.*)$/.exec(rest);
+        if (!match) {
+          fail("expected default <key> = <value>");
+          return;
+        }
+        rule.value = match[1];
+        break;
+      }
+      case "map": {
+        const values: Record<string, string> = {};
+        for (const pair of rest.split(",")) {
+          const match = /^\s*(.+?)\s*->\s*(.+?)\s*$/.exec(pair);
+          if (!match) {
+            fail("expected map <key> <from> -> <to>, ...");
+            return;
+          }
+          values[match[1]] = match[2];
+        }
+        rule.values = values;
+        break;
+      }
+    }
+    rules.push(rule);
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * The rule editor's text for a rule list (inverse of parseFrontmatterRules)
+ */
+export function formatFrontmatterRules(rules: FrontmatterRule[]): string {
+  return rules
+    .map((rule) => {
+      const head = `${rule.direction} ${rule.action} ${rule.key}`;
+      switch (rule.action) {
+        case "rename":
+          return `${head} -> ${rule.to ?? ""}`;
+        case "default":
+          return `${head} = ${rule.value ?? ""}`;
+        case "map":
+          return `${head} ${Object.entries(rule.values ?? {})
+            .map(([from, to]) => `${from} -> ${to}`)
+            .join(", ")}`;
+        default:
+          return head;
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * Apply one rule in its own direction. True when the note changed.
+ */
+function applyRule(note: ParsedNote, rule: FrontmatterRule): boolean {
+  switch (rule.action) {
+    case "strip":
+      return removeEntry(note, rule.key);
+    case "rename":
+      return rule.to ? renameEntry(note, rule.key, rule.to) : false;
+    case "default":
+      if (rule.value === undefined || findEntry(note, rule.key)) {
+        return false;
+      }
+      note.entries.push({ key: rule.key, lines: [formatEntryLine(rule.key, rule.value)] });
+      return true;
+    case "map":
+      return mapValue(note, rule.key, rule.values ?? {});
+  }
+}
+
+/**
+ * Undo one rule on a note coming back from the rule's target side. True when
+ * the note changed.
+ */
+function undoRule(note: ParsedNote, rule: FrontmatterRule, existing: ParsedNote | undefined): boolean {
+  switch (rule.action) {
+    case "strip": {
+      // The other side never saw this key: keep this side's value, if it has one
+      const kept = existing ? findEntry(existing, rule.key) : undefined;
+      if (!existing || !kept || findEntry(note, rule.key)) {
+        return false;
+      }
+      note.entries.splice(restorePosition(note, existing, rule.key), 0, { key: kept.key, lines: [...kept.lines] });
+      return true;
+    }
+    case "rename":
+      return rule.to ? renameEntry(note, rule.to, rule.key) : false;
+    case "default": {
+      // Only drop a value the rule added: unchanged, and absent on this side
+      const entry = findEntry(note, rule.key);
+      if (!entry || rule.value === undefined || readScalar(entry)?.value !== rule.value) {
+        return false;
+      }
+      if (existing && findEntry(existing, rule.key)) {
+        return false;
+      }
+      return removeEntry(note, rule.key);
+    }
+    case "map": {
+      const inverse: Record<string, string> = {};
+      for (const [from, to] of Object.entries(rule.values ?? {})) {
+        if (!(to in inverse)) {
+          inverse[to] = from;
+        }
+      }
+      return mapValue(note, rule.key, inverse);
+    }
+  }
+}
+
+function parseNote(content: string): ParsedNote {
+  const lines = content.split("\n");
+  const close = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\r?$/.test(line));
+  if (!/^---\r?$/.test(lines[0] ?? "") || close === -1) {
+    return { open: "---", close: "---", entries: [], body: content };
+  }
+
+  const entries: FrontmatterEntry[] = [];
+  for (const line of lines.slice(1, close)) {
+    const match = KEY_RE.exec(line);
+    if (match) {
+      entries.push({ key: match[2], lines: [line] });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].lines.push(line);
+    } else {
+      entries.push({ key: "", lines: [line] });
+    }
+  }
+
+  return {
+    open: lines[0],
+    close: lines[close],
+    entries,
+    body: lines.slice(close + 1).join("\n"),
+  };
+}
+
+function serializeNote(note: ParsedNote): string {
+  // A block the rules emptied is dropped instead of left as a bare pair of fences
+  if (!note.entries.some((entry) => entry.key !== "")) {
+    return note.body;
+  }
+  const lines = [note.open, ...note.entries.flatMap((entry) => entry.lines), note.close];
+  return `${lines.join("\n")}\n${note.body}`;
+}
+
+function findEntry(note: ParsedNote, key: string): FrontmatterEntry | undefined {
+  return note.entries.find((entry) => entry.key === key);
+}
+
+function removeEntry(note: ParsedNote, key: string): boolean {
+  const index = note.entries.findIndex((entry) => entry.key === key);
+  if (index === -1) {
+    return false;
+  }
+  note.entries.splice(index, 1);
+  return true;
+}
+
+function renameEntry(note: ParsedNote, from: string, to: string): boolean {
+  const entry = findEntry(note, from);
+  if (!entry || from === to) {
+    return false;
+  }
+  // The renamed value wins over one already under the new name
+  removeEntry(note, to);
+  const match = KEY_RE.exec(entry.lines[0])!;
+  const quote = match[1];
+  entry.lines[0] = `${quote}${to}${quote}${entry.lines[0].slice(match[1].length * 2 + match[2].length)}`;
+  entry.key = to;
+  return true;
+}
+
+function mapValue(note: ParsedNote, key: string, values: Record<string, string>): boolean {
+  const entry = findEntry(note, key);
+  const scalar = entry ? readScalar(entry) : undefined;
+  if (!entry || !scalar || !Object.prototype.hasOwnProperty.call(values, scalar.value)) {
+    return false;
+  }
+  const mapped = values[scalar.value];
+  if (mapped === scalar.value) {
+    return false;
+  }
+  entry.lines[0] = `${scalar.prefix}${scalar.quote}${mapped}${scalar.quote}${scalar.eol}`;
+  return true;
+}
+
+/**
+ * The value of a single-line entry, with the pieces needed to write it back
+ * in the same style. Undefined for multi-line values.
+ */
+function readScalar(
+  entry: FrontmatterEntry
+): { value: string; prefix: string; quote: string; eol: string } | undefined {
+  if (entry.lines.length !== 1) {
+    return undefined;
+  }
+  const line = entry.lines[0];
+  const eol = line.endsWith("\r") ? "\r" : "";
+  const match = /^([^:]*:[ \t]*)(.*?)[ \t]*$/.exec(eol ? line.slice(0, -1) : line);
+  if (!match) {
+    return undefined;
+  }
+  const raw = match[2];
+  const quoted = raw.length >= 2 && (raw[0] === '"' || raw[0] === "'") && raw.endsWith(raw[0]);
+  return {
+    value: quoted ? raw.slice(1, -1) : raw,
+    prefix: match[1],
+    quote: quoted ? raw[0] : "",
+    eol,
+  };
+}
+
+function formatEntryLine(key: string, value: string): string {
+  return `${key}: ${NEEDS_QUOTES_RE.test(value) ? JSON.stringify(value) : value}`;
+}
+
+/**
+ * Where a key restored from `existing` goes in `note`: after the nearest key
+ * that precedes it there and is present here, else at the top.
+ */
+function restorePosition(note: ParsedNote, existing: ParsedNote, key: string): number {
+  const at = existing.entries.findIndex((entry) => entry.key === key);
+  for (let i = at - 1; i >= 0; i--) {
+    const previous = existing.entries[i].key;
+    const index = previous ? note.entries.findIndex((entry) => entry.key === previous) : -1;
+    if (index !== -1) {
+      return index + 1;
+    }
+  }
+  return note.entries[0]?.key === "" ? 1 : 0;
+}
@@ -0,0 +1,118 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A git operation that rewrites the work tree while it runs: any command
+ * holding the index lock (checkout, reset, stash...), a rebase, or a merge
+ * waiting for its commit
+ */
+export type GitOperation = "index-lock" | "rebase" | "merge";
+
+/**
+ * What git is doing in the repository around a folder
+ */
+export interface GitStatus {
+  /** Operation in progress, null when the repository is idle */
+  operation: GitOperation | null;
+  /** Checked-out branch (the one being rebased during a rebase), a short commit hash when detached */
+  branch: string | null;
+}
+
+/**
+ * An index.lock older than this is left over from a git process that
+ * crashed; git itself refuses to run until it is removed, and so it is not
+ * an operation to wait for
+ */
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/**
+ * Git status of the repository containing `workTreePath` (the folder itself
+ * or any parent), or null when it is not inside one. Only reads files in the
+ * git directory; git does not need to be installed.
+ */
+export function readGitStatus(workTreePath: string, now = Date.now()): GitStatus | null {
+  const gitDir = findGitDir(workTreePath);
+  if (!gitDir) {
+    return null;
+  }
+  return { operation: getOperation(gitDir, now), branch: getBranch(gitDir) };
+}
+
+/**
+ * The git directory of the repository around a folder. A `.git` file (a
+ * worktree or submodule) points to it with a "gitdir:" line.
+ */
+function findGitDir(workTreePath: string): string | null {
+  let dir = path.resolve(workTreePath);
+  for (;;) {
+    const candidate = path.join(dir, ".git");
+    try {
+      const stat = fs.statSync(candidate);
+      if (stat.isDirectory()) {
+        return candidate;
+      }
+      const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(candidate, "utf-8"));
+      if (match) {
+        return path.resolve(dir, match[1].trim());
+      }
+    } catch {
+      // No .git here
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * The operation in progress in a git directory, if any
+ */
+function getOperation(gitDir: string, now: number): GitOperation | null {
+  if (fs.existsSync(path.join(gitDir, "rebase-merge")) || fs.existsSync(path.join(gitDir, "rebase-apply"))) {
+    return "rebase";
+  }
+  if (fs.existsSync(path.join(gitDir, "MERGE_HEAD"))) {
+    return "merge";
+  }
+  try {
+    const lock = fs.statSync(path.join(gitDir, "index.lock"));
+    if (now - lock.mtimeMs < STALE_LOCK_MS) {
+      return "index-lock";
+    }
+  } catch {
+    // Not locked
+  }
+  return null;
+}
+
+/**
+ * The checked-out branch. HEAD is detached during a rebase, which records
+ * the branch being rebased instead.
+ */
+function getBranch(gitDir: string): string | null {
+  for (const headName of [path.join("rebase-merge", "head-name"), path.join("rebase-apply", "head-name")]) {
+    try {
+      return stripBranchRef(fs.readFileSync(path.join(gitDir, headName), "utf-8").trim());
+    } catch {
+      // Not rebasing this way
+    }
+  }
+
+  try {
+    const head = fs.readFileSync(path.join(gitDir, "HEAD"), "utf-8").trim();
+    const match = /^ref:\s*(.+)$/.exec(head);
+    return match ? stripBranchRef(match[1]) : head.slice(0, 7) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Branch name of a ref ("refs/heads/main" -> "main")
+ */
+function stripBranchRef(ref: string): string {
+  return ref.replace(/^refs\/heads\//, "");
+}
@@ -0,0 +1,286 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Path rules with gitignore semantics, shared by the sync engine, the file
+ * watcher and the mapping stats so all three agree on what is out of scope.
+ * The same rules express a mapping's include list: there a "match" means
+ * the file is wanted instead of ignored.
+ *
+ * Supported, as in git:
+ * - `#` comments and blank lines (`\#` / `\!` escape a leading character)
+ * - `*`, `?`, `[a-z]` / `[!a-z]` within one path segment, `**` across segments
+ * - `!pattern` re-includes what an earlier rule excluded; the last match wins
+ * - a trailing `/` only matches directories
+ * - a `/` at the start or in the middle anchors the pattern to the root;
+ *   otherwise it matches at any depth (`*.tmp` excludes `a/b/x.tmp`)
+ * - nothing below an excluded directory can be re-included
+ *
+ * Paths are relative, `/`-separated, and never start with `/`.
+ */
+
+/** The AI project's own ignore file, read when ProjectMapping.useGitignore is set */
+export const GITIGNORE_FILE = ".gitignore";
+
+/** Sync-only ignore file at the AI project root, read when ProjectMapping.useSyncIgnore is set */
+export const SYNC_IGNORE_FILE = ".evcsyncignore";
+
+interface IgnoreRule {
+  /** The line as written, for diagnostics */
+  source: string;
+  /** Where the line came from (e.g. ".gitignore"), for diagnostics */
+  origin: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  /** Prepended to the tested path (rules from files above the sync root) */
+  base: string;
+}
+
+export class IgnoreMatcher {
+  private rules: IgnoreRule[] = [];
+
+  constructor(patterns: string[] = []) {
+    this.add(patterns);
+  }
+
+  /**
+   * Append rules. `base` is the sync root's path relative to the directory the
+   * rules were written for — a `.gitignore` at the project root applies to
+   * `docs/...` when only `docs` is synced — so anchored rules keep their meaning.
+   */
+  add(patterns: string[], base = "", origin = ""): this {
+    const normalizedBase = base.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+    for (const line of patterns) {
+      const rule = IgnoreMatcher.compile(line, normalizedBase, origin);
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * True when no rules were added (every path is kept)
+   */
+  isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /**
+   * True when `relativePath` is excluded. Parent directories are checked first:
+   * once a directory is excluded, nothing inside it comes back.
+   */
+  ignores(relativePath: string, isDirectory = false): boolean {
+    return this.explain(relativePath, isDirectory) !== undefined;
+  }
+
+  /**
+   * Same test as ignores(), for include lists: true when the path (or a parent
+   * directory) is matched by the rules.
+   */
+  matches(relativePath: string, isDirectory = false): boolean {
+    return this.explain(relativePath, isDirectory) !== undefined;
+  }
+
+  /**
+   * The rule that makes `relativePath` match, as `"<line>"` prefixed with its
+   * origin when known, or undefined when it does not match.
+   */
+  explain(relativePath: string, isDirectory = false): string | undefined {
+    if (this.rules.length === 0) {
+      return undefined;
+    }
+    const segments = relativePath.replace(/\\/g, "/").split("/").filter((s) => s.length > 0);
+    for (let i = 1; i < segments.length; i++) {
+      const rule = this.decide(segments.slice(0, i).join("/"), true);
+      if (rule) {
+        return IgnoreMatcher.describe(rule);
+      }
+    }
+    const rule = this.decide(segments.join("/"), isDirectory);
+    return rule ? IgnoreMatcher.describe(rule) : undefined;
+  }
+
+  /**
+   * The last rule matching this exact path (no parent lookup), if it is a
+   * positive one
+   */
+  private decide(relativePath: string, isDirectory: boolean): IgnoreRule | undefined {
+    let decisive: IgnoreRule | undefined;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDirectory) {
+        continue;
+      }
+      const candidate = rule.base ? `${rule.base}/${relativePath}` : relativePath;
+      if (rule.regex.test(candidate)) {
+        decisive = rule;
+      }
+    }
+    return decisive && !decisive.negate ? decisive : undefined;
+  }
+
+  private static describe(rule: IgnoreRule): string {
+    return rule.origin ? `${rule.origin} "${rule.source.trim()}"` : `"${rule.source.trim()}"`;
+  }
+
+  /**
+   * Parse one gitignore line into a rule, or null for comments and blanks
+   */
+  private static compile(line: string, base: string, origin: string): IgnoreRule | null {
+    // Trailing whitespace is dropped unless escaped
+    let pattern = line.replace(/(?<!\\)\s+$/, "");
+    if (pattern.length === 0 || pattern.startsWith("#")) {
+      return null;
+    }
+
+    let negate = false;
+    if (pattern.startsWith("!")) {
+      negate = true;
+      pattern = pattern.slice(1);
+    } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+      pattern = pattern.slice(1);
+    }
+
+    let dirOnly = false;
+    if (pattern.endsWith("/")) {
+      dirOnly = true;
+      pattern = pattern.replace(/\/+$/, "");
+    }
+
+    const anchored = pattern.includes("/");
+    pattern = pattern.replace(/^\/+/, "");
+    if (pattern.length === 0) {
+      return null;
+    }
+
+    const body = IgnoreMatcher.globToRegex(pattern);
+    const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+    return { source: line, origin, regex, negate, dirOnly, base };
+  }
+
+  /**
+   * Translate a glob into a regex body. `**` only spans directories when it is
+   * a whole segment; elsewhere it behaves like `*`.
+   */
+  private static globToRegex(pattern: string): string {
+    let out = "";
+    let i = 0;
+
+    while (i < pattern.length) {
+      const ch = pattern[i];
+
+      if (ch === "*") {
+        if (pattern[i + 1] === "*") {
+          const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+          const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === "/";
+          if (atSegmentStart && atSegmentEnd) {
+            if (i + 2 === pattern.length) {
+              // Trailing "/**": everything inside
+              out += ".*";
+              i += 2;
+            } else {
+              // "**/" at the start or "/**/" in the middle: zero or more directories
+              out += "(?:.*/)?";
+              i += 3;
+            }
+            continue;
+          }
+          out += "[^/]*";
+          i += 2;
+          continue;
+        }
+        out += "[^/]*";
+        i++;
+        continue;
+      }
+
+      if (ch === "?") {
+        out += "[^/]";
+        i++;
+        continue;
+      }
+
+      if (ch === "[") {
+        const close = pattern.indexOf("]", i + 2);
+        if (close !== -1) {
+          let cls = pattern.slice(i + 1, close);
+          if (cls.startsWith("!")) {
+            cls = "^" + cls.slice(1);
+          }
+          out += `[${cls.replace(/\\/g, "\\\\")}]`;
+          i = close + 1;
+          continue;
+        }
+      }
+
+      if (ch === "\\" && i + 1 < pattern.length) {
+        out += escapeRegex(pattern[i + 1]);
+        i += 2;
+        continue;
+      }
+
+      out += escapeRegex(ch);
+      i++;
+    }
+
+    return out;
+  }
+}
+
+/**
+ * Options for buildMappingIgnoreMatcher
+ */
+export interface MappingIgnoreOptions {
+  /** Effective exclude patterns of the mapping (matched against docs-relative paths) */
+  patterns: string[];
+  /** Absolute root of the AI project, where .gitignore / .evcsyncignore live */
+  projectRoot: string;
+  /** The mapping's docs subfolder ("" when the whole project is synced) */
+  docsSubdir: string;
+  useGitignore?: boolean;
+  useSyncIgnore?: boolean;
+}
+
+/**
+ * The full rule set of a mapping, evaluated on paths relative to its docs folder:
+ * the project's .gitignore, then .evcsyncignore, then the mapping's own exclude
+ * patterns — later sources can re-include what earlier ones excluded.
+ */
+export function buildMappingIgnoreMatcher(options: MappingIgnoreOptions): IgnoreMatcher {
+  const matcher = new IgnoreMatcher();
+  const base = options.docsSubdir.trim();
+
+  if (options.useGitignore) {
+    matcher.add(readIgnoreFile(path.join(options.projectRoot, GITIGNORE_FILE)), base, GITIGNORE_FILE);
+  }
+  if (options.useSyncIgnore) {
+    matcher.add(readIgnoreFile(path.join(options.projectRoot, SYNC_IGNORE_FILE)), base, SYNC_IGNORE_FILE);
+  }
+
+  return matcher.add(options.patterns);
+}
+
+/**
+ * A mapping's include list (ProjectMapping.includePatternsOverride), or
+ * undefined when it has none and every file is wanted.
+ */
+export function buildIncludeMatcher(patterns: string[]): IgnoreMatcher | undefined {
+  const matcher = new IgnoreMatcher(patterns);
+  return matcher.isEmpty() ? undefined : matcher;
+}
+
+/**
+ * Lines of an ignore file, or none when it does not exist
+ */
+function readIgnoreFile(filePath: string): string[] {
+  try {
+    return fs.readFileSync(filePath, "utf-8").split(/\r?\n/);
+  } catch {
+    return [];
+  }
+}
+
+function escapeRegex(ch: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(ch) ? `\\${ch}` : ch;
+}
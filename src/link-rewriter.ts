@@ -0,0 +1,218 @@
+import * as path from "path";
+
+/**
+ * Link rewriting between Obsidian wikilinks and relative Markdown links.
+ *
+ * In the vault, notes link with `[[Other Note]]` / `![[diagram.png]]`; in the
+ * repo, docs link with `[text](../other-note.md)` so GitHub and agents can
+ * follow them. With ProjectMapping.rewriteLinks the copy path converts between
+ * the two. The functions here are pure: resolving a wikilink to a file, and a
+ * file back to the link text Obsidian would write, is the caller's job (the
+ * sync engine asks the vault's metadata cache).
+ *
+ * Fenced code blocks, inline code and the frontmatter block are left alone.
+ * A link that cannot be resolved is kept as written and reported.
+ */
+
+/**
+ * Where a wikilink points, from the caller's point of view
+ */
+export type WikilinkTarget =
+  | { relativePath: string }
+  | { unresolved: string };
+
+/**
+ * A link the rewrite had to leave as written
+ */
+export interface UnresolvedLinkInfo {
+  /** The link as it appears in the source */
+  link: string;
+  reason: string;
+}
+
+/**
+ * Rewritten content plus the links that could not be converted
+ */
+export interface LinkRewriteResult {
+  content: string;
+  unresolved: UnresolvedLinkInfo[];
+}
+
+const WIKILINK_RE = /(!?)\[\[([^[\]\n]+?)\]\]/g;
+const MARKDOWN_LINK_RE = /(!?)\[([^[\]\n]*)\]\((<[^>\n]+>|[^()\s]+)(\s+"[^"\n]*")?\)/g;
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})/;
+const INLINE_CODE_RE = /(`+)[\s\S]*?\1/;
+/** URLs and other links that are not paths into the docs tree */
+const EXTERNAL_HREF_RE = /^(?:[a-z][a-z0-9+.-]*:|\/)/i;
+/** Characters that would end or confuse a Markdown link target */
+const UNSAFE_HREF_CHARS = /[ %()<>#?]/g;
+
+/**
+ * Obsidian → repo: every `[[...]]` / `![[...]]` becomes a Markdown link
+ * relative to the note at `sourceRelativePath` (both docs-relative).
+ * `resolve` maps the wikilink's link path to the docs-relative target.
+ */
+export function wikilinksToMarkdown(
+  content: string,
+  sourceRelativePath: string,
+  resolve: (linkpath: string) => WikilinkTarget
+): LinkRewriteResult {
+  const unresolved: UnresolvedLinkInfo[] = [];
+  const sourceDir = path.posix.dirname(toPosix(sourceRelativePath));
+
+  const rewritten = transformProse(content, (text) =>
+    text.replace(WIKILINK_RE, (match: string, bang: string, inner: string) => {
+      const pipe = inner.indexOf("|");
+      const target = pipe === -1 ? inner : inner.slice(0, pipe);
+      const alias = pipe === -1 ? undefined : inner.slice(pipe + 1);
+      const hash = target.indexOf("#");
+      const linkpath = (hash === -1 ? target : target.slice(0, hash)).trim();
+      const fragment = hash === -1 ? undefined : target.slice(hash + 1);
+      const anchor = fragment !== undefined ? `#${encodeHref(fragment)}` : "";
+
+      // [[#Heading]] points into the same note
+      if (linkpath.length === 0) {
+        return `${bang}[${alias ?? fragment ?? ""}](${anchor})`;
+      }
+
+      const resolved = resolve(linkpath);
+      if ("unresolved" in resolved) {
+        unresolved.push({ link: match, reason: resolved.unresolved });
+        return match;
+      }
+
+      const href = encodeHref(relativeHref(sourceDir, resolved.relativePath)) + anchor;
+      const label = alias ?? (bang ? path.posix.basename(linkpath) : target);
+      return `${bang}[${label}](${href})`;
+    })
+  );
+
+  return { content: rewritten, unresolved };
+}
+
+/**
+ * Repo → Obsidian: every relative Markdown link to a file inside the docs tree
+ * becomes a wikilink. `toLinktext` returns the link text Obsidian would use for
+ * a docs-relative target (no `.md` for notes), or undefined when it does not exist.
+ */
+export function markdownToWikilinks(
+  content: string,
+  sourceRelativePath: string,
+  toLinktext: (targetRelativePath: string) => string | undefined
+): LinkRewriteResult {
+  const unresolved: UnresolvedLinkInfo[] = [];
+  const sourceDir = path.posix.dirname(toPosix(sourceRelativePath));
+
+  const rewritten = transformProse(content, (text) =>
+    text.replace(MARKDOWN_LINK_RE, (match: string, bang: string, label: string, rawHref: string) => {
+      const href = rawHref.startsWith("<") ? rawHref.slice(1, -1) : rawHref;
+      if (EXTERNAL_HREF_RE.test(href)) {
+        return match;
+      }
+
+      const hash = href.indexOf("#");
+      const hrefPath = decodeHref(hash === -1 ? href : href.slice(0, hash));
+      const fragment = hash === -1 ? undefined : decodeHref(href.slice(hash + 1));
+
+      // (#Heading) points into the same note
+      if (hrefPath.length === 0) {
+        const inner = `#${fragment ?? ""}`;
+        return label && label !== fragment ? `${bang}[[${inner}|${label}]]` : `${bang}[[${inner}]]`;
+      }
+
+      const targetRelativePath = path.posix.normalize(path.posix.join(sourceDir, hrefPath));
+      if (targetRelativePath === ".." || targetRelativePath.startsWith("../")) {
+        unresolved.push({ link: match, reason: "points outside the synced folder" });
+        return match;
+      }
+
+      const linktext = toLinktext(targetRelativePath);
+      if (linktext === undefined) {
+        unresolved.push({ link: match, reason: "target does not exist" });
+        return match;
+      }
+
+      const inner = fragment !== undefined ? `${linktext}#${fragment}` : linktext;
+      const basename = path.posix.basename(targetRelativePath);
+      const defaultLabels = bang
+        ? ["", basename, linktext]
+        : [inner, linktext, basename.replace(/\.md$/i, "")];
+      return defaultLabels.includes(label) ? `${bang}[[${inner}]]` : `${bang}[[${inner}|${label}]]`;
+    })
+  );
+
+  return { content: rewritten, unresolved };
+}
+
+/**
+ * Apply `rewrite` to the prose of a Markdown document only: frontmatter,
+ * fenced code blocks and inline code spans are passed through untouched.
+ */
+function transformProse(content: string, rewrite: (text: string) => string): string {
+  const lines = content.split("\n");
+  const out: string[] = [];
+  let i = 0;
+
+  // Frontmatter: links there are properties, not prose
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === "---");
+    if (end !== -1) {
+      out.push(...lines.slice(0, end + 1));
+      i = end + 1;
+    }
+  }
+
+  let fence: string | null = null;
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = FENCE_RE.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      out.push(line);
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      out.push(line);
+      continue;
+    }
+    out.push(rewriteOutsideInlineCode(line, rewrite));
+  }
+
+  return out.join("\n");
+}
+
+function rewriteOutsideInlineCode(line: string, rewrite: (text: string) => string): string {
+  let result = "";
+  let last = 0;
+  const codeSpans = new RegExp(INLINE_CODE_RE.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = codeSpans.exec(line)) !== null) {
+    result += rewrite(line.slice(last, match.index)) + match[0];
+    last = match.index + match[0].length;
+  }
+  return result + rewrite(line.slice(last));
+}
+
+function relativeHref(sourceDir: string, targetRelativePath: string): string {
+  const from = sourceDir === "." ? "/" : `/${sourceDir}`;
+  return path.posix.relative(from, `/${toPosix(targetRelativePath)}`);
+}
+
+function encodeHref(value: string): string {
+  return value.replace(UNSAFE_HREF_CHARS, (ch) => encodeURIComponent(ch));
+}
+
+function decodeHref(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, "/");
+}
@@ -15,6 +15,8 @@ export interface LogEntry {
   success: boolean;
   error?: string;
   details?: string;
+  /** Branch checked out in the AI project at the time, when it is a git repository */
+  branch?: string;
 }
 
 /**
@@ -55,6 +57,8 @@ interface SerializedLogEntry {
   success: boolean;
   error?: string;
   details?: string;
+  /** Branch checked out in the AI project at the time, when it is a git repository */
+  branch?: string;
 }
 
 /**
@@ -387,6 +391,7 @@ export class SyncLogger {
       "success",
       "error",
       "details",
+      "branch",
     ];
 
     const rows = this.entries.map((e) => [
@@ -400,6 +405,7 @@ export class SyncLogger {
       String(e.success),
       e.error || "",
       e.details || "",
+      e.branch || "",
     ]);
 
     const csvContent = [
@@ -14,17 +14,33 @@ import {
   EVCLocalSyncSettings,
   DEFAULT_SETTINGS,
   EVCLocalSyncSettingTab,
+  type ProjectMapping,
 } from "./settings";
 import { MappingManager } from "./mapping-manager";
-import { SyncEngine, type SyncResult, type GuardSkip } from "./sync-engine";
+import { SyncEngine, type SyncOptions, type SyncResult, type GuardSkip } from "./sync-engine";
+import type { GitOperation } from "./git-status";
 import { SyncLogger, DEFAULT_LOGGER_CONFIG } from "./logger";
 import { FileWatcher, FileChangeEvent } from "./file-watcher";
 import { DryRunModal } from "./ui/modals/dry-run-modal";
 import { LogViewerModal } from "./ui/modals/log-viewer-modal";
 import { ConflictModal } from "./ui/modals/conflict-modal";
+import { ConflictReviewModal } from "./ui/modals/conflict-review-modal";
+import { FileHistoryModal } from "./ui/modals/file-history-modal";
+import { RecentlyDeletedModal } from "./ui/modals/recently-deleted-modal";
+import { showConfirmation } from "./ui/modals/confirmation-modal";
 import { StatusBarItem } from "./ui/status-bar";
 import { RibbonIcon } from "./ui/ribbon-icon";
-import type { ConflictInfo, ResolutionDecision } from "./conflict-resolver";
+import type { ConflictInfo, UserResolution } from "./conflict-resolver";
+import type { DetectedDeletion } from "./sync-state-manager";
+
+/** How often a mapping deferred by a git operation checks whether it is over */
+const GIT_POLL_MS = 2000;
+
+const GIT_OPERATION_LABELS: Record<GitOperation, string> = {
+  "index-lock": "the git command",
+  rebase: "the rebase",
+  merge: "the merge",
+};
 
 /**
  * EVC Local Sync to AI Agent
@@ -41,6 +57,11 @@ export default class EVCLocalSyncPlugin extends Plugin {
   statusBar!: StatusBarItem;
   ribbonIcon!: RibbonIcon;
   private scheduledSyncInterval: number | null = null;
+  private reconcileInterval: number | null = null;
+  /** Mappings deferred by a git operation, and the interval waiting for it to end */
+  private gitWaits: Map<string, number> = new Map();
+  /** The safety stop background runs last notified about, per mapping (see notifySafetyStop) */
+  private notifiedSafetyStops: Map<string, string> = new Map();
 
   async onload(): Promise<void> {
     // Register custom icon
@@ -62,7 +83,8 @@ export default class EVCLocalSyncPlugin extends Plugin {
       : `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
 
     this.syncEngine = new SyncEngine(this.app, this.settings, pluginDir);
-    this.syncEngine.setConflictModalCallback((conflict) => this.showConflictModal(conflict));
+    this.syncEngine.setConflictModalCallback((conflicts) => this.showConflictModal(conflicts));
+    this.syncEngine.setDeletionConfirmCallback((deletions) => this.confirmDeletions(deletions));
 
     // Initialize sync state manager
     await this.syncEngine.init();
@@ -80,7 +102,7 @@ export default class EVCLocalSyncPlugin extends Plugin {
     this.registerCommands();
 
     // Initialize file watcher
-    this.fileWatcher = new FileWatcher(this.app, this.settings);
+    this.fileWatcher = new FileWatcher(this.app, this.settings, this.syncEngine.getOwnWrites());
     this.fileWatcher.onFileChange((events) => void this.handleFileChanges(events));
 
     // Start file watcher if syncMode is "on-change"
@@ -89,11 +111,13 @@ export default class EVCLocalSyncPlugin extends Plugin {
       window.setTimeout(() => {
         this.fileWatcher.start();
       }, 3000);
+      this.startReconcileSync();
     }
 
     // Initialize status bar
     this.statusBar = new StatusBarItem(this);
     this.statusBar.init();
+    this.updatePendingConflictCount();
 
     // Initialize ribbon icon
     this.ribbonIcon = new RibbonIcon(this);
@@ -117,7 +141,7 @@ export default class EVCLocalSyncPlugin extends Plugin {
     if (this.settings.syncOnStartup && this.settings.syncMode !== "manual") {
       // Delay to allow Obsidian to fully load
       window.setTimeout(() => {
-        void this.syncAllProjects();
+        void this.syncAllProjects({ deferConflicts: true }, true);
       }, 2000);
     }
   }
@@ -162,6 +186,8 @@ export default class EVCLocalSyncPlugin extends Plugin {
   onunload(): void {
     // Stop scheduled sync
     this.stopScheduledSync();
+    this.stopReconcileSync();
+    this.stopGitWaits();
 
     // Stop file watcher
     void this.fileWatcher?.stop();
@@ -184,7 +210,7 @@ export default class EVCLocalSyncPlugin extends Plugin {
 
     this.scheduledSyncInterval = window.setInterval(() => {
       console.debug("EVC Sync: Running scheduled sync...");
-      void this.syncAllProjects();
+      void this.syncAllProjects({ deferConflicts: true }, true);
     }, intervalMs);
 
     console.debug(`EVC Sync: Scheduled sync started (every ${this.settings.scheduledIntervalMinutes} minutes)`);
@@ -201,6 +227,73 @@ export default class EVCLocalSyncPlugin extends Plugin {
     }
   }
 
+  /**
+   * Start the periodic full rescan that backs on-change mode
+   */
+  private startReconcileSync(): void {
+    this.stopReconcileSync();
+
+    const intervalMs = this.settings.reconcileIntervalMinutes * 60 * 1000;
+
+    this.reconcileInterval = window.setInterval(() => {
+      void this.reconcileAllMappings();
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the periodic full rescan
+   */
+  private stopReconcileSync(): void {
+    if (this.reconcileInterval) {
+      window.clearInterval(this.reconcileInterval);
+      this.reconcileInterval = null;
+    }
+  }
+
+  /**
+   * Sync the mappings a git operation deferred once it is over, with a full
+   * run (the operation may have touched any file). Manual runs say so; for
+   * background runs the wait is silent.
+   */
+  private waitForGitOperations(results: SyncResult[], notify: boolean): void {
+    for (const result of results) {
+      const operation = result.gitOperation;
+      if (!operation) {
+        continue;
+      }
+      const mapping = result.mapping;
+      if (notify) {
+        new Notice(`EVC Sync: "${mapping.name}" syncs once ${GIT_OPERATION_LABELS[operation]} in its AI project is over`, 5000);
+      }
+      if (this.gitWaits.has(mapping.id)) {
+        continue;
+      }
+
+      const interval = window.setInterval(() => {
+        if (this.syncEngine.getGitOperation(mapping)) {
+          return;
+        }
+        window.clearInterval(interval);
+        this.gitWaits.delete(mapping.id);
+        const current = this.settings.mappings.find((m) => m.id === mapping.id);
+        if (current?.syncEnabled) {
+          void this.runAutoSync(current, () => this.syncEngine.syncMapping(current, { deferConflicts: true }));
+        }
+      }, GIT_POLL_MS);
+      this.gitWaits.set(mapping.id, interval);
+    }
+  }
+
+  /**
+   * Stop waiting for git operations
+   */
+  private stopGitWaits(): void {
+    for (const interval of this.gitWaits.values()) {
+      window.clearInterval(interval);
+    }
+    this.gitWaits.clear();
+  }
+
   /**
    * Load plugin settings from data.json
    */
@@ -238,6 +331,11 @@ export default class EVCLocalSyncPlugin extends Plugin {
     } else {
       this.stopScheduledSync();
     }
+    if (this.settings.syncMode === "on-change") {
+      this.startReconcileSync();
+    } else {
+      this.stopReconcileSync();
+    }
   }
 
   /**
@@ -274,6 +372,34 @@ export default class EVCLocalSyncPlugin extends Plugin {
       },
     });
 
+    // Resolve Pending Conflicts
+    this.addCommand({
+      id: "resolve-pending-conflicts",
+      name: "Resolve pending conflicts",
+      callback: () => void this.resolvePendingConflicts(),
+    });
+
+    // Undo Last Sync
+    this.addCommand({
+      id: "undo-last-sync",
+      name: "Undo last sync",
+      callback: () => void this.undoLastSync(),
+    });
+
+    // File History
+    this.addCommand({
+      id: "show-file-history",
+      name: "Show file history",
+      callback: () => void this.showFileHistory(),
+    });
+
+    // Recently Deleted
+    this.addCommand({
+      id: "show-recently-deleted",
+      name: "Show recently deleted files",
+      callback: () => void this.showRecentlyDeleted(),
+    });
+
     // View Logs
     this.addCommand({
       id: "view-logs",
@@ -338,9 +464,12 @@ export default class EVCLocalSyncPlugin extends Plugin {
   }
 
   /**
-   * Sync all enabled project mappings (FR-021)
+   * Sync all enabled project mappings (FR-021). Scheduled and startup syncs
+   * pass `deferConflicts` so "always-ask" conflicts wait in the pending queue,
+   * and `background` so safety stops and git waits are only notified, never
+   * asked about.
    */
-  async syncAllProjects(): Promise<void> {
+  async syncAllProjects(options: SyncOptions = {}, background = false): Promise<void> {
     const enabledMappings = this.mappingManager.getEnabled();
 
     if (enabledMappings.length === 0) {
@@ -353,7 +482,7 @@ export default class EVCLocalSyncPlugin extends Plugin {
     new Notice(`Syncing ${enabledMappings.length} project(s)...`);
 
     try {
-      const results = await this.syncEngine.syncAll();
+      const results = await this.syncEngine.syncAll(options);
 
       // Log all sync operations
       for (const result of results) {
@@ -362,7 +491,8 @@ export default class EVCLocalSyncPlugin extends Plugin {
             direction: fileResult.direction,
             mappingId: result.mapping.id,
             mappingName: result.mapping.name,
-            file: fileResult.file,
+            branch: result.gitBranch,
+            file: fileResult.renamedFrom ? `${fileResult.renamedFrom} → ${fileResult.file}` : fileResult.file,
             action: fileResult.action,
             success: fileResult.success,
             error: fileResult.error,
@@ -400,11 +530,69 @@ export default class EVCLocalSyncPlugin extends Plugin {
           5000
         );
       }
+
+      this.waitForGitOperations(results, !background);
+      if (background) {
+        for (const result of results) {
+          this.notifySafetyStop(result);
+        }
+      } else {
+        await this.confirmSafetyStops(results);
+      }
     } catch (error) {
       console.error("EVC Sync: Sync failed", error);
       this.statusBar?.setStatus("error", "Sync failed");
       new Notice(`EVC Sync: Sync failed - ${(error as Error).message}`, 5000);
     }
+    this.updatePendingConflictCount();
+  }
+
+  /**
+   * Offer to force the runs that stopped at their mapping's safety limit, one
+   * mapping at a time
+   */
+  private async confirmSafetyStops(results: SyncResult[]): Promise<void> {
+    // The user has now seen these mappings' stops; background runs notify
+    // again about the next one
+    for (const result of results) {
+      this.notifiedSafetyStops.delete(result.mapping.id);
+    }
+
+    for (const stopped of results.filter((r) => r.safetyStop)) {
+      const mapping = stopped.mapping;
+      const confirmed = await showConfirmation(
+        this.app,
+        `${stopped.error ?? ""} Sync "${mapping.name}" anyway?`,
+        "Sync anyway"
+      );
+      if (!confirmed) {
+        continue;
+      }
+
+      this.statusBar?.setStatus("syncing", `Syncing ${mapping.name}...`);
+      const result = await this.syncEngine.syncMapping(mapping, { force: true });
+      for (const fileResult of result.files) {
+        this.logger.log({
+          direction: fileResult.direction,
+          mappingId: result.mapping.id,
+          mappingName: result.mapping.name,
+          branch: result.gitBranch,
+          file: fileResult.renamedFrom ? `${fileResult.renamedFrom} → ${fileResult.file}` : fileResult.file,
+          action: fileResult.action,
+          success: fileResult.success,
+          error: fileResult.error,
+        });
+      }
+      this.reportGuardSkips([result]);
+
+      if (result.success) {
+        this.statusBar?.setStatus("success", `${result.filesCopied} synced`);
+        new Notice(`EVC Sync: Synced ${result.filesCopied} file(s) for "${mapping.name}"`, 5000);
+      } else {
+        this.statusBar?.setStatus("error", "Sync errors");
+        new Notice(`EVC Sync: "${mapping.name}" sync completed with errors. View logs for details.`, 5000);
+      }
+    }
   }
 
   /**
@@ -442,7 +630,8 @@ export default class EVCLocalSyncPlugin extends Plugin {
           direction: fileResult.direction,
           mappingId: result.mapping.id,
           mappingName: result.mapping.name,
-          file: fileResult.file,
+          branch: result.gitBranch,
+          file: fileResult.renamedFrom ? `${fileResult.renamedFrom} → ${fileResult.file}` : fileResult.file,
           action: fileResult.action,
           success: fileResult.success,
           error: fileResult.error,
@@ -466,11 +655,87 @@ export default class EVCLocalSyncPlugin extends Plugin {
           5000
         );
       }
+
+      this.waitForGitOperations([result], true);
+      await this.confirmSafetyStops([result]);
     } catch (error) {
       console.error("EVC Sync: Sync failed", error);
       this.statusBar?.setStatus("error", "Sync failed");
       new Notice(`EVC Sync: Sync failed - ${(error as Error).message}`, 5000);
     }
+    this.updatePendingConflictCount();
+  }
+
+  /**
+   * Put the conflicts background syncs queued to the user, in one review.
+   * Each affected mapping is synced for just those files; one that stopped
+   * being a conflict in the meantime is simply synced.
+   */
+  async resolvePendingConflicts(): Promise<void> {
+    const pending = this.syncEngine.getPendingConflicts();
+    const mappings = this.mappingManager.getEnabled().filter((m) => pending.some((c) => c.mappingId === m.id));
+
+    if (mappings.length === 0) {
+      new Notice("No pending conflicts");
+      return;
+    }
+
+    this.statusBar?.setStatus("syncing", "Resolving conflicts...");
+
+    let errorCount = 0;
+    for (const mapping of mappings) {
+      try {
+        const result = await this.syncEngine.syncPendingConflicts(mapping);
+
+        // Log all sync operations
+        for (const fileResult of result.files) {
+          this.logger.log({
+            direction: fileResult.direction,
+            mappingId: result.mapping.id,
+            mappingName: result.mapping.name,
+            branch: result.gitBranch,
+            file: fileResult.renamedFrom ? `${fileResult.renamedFrom} → ${fileResult.file}` : fileResult.file,
+            action: fileResult.action,
+            success: fileResult.success,
+            error: fileResult.error,
+          });
+        }
+        this.reportGuardSkips([result]);
+        this.waitForGitOperations([result], true);
+        errorCount += result.errors.length;
+      } catch (error) {
+        console.error(`EVC Sync: Resolving conflicts failed for "${mapping.name}"`, error);
+        errorCount++;
+      }
+    }
+
+    this.updatePendingConflictCount();
+    const left = this.getPendingConflictCount();
+    if (errorCount > 0) {
+      this.statusBar?.setStatus("error", `${errorCount} errors`);
+      new Notice(`EVC Sync: Resolving conflicts completed with ${errorCount} error(s). View logs for details.`, 5000);
+    } else {
+      this.statusBar?.setStatus("success", "Conflicts resolved");
+      new Notice(
+        left > 0 ? `EVC Sync: ${left} conflict(s) are still pending` : "EVC Sync: No conflicts left",
+        5000
+      );
+    }
+  }
+
+  /**
+   * Pending conflicts of the enabled mappings
+   */
+  getPendingConflictCount(): number {
+    const enabled = new Set(this.mappingManager.getEnabled().map((m) => m.id));
+    return this.syncEngine.getPendingConflicts().filter((c) => enabled.has(c.mappingId)).length;
+  }
+
+  /**
+   * Show the pending conflict count in the status bar
+   */
+  private updatePendingConflictCount(): void {
+    this.statusBar?.setPendingConflicts(this.getPendingConflictCount());
   }
 
   /**
@@ -514,20 +779,155 @@ export default class EVCLocalSyncPlugin extends Plugin {
   }
 
   /**
-   * Show conflict modal and wait for user decision (FR-013)
+   * Revert the last sync run that changed files, after confirmation. Files
+   * edited since are left alone and listed in the notice.
+   */
+  async undoLastSync(): Promise<void> {
+    const last = this.syncEngine.getLastRun();
+    if (!last) {
+      new Notice("Nothing to undo");
+      return;
+    }
+
+    const confirmed = await showConfirmation(
+      this.app,
+      `Undo the sync of "${last.mappingName}" from ${new Date(last.startedAt).toLocaleString()}? ` +
+        `Its ${last.entries.length} file change(s) will be reverted in both locations. ` +
+        "Files edited since then are left as they are.",
+      "Undo sync"
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      const result = await this.syncEngine.undoLastRun();
+      if (!result) {
+        new Notice("Nothing to undo");
+        return;
+      }
+
+      for (const fileResult of [...result.reverted, ...result.refused]) {
+        this.logger.log({
+          direction: fileResult.direction,
+          mappingId: result.journal.mappingId,
+          mappingName: result.journal.mappingName,
+          file: fileResult.renamedFrom ? `${fileResult.renamedFrom} → ${fileResult.file}` : fileResult.file,
+          action: fileResult.action,
+          success: fileResult.success,
+          error: fileResult.error,
+          details: "Undo last sync",
+        });
+      }
+
+      if (result.refused.length > 0) {
+        const shown = result.refused.slice(0, 5).map((f) => `• ${f.file}: ${f.error ?? ""}`);
+        if (result.refused.length > shown.length) {
+          shown.push(`…and ${result.refused.length - shown.length} more (see the sync logs)`);
+        }
+        new Notice(
+          `EVC Sync: Reverted ${result.reverted.length} change(s). Left ${result.refused.length} file(s) as they are:\n` +
+            shown.join("\n"),
+          10000
+        );
+      } else {
+        new Notice(`EVC Sync: Reverted ${result.reverted.length} change(s) of "${result.journal.mappingName}"`);
+      }
+    } catch (error) {
+      console.error("EVC Sync: Undo failed", error);
+      new Notice(`EVC Sync: Undo failed - ${(error as Error).message}`, 5000);
+    }
+  }
+
+  /**
+   * Whether a sync run can be undone
+   */
+  canUndoLastSync(): boolean {
+    return this.syncEngine.getLastRun() !== null;
+  }
+
+  /**
+   * List the saved versions of the active file, with preview and restore
    */
-  private showConflictModal(conflict: ConflictInfo): Promise<ResolutionDecision> {
+  async showFileHistory(): Promise<void> {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!activeFile) {
+      new Notice("No active file");
+      return;
+    }
+
+    const located = this.syncEngine.locateVaultFile(activeFile.path);
+    if (!located) {
+      new Notice("No mapping found for current file");
+      return;
+    }
+
+    const { mapping, relativePath } = located;
+    const versions = await this.syncEngine.getFileHistory(mapping.id, relativePath);
+    if (versions.length === 0) {
+      new Notice("No earlier versions of this file");
+      return;
+    }
+
+    new FileHistoryModal(this.app, {
+      filePath: relativePath,
+      versions,
+      readVersion: (entry) => this.syncEngine.readBackup(entry),
+      onRestore: (entry) => this.syncEngine.restoreBackup(mapping, entry),
+    }).open();
+  }
+
+  /**
+   * List the files sync deleted, with restore and purge
+   */
+  async showRecentlyDeleted(): Promise<void> {
+    const entries = await this.syncEngine.getRecentlyDeleted();
+    new RecentlyDeletedModal(this.app, {
+      entries,
+      onRestore: (entry) => this.syncEngine.restoreDeleted(entry),
+      onPurge: (entry) => this.syncEngine.purgeDeleted(entry),
+      onPurgeAll: () => this.syncEngine.emptyRecycleBin(),
+    }).open();
+  }
+
+  /**
+   * Ask the user about a run's conflicts and wait for the answers (FR-013):
+   * the detailed modal for a single file, the review modal for several
+   */
+  private showConflictModal(conflicts: ConflictInfo[]): Promise<UserResolution[]> {
     return new Promise((resolve) => {
-      const modal = new ConflictModal(this.app, {
-        conflict,
-        onResolve: (decision) => {
-          resolve(decision);
-        },
-      });
-      modal.open();
+      if (conflicts.length === 1) {
+        new ConflictModal(this.app, {
+          conflict: conflicts[0],
+          onResolve: (decision, mergedContent) => {
+            resolve([{ decision, mergedContent }]);
+          },
+        }).open();
+        return;
+      }
+      new ConflictReviewModal(this.app, {
+        conflicts,
+        onResolve: resolve,
+      }).open();
     });
   }
 
+  /**
+   * Ask before a run deletes files that were deleted in the other location
+   * (with "Confirm deletions" on). One question per run, so a deleted folder
+   * is reviewed in one step.
+   */
+  private confirmDeletions(deletions: DetectedDeletion[]): Promise<boolean> {
+    const shown = deletions.slice(0, 10).map((d) => d.relativePath).join(", ");
+    const more = deletions.length > 10 ? ` and ${deletions.length - 10} more` : "";
+    return showConfirmation(
+      this.app,
+      `${deletions.length} synced file(s) were deleted in one location: ${shown}${more}. ` +
+        "Delete them in the other location too? If not, they are copied back.",
+      "Delete"
+    );
+  }
+
   /**
    * Handle file changes from FileWatcher (FR-040)
    */
@@ -557,41 +957,86 @@ export default class EVCLocalSyncPlugin extends Plugin {
       const fileNames = mappingEvents.map((e) => e.relativePath).join(", ");
       console.debug(`EVC Sync: Auto-sync triggered for "${mapping.name}" by: ${fileNames}`);
 
-      try {
-        const result = await this.syncEngine.syncMapping(mapping);
+      await this.runAutoSync(mapping, () => this.syncEngine.syncPaths(mapping, mappingEvents, { deferConflicts: true }));
+    }
+  }
 
-        // Log all sync operations
-        for (const fileResult of result.files) {
-          this.logger.log({
-            direction: fileResult.direction,
-            mappingId: result.mapping.id,
-            mappingName: result.mapping.name,
-            file: fileResult.file,
-            action: fileResult.action,
-            success: fileResult.success,
-            error: fileResult.error,
-          });
-        }
+  /**
+   * Full rescan behind the incremental on-change syncs: catches anything the
+   * watcher missed (events dropped while asleep, changes under an excluded
+   * parent that later stopped being excluded, ...). Quiet like any auto-sync.
+   */
+  private async reconcileAllMappings(): Promise<void> {
+    for (const mapping of this.mappingManager.getEnabled()) {
+      console.debug(`EVC Sync: Full rescan of "${mapping.name}"`);
+      await this.runAutoSync(mapping, () => this.syncEngine.syncMapping(mapping, { deferConflicts: true }));
+    }
+  }
 
-        // Guard skips are reported even when auto-sync notifications are off:
-        // that setting suppresses routine "synced N files" chatter, and a file
-        // that stopped syncing is not routine (#4dce529d).
-        this.reportGuardSkips([result]);
+  /**
+   * Notify a background run's safety stop. A run stopped at the safety limit
+   * is never forced in the background; every trigger stops again until the
+   * user syncs manually, so a stop is notified once, and again only when the
+   * changes it counted differ.
+   */
+  private notifySafetyStop(result: SyncResult): void {
+    const mappingId = result.mapping.id;
+    if (!result.safetyStop) {
+      this.notifiedSafetyStops.delete(mappingId);
+      return;
+    }
+    const stop = result.error ?? "";
+    if (this.notifiedSafetyStops.get(mappingId) !== stop) {
+      this.notifiedSafetyStops.set(mappingId, stop);
+      new Notice(`EVC Sync: ${stop} Sync the project manually to review it.`, 10000);
+    }
+  }
 
-        // Show notification only if enabled and files were actually synced
-        if (result.filesCopied > 0 && this.settings.showAutoSyncNotifications) {
-          new Notice(
-            `EVC Sync: Auto-synced ${result.filesCopied} file(s) for "${mapping.name}"`,
-            3000
-          );
-        }
-      } catch (error) {
-        console.error(`EVC Sync: Auto-sync failed for "${mapping.name}"`, error);
+  /**
+   * Run a background sync for one mapping: log every file result, report guard
+   * skips, and notify only if auto-sync notifications are on. "Always-ask"
+   * conflicts are queued (see resolvePendingConflicts), never asked here.
+   */
+  private async runAutoSync(mapping: ProjectMapping, run: () => Promise<SyncResult>): Promise<void> {
+    try {
+      const result = await run();
+
+      // Log all sync operations
+      for (const fileResult of result.files) {
+        this.logger.log({
+          direction: fileResult.direction,
+          mappingId: result.mapping.id,
+          mappingName: result.mapping.name,
+          branch: result.gitBranch,
+          file: fileResult.renamedFrom ? `${fileResult.renamedFrom} → ${fileResult.file}` : fileResult.file,
+          action: fileResult.action,
+          success: fileResult.success,
+          error: fileResult.error,
+        });
+      }
+
+      // Guard skips are reported even when auto-sync notifications are off:
+      // that setting suppresses routine "synced N files" chatter, and a file
+      // that stopped syncing is not routine (#4dce529d).
+      this.reportGuardSkips([result]);
+
+      this.waitForGitOperations([result], false);
+      this.notifySafetyStop(result);
+
+      // Show notification only if enabled and files were actually synced
+      if (result.filesCopied > 0 && this.settings.showAutoSyncNotifications) {
         new Notice(
-          `EVC Sync: Auto-sync failed for "${mapping.name}" - ${(error as Error).message}`,
-          5000
+          `EVC Sync: Auto-synced ${result.filesCopied} file(s) for "${mapping.name}"`,
+          3000
         );
       }
+    } catch (error) {
+      console.error(`EVC Sync: Auto-sync failed for "${mapping.name}"`, error);
+      new Notice(
+        `EVC Sync: Auto-sync failed for "${mapping.name}" - ${(error as Error).message}`,
+        5000
+      );
     }
+    this.updatePendingConflictCount();
   }
 }
@@ -2,6 +2,8 @@ import { App, normalizePath, TFolder, TFile } from "obsidian";
 import type { ProjectMapping, EVCLocalSyncSettings } from "./settings";
 import { expandHome } from "./path-utils";
 import { getVaultBasePath } from "./obsidian-internal";
+import { buildIncludeMatcher, buildMappingIgnoreMatcher, type IgnoreMatcher } from "./ignore-matcher";
+import { getEffectiveExcludePatterns, getEffectiveIncludePatterns } from "./sync-state-manager";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -375,18 +377,23 @@ export class MappingManager {
    * Get full docs path for AI project (or intra-vault source path)
    */
   getAiDocsPath(mapping: ProjectMapping): string {
-    let basePath: string;
-    if (mapping.intraVault) {
-      basePath = path.join(getVaultBasePath(this.app), mapping.aiPath);
-    } else {
-      basePath = expandHome(mapping.aiPath);
-    }
+    const basePath = this.getAiProjectPath(mapping);
     if (mapping.docsSubdir && mapping.docsSubdir.trim().length > 0) {
       return path.join(basePath, mapping.docsSubdir);
     }
     return basePath;
   }
 
+  /**
+   * Get the AI project root (where its .gitignore lives)
+   */
+  private getAiProjectPath(mapping: ProjectMapping): string {
+    if (mapping.intraVault) {
+      return path.join(getVaultBasePath(this.app), mapping.aiPath);
+    }
+    return expandHome(mapping.aiPath);
+  }
+
   /**
    * Get full docs path for Obsidian
    */
@@ -442,10 +449,19 @@ export class MappingManager {
     try {
       const aiDocsPath = this.getAiDocsPath(mapping);
       if (fs.existsSync(aiDocsPath)) {
+        const ignore = buildMappingIgnoreMatcher({
+          patterns: getEffectiveExcludePatterns(mapping, this.settings),
+          projectRoot: this.getAiProjectPath(mapping),
+          docsSubdir: mapping.docsSubdir ?? "",
+          useGitignore: mapping.useGitignore,
+          useSyncIgnore: mapping.useSyncIgnore,
+        });
         aiFileCount = this.countFilesInDirectory(
           aiDocsPath,
+          "",
           this.settings.fileTypes,
-          this.settings.excludePatterns
+          ignore,
+          buildIncludeMatcher(getEffectiveIncludePatterns(mapping))
         );
       }
     } catch {
@@ -477,8 +493,10 @@ export class MappingManager {
    */
   private countFilesInDirectory(
     dirPath: string,
+    relativeDir: string,
     fileTypes: string[],
-    excludePatterns: string[]
+    ignore: IgnoreMatcher,
+    include?: IgnoreMatcher
   ): number {
     let count = 0;
 
@@ -486,8 +504,9 @@ export class MappingManager {
       const entries = fs.readdirSync(dirPath, { withFileTypes: true });
 
       for (const entry of entries) {
-        // Skip excluded patterns
-        if (excludePatterns.some((pattern) => entry.name.includes(pattern))) {
+        // Skip excluded paths (same rules as the sync engine)
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (ignore.ignores(relativePath, entry.isDirectory())) {
           continue;
         }
 
@@ -496,11 +515,16 @@ export class MappingManager {
         if (entry.isDirectory()) {
           count += this.countFilesInDirectory(
             entryPath,
+            relativePath,
             fileTypes,
-            excludePatterns
+            ignore,
+            include
           );
         } else if (entry.isFile()) {
-          if (fileTypes.some((ext) => entry.name.endsWith(ext))) {
+          if (
+            fileTypes.some((ext) => entry.name.endsWith(ext)) &&
+            (!include || include.matches(relativePath))
+          ) {
             count++;
           }
         }
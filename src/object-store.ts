@@ -0,0 +1,109 @@
+import * as fsPromises from "fs/promises";
+import * as path from "path";
+import * as crypto from "crypto";
+import { writeFileAtomic } from "./atomic-write";
+
+/**
+ * Content-addressed store of file bodies under the plugin data directory.
+ *
+ * Each object is stored once, at `<root>/<first 2 hex>/<rest of hash>`, keyed by
+ * the same MD5 that SyncFileState.hash records — so a sync-state entry is also a
+ * pointer to the exact bytes the file had at that sync. Identical files across
+ * mappings (or across renames) share one object.
+ *
+ * The store never decides what is live; the owner passes the set of referenced
+ * hashes to gc(). Everything else is unreferenced and removed.
+ */
+export class ObjectStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  /**
+   * Hash used as the object key (MD5 hex, same as SyncStateManager.hashFile)
+   */
+  static hash(content: Buffer | string): string {
+    return crypto.createHash("md5").update(content).digest("hex");
+  }
+
+  /**
+   * Store content and return its hash. A no-op when the object already exists;
+   * objects are written atomically, so one that exists is complete.
+   */
+  async put(content: Buffer | string): Promise<string> {
+    const hash = ObjectStore.hash(content);
+    const objectPath = this.getObjectPath(hash);
+
+    try {
+      await fsPromises.access(objectPath);
+      return hash;
+    } catch {
+      // Not stored yet
+    }
+
+    await fsPromises.mkdir(path.dirname(objectPath), { recursive: true });
+    await writeFileAtomic(objectPath, content);
+    return hash;
+  }
+
+  /**
+   * Read an object's bytes, or undefined if it is not in the store.
+   */
+  async get(hash: string): Promise<Buffer | undefined> {
+    try {
+      return await fsPromises.readFile(this.getObjectPath(hash));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove every object whose hash is not in `liveHashes`.
+   * Returns the number of objects removed.
+   */
+  async gc(liveHashes: Set<string>): Promise<number> {
+    let removed = 0;
+    let buckets: string[];
+    try {
+      buckets = await fsPromises.readdir(this.root);
+    } catch {
+      return 0;
+    }
+
+    for (const bucket of buckets) {
+      const bucketPath = path.join(this.root, bucket);
+      let names: string[];
+      try {
+        names = await fsPromises.readdir(bucketPath);
+      } catch {
+        continue;
+      }
+
+      let remaining = names.length;
+      for (const name of names) {
+        if (liveHashes.has(bucket + name)) {
+          continue;
+        }
+        try {
+          await fsPromises.rm(path.join(bucketPath, name), { force: true });
+          removed++;
+          remaining--;
+        } catch {
+          // Leave it for the next pass
+        }
+      }
+
+      if (remaining === 0) {
+        await fsPromises.rmdir(bucketPath).catch(() => undefined);
+      }
+    }
+
+    return removed;
+  }
+
+  private getObjectPath(hash: string): string {
+    return path.join(this.root, hash.slice(0, 2), hash.slice(2));
+  }
+}
@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ObjectStore } from "./object-store";
+
+/**
+ * How long a write is remembered. Long enough to outlast the watcher's write
+ * settling, polling and debounce; a user edit within that time still gets
+ * through, because its content differs from what was written.
+ */
+const OWN_WRITE_TTL_MS = 60_000;
+
+interface OwnWrite {
+  /** Hash of the file as the sync left it, null when the sync removed it */
+  hash: string | null;
+  time: number;
+}
+
+/**
+ * Files the sync engine just wrote, renamed or removed, so the file watcher
+ * can drop the events those writes cause instead of syncing the mapping again.
+ *
+ * An event is only dropped while the file still has the content the sync left
+ * (or is still gone), so a user edit in between is never lost.
+ */
+export class OwnWriteRegistry {
+  private writes: Map<string, OwnWrite> = new Map();
+
+  /**
+   * Remember a file as the sync left it (call right after writing it)
+   */
+  register(absolutePath: string, now = Date.now()): void {
+    this.prune(now);
+    this.writes.set(this.key(absolutePath), { hash: hashFile(absolutePath), time: now });
+  }
+
+  /**
+   * Whether the file is exactly as a recent sync left it
+   */
+  isOwnWrite(absolutePath: string, now = Date.now()): boolean {
+    const write = this.writes.get(this.key(absolutePath));
+    if (!write || now - write.time > OWN_WRITE_TTL_MS) {
+      return false;
+    }
+    return hashFile(absolutePath) === write.hash;
+  }
+
+  /**
+   * Forget writes older than the TTL
+   */
+  private prune(now: number): void {
+    for (const [key, write] of this.writes) {
+      if (now - write.time > OWN_WRITE_TTL_MS) {
+        this.writes.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Comparable form of a path (the watcher and the engine build vault paths
+   * with different folder casing on case-insensitive platforms)
+   */
+  private key(absolutePath: string): string {
+    const resolved = path.resolve(absolutePath);
+    if (process.platform === "darwin" || process.platform === "win32") {
+      return resolved.toLowerCase();
+    }
+    return resolved;
+  }
+}
+
+/**
+ * Hash of a file's content, or null when it does not exist
+ */
+function hashFile(absolutePath: string): string | null {
+  try {
+    return ObjectStore.hash(fs.readFileSync(absolutePath));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,217 @@
+import * as fsPromises from "fs/promises";
+import * as path from "path";
+import * as crypto from "crypto";
+import { ObjectStore } from "./object-store";
+import { writeFileAtomic } from "./atomic-write";
+
+/**
+ * One file a sync deleted, as it was just before
+ */
+export interface DeletedFile {
+  id: string;
+  mappingId: string;
+  /** Name of the mapping at the time, shown after the mapping is gone */
+  mappingName: string;
+  /** Relative path within the docs folder */
+  relativePath: string;
+  /** The side the sync deleted this copy from */
+  side: "ai" | "obsidian";
+  /** Key of the saved bytes in the object store */
+  hash: string;
+  /** Size in bytes */
+  size: number;
+  /** When the file was deleted (ms) */
+  deletedAt: number;
+}
+
+interface RecycleBinIndex {
+  entries: DeletedFile[];
+  version: number;
+}
+
+const INDEX_FILE = "index.json";
+const OBJECTS_DIR = "objects";
+const CURRENT_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Files sync deleted on either side, kept in the plugin data folder until
+ * they are restored, purged or older than the retention period.
+ *
+ * Unlike the backup store this does not depend on "Create backups": a
+ * deletion synced from Obsidian would otherwise be the only copy of the AI
+ * project file gone for good. Bodies go into an ObjectStore and `index.json`
+ * lists the entries; add() and remove() only change the index in memory and
+ * save() writes it, like BackupStore.
+ *
+ * Runs of different mappings delete files side by side, so add, remove, save
+ * and clear run one at a time: save() removes the bodies no entry uses, and
+ * a body stored by an add() in progress has no entry yet.
+ */
+export class RecycleBin {
+  private root: string;
+  private objectStore: ObjectStore;
+  private entries: DeletedFile[] = [];
+  private loading: Promise<void> | null = null;
+  private dirty = false;
+  /** Entries were removed since the last save, so bodies may be unused */
+  private removed = false;
+  /** The last operation queued (see serialize) */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(root: string) {
+    this.root = root;
+    this.objectStore = new ObjectStore(path.join(root, OBJECTS_DIR));
+  }
+
+  /**
+   * Keep a file sync is about to delete. Returns the new entry.
+   */
+  async add(
+    meta: Pick<DeletedFile, "mappingId" | "mappingName" | "relativePath" | "side">,
+    content: Buffer,
+    now = Date.now()
+  ): Promise<DeletedFile> {
+    return this.serialize(async () => {
+      await this.ensureLoaded();
+      const hash = await this.objectStore.put(content);
+      const entry: DeletedFile = {
+        ...meta,
+        id: `${now.toString(36)}-${crypto.randomBytes(4).toString("hex")}`,
+        hash,
+        size: content.length,
+        deletedAt: now,
+      };
+      this.entries.push(entry);
+      this.dirty = true;
+      return entry;
+    });
+  }
+
+  /**
+   * Every deleted file, most recently deleted first
+   */
+  async list(): Promise<DeletedFile[]> {
+    await this.ensureLoaded();
+    return [...this.entries].sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+
+  /**
+   * The saved bytes of a deleted file, or undefined if they are gone
+   */
+  async read(entry: Pick<DeletedFile, "hash">): Promise<Buffer | undefined> {
+    return this.objectStore.get(entry.hash);
+  }
+
+  /**
+   * Drop an entry (restored or purged). Returns whether it was there.
+   */
+  async remove(id: string): Promise<boolean> {
+    return this.serialize(async () => {
+      await this.ensureLoaded();
+      const count = this.entries.length;
+      this.entries = this.entries.filter((entry) => entry.id !== id);
+      if (this.entries.length === count) {
+        return false;
+      }
+      this.dirty = true;
+      this.removed = true;
+      return true;
+    });
+  }
+
+  /**
+   * Drop entries older than `retentionDays` (0 keeps them until purged), then
+   * write the index and remove bodies no entry uses
+   */
+  async save(retentionDays: number, now = Date.now()): Promise<void> {
+    return this.serialize(() => this.write(retentionDays, now));
+  }
+
+  /**
+   * save() holding the queue
+   */
+  private async write(retentionDays: number, now: number): Promise<void> {
+    await this.ensureLoaded();
+    const minTime = retentionDays > 0 ? now - retentionDays * DAY_MS : -Infinity;
+    const kept = this.entries.filter((entry) => entry.deletedAt >= minTime);
+    if (kept.length !== this.entries.length) {
+      this.entries = kept;
+      this.dirty = true;
+      this.removed = true;
+    }
+    if (!this.dirty) {
+      return;
+    }
+
+    try {
+      await fsPromises.mkdir(this.root, { recursive: true });
+      const index: RecycleBinIndex = { entries: this.entries, version: CURRENT_VERSION };
+      await writeFileAtomic(path.join(this.root, INDEX_FILE), JSON.stringify(index, null, 2));
+      this.dirty = false;
+    } catch (error) {
+      console.error("EVC Sync: Failed to save recycle bin index:", error);
+      return;
+    }
+
+    if (this.removed) {
+      try {
+        await this.objectStore.gc(new Set(this.entries.map((entry) => entry.hash)));
+        this.removed = false;
+      } catch (error) {
+        console.error("EVC Sync: Failed to clean up recycle bin:", error);
+      }
+    }
+  }
+
+  /**
+   * Purge every entry. Returns how many there were.
+   */
+  async clear(): Promise<number> {
+    return this.serialize(async () => {
+      await this.ensureLoaded();
+      const count = this.entries.length;
+      this.entries = [];
+      this.dirty = false;
+      this.removed = false;
+      await fsPromises.rm(path.join(this.root, OBJECTS_DIR), { recursive: true, force: true });
+      await fsPromises.rm(path.join(this.root, INDEX_FILE), { force: true });
+      return count;
+    });
+  }
+
+  /**
+   * Run an operation once every operation queued before it has settled
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.catch(() => undefined).then(operation);
+    this.queue = result;
+    return result;
+  }
+
+  /**
+   * Read the index once, on first use
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const content = await fsPromises.readFile(path.join(this.root, INDEX_FILE), "utf-8");
+      const data = JSON.parse(content) as RecycleBinIndex;
+      if (data.version && data.version <= CURRENT_VERSION && Array.isArray(data.entries)) {
+        this.entries = data.entries;
+      } else {
+        console.warn("EVC Sync: recycle bin index has newer version, ignoring it");
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("EVC Sync: Failed to load recycle bin index:", error);
+      }
+    }
+  }
+}
@@ -20,13 +20,46 @@ export type ConflictResolution =
   | "newer-wins"
   | "always-ask"
   | "ai-wins"
-  | "obsidian-wins";
+  | "obsidian-wins"
+  | "auto-merge"
+  | "keep-both";
 
 /**
  * Sync direction for unidirectional sync
  */
 export type SyncDirection = "ai-to-obs" | "obs-to-ai";
 
+/**
+ * Conflict strategy for the files of a mapping matching `pattern`
+ * (gitignore syntax, relative to the docs folder). A mapping's rules are
+ * tried in order and the first match wins; files no rule matches use the
+ * mapping's (or the global) conflict resolution.
+ */
+export interface ConflictRule {
+  pattern: string;
+  strategy: ConflictResolution;
+}
+
+/**
+ * One frontmatter rule of a mapping. It applies when a note is copied in
+ * `direction`, and is undone when it is copied back, so a bidirectional sync
+ * round-trips: a stripped key is kept from the other side's copy, a renamed
+ * key gets its old name back, a default that was added is dropped again and
+ * mapped values are mapped back.
+ */
+export interface FrontmatterRule {
+  /**
+   * strip: drop `key`; rename: `key` becomes `to`; default: add `key: value`
+   * when missing; map: translate the value of `key` through `values`
+   */
+  action: "strip" | "rename" | "default" | "map";
+  direction: SyncDirection;
+  key: string;
+  to?: string;
+  value?: string;
+  values?: Record<string, string>;
+}
+
 /**
  * Project mapping configuration
  */
@@ -43,10 +76,26 @@ export interface ProjectMapping {
   // Per-mapping overrides (FR-061, FR-062)
   /** Override global conflict resolution (undefined = use global) */
   conflictResolutionOverride?: ConflictResolution;
+  /** Conflict resolution by path, first match wins (undefined = no rules) */
+  conflictRules?: ConflictRule[];
   /** Override global file types (undefined = use global) */
   fileTypesOverride?: string[];
   /** Override global exclude patterns (undefined = use global) */
   excludePatternsOverride?: string[];
+  /** Only sync files matching one of these patterns (undefined = everything) */
+  includePatternsOverride?: string[];
+  /** Also apply the AI project's .gitignore (read from the project root) */
+  useGitignore?: boolean;
+  /** Also apply a sync-only .evcsyncignore at the AI project root */
+  useSyncIgnore?: boolean;
+  /** Convert wikilinks to relative Markdown links on the way to the AI project, and back */
+  rewriteLinks?: boolean;
+  /** Frontmatter edits applied by the copy path, in order (undefined = copy as is) */
+  frontmatterRules?: FrontmatterRule[];
+  /** Most files one run may delete or overwrite (undefined = default, 0 = no limit) */
+  maxChangedFiles?: number;
+  /** Largest share of the mapping's files, in percent, one run may delete or overwrite (undefined = default, 0 = no limit) */
+  maxChangedPercent?: number;
 
   /**
    * Intra-vault mapping: both source and target are inside the vault.
@@ -57,6 +106,16 @@ export interface ProjectMapping {
   intraVault?: boolean;
 }
 
+/**
+ * How much of a mapping one sync run may delete or overwrite before it stops
+ * and asks to be forced. 0 turns a limit off; a run that finds the AI project
+ * folder empty after files were synced from it stops whatever the limits.
+ */
+export interface SafetyLimit {
+  maxFiles: number;
+  maxPercent: number;
+}
+
 /**
  * Plugin settings structure (FR-020)
  */
@@ -65,19 +124,31 @@ export interface EVCLocalSyncSettings {
   syncMode: SyncMode;
   syncOnStartup: boolean;
   debounceMs: number;
+  /** On-change mode: minutes between full rescans behind the incremental syncs */
+  reconcileIntervalMinutes: number;
   scheduledIntervalMinutes: number;
   conflictResolution: ConflictResolution;
   createBackups: boolean;
+  /** Where backups are kept (absolute path; "" = the plugin's data folder) */
+  backupFolder: string;
+  /** Versions kept per file and side (0 = no limit) */
+  backupMaxVersions: number;
+  /** Days a version is kept (0 = forever) */
+  backupMaxAgeDays: number;
   showAutoSyncNotifications: boolean;
   followSymlinks: boolean;
   fileTypes: string[];
   excludePatterns: string[];
   mappings: ProjectMapping[];
   logRetentionDays: number;
+  /** Days files deleted by sync stay in the recycle bin (0 = until purged) */
+  recycleBinRetentionDays: number;
   /** Enable file deletion sync (FR-060) */
   syncDeletions: boolean;
   /** Confirm before deleting files (FR-060) */
   confirmDeletions: boolean;
+  /** Remove AI project folders left empty by deletions and moves */
+  pruneEmptyAiFolders: boolean;
 }
 
 /**
@@ -88,9 +159,13 @@ export const DEFAULT_SETTINGS: EVCLocalSyncSettings = {
   syncMode: "manual",
   syncOnStartup: false,
   debounceMs: 3000,
+  reconcileIntervalMinutes: 30,
   scheduledIntervalMinutes: 5,
   conflictResolution: "newer-wins",
   createBackups: true,
+  backupFolder: "",
+  backupMaxVersions: 10,
+  backupMaxAgeDays: 30,
   showAutoSyncNotifications: false,
   followSymlinks: false,
   fileTypes: [".md", ".canvas", ".excalidraw.md"],
@@ -102,8 +177,10 @@ export const DEFAULT_SETTINGS: EVCLocalSyncSettings = {
   ],
   mappings: [],
   logRetentionDays: 7,
+  recycleBinRetentionDays: 30,
   syncDeletions: false,
   confirmDeletions: true,
+  pruneEmptyAiFolders: false,
 };
 
 /**
@@ -261,6 +338,25 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
           })
       );
 
+    // Full rescan interval (on-change mode)
+    new Setting(containerEl)
+      .setName("Full rescan interval (minutes)")
+      .setDesc(
+        "In on-change mode only the changed files are synced. A full rescan of every mapping runs this often to catch anything the watcher missed. Minimum: 5 minutes."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(String(this.plugin.settings.reconcileIntervalMinutes))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 5 && numValue <= 1440) {
+              this.plugin.settings.reconcileIntervalMinutes = numValue;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
     // Scheduled Interval
     new Setting(containerEl)
       .setName("Scheduled interval (minutes)")
@@ -290,6 +386,8 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
           .addOption("always-ask", "Always ask")
           .addOption("ai-wins", "AI project wins")
           .addOption("obsidian-wins", "Obsidian wins")
+          .addOption("auto-merge", "Merge both versions")
+          .addOption("keep-both", "Keep both (save a conflict copy)")
           .setValue(this.plugin.settings.conflictResolution)
           .onChange(async (value) => {
             this.plugin.settings.conflictResolution =
@@ -301,7 +399,7 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
     // Create Backups
     new Setting(containerEl)
       .setName("Create backups")
-      .setDesc("Create backup files before overwriting during sync")
+      .setDesc("Keep a copy of each file before sync overwrites or deletes it (see the file history command)")
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.createBackups)
@@ -317,6 +415,59 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
           })
       );
 
+    // Backup Folder
+    new Setting(containerEl)
+      .setName("Backup folder")
+      .setDesc("Absolute path for backups (~ for your home folder). Leave empty to keep them in the plugin's data folder.")
+      .addText((text) =>
+        text
+          .setPlaceholder("~/evc-sync-backups")
+          .setValue(this.plugin.settings.backupFolder)
+          .onChange(async (value) => {
+            const folder = value.trim();
+            // A relative path would resolve against Obsidian's working directory
+            if (folder && !path.isAbsolute(expandHome(folder))) {
+              new Notice("Backup folder must be an absolute path (or start with ~)");
+              return;
+            }
+            this.plugin.settings.backupFolder = folder;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Backup Retention
+    new Setting(containerEl)
+      .setName("Versions to keep")
+      .setDesc("Backups kept per file (0 = no limit)")
+      .addText((text) =>
+        text
+          .setPlaceholder("10")
+          .setValue(String(this.plugin.settings.backupMaxVersions))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0 && numValue <= 1000) {
+              this.plugin.settings.backupMaxVersions = numValue;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Backup retention (days)")
+      .setDesc("Remove backups older than this (0 = keep forever)")
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(String(this.plugin.settings.backupMaxAgeDays))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0 && numValue <= 3650) {
+              this.plugin.settings.backupMaxAgeDays = numValue;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
     // Show Auto-Sync Notifications
     new Setting(containerEl)
       .setName("Show auto-sync notifications")
@@ -371,6 +522,21 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
           })
       );
 
+    // Prune empty AI folders
+    new Setting(containerEl)
+      .setName("Remove empty folders in the AI project")
+      .setDesc(
+        "When sync deletes or moves the last file out of a folder in the AI project, remove the folder too, and don't create empty folders there. Git does not track empty folders anyway."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.pruneEmptyAiFolders)
+          .onChange(async (value) => {
+            this.plugin.settings.pruneEmptyAiFolders = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // Log Retention
     new Setting(containerEl)
       .setName("Log retention (days)")
@@ -387,6 +553,23 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
             }
           })
       );
+
+    // Recycle Bin Retention
+    new Setting(containerEl)
+      .setName("Recycle bin retention (days)")
+      .setDesc("How long to keep files deleted by sync for restoring (0 keeps them until purged)")
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(String(this.plugin.settings.recycleBinRetentionDays))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0 && numValue <= 3650) {
+              this.plugin.settings.recycleBinRetentionDays = numValue;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
   }
 
   /**
@@ -416,7 +599,7 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
     new Setting(containerEl)
       .setName("Exclude patterns")
       .setDesc(
-        "Folders/files to exclude from sync (comma-separated, e.g., node_modules, .git)"
+        "Gitignore-style patterns to exclude from sync (comma-separated, e.g., node_modules, drafts/**/*.tmp.md, !keep.md)"
       )
       .addText((text) =>
         text
@@ -566,6 +749,7 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
         ).then(async (confirmed) => {
           if (confirmed) {
             await this.plugin.mappingManager.delete(mapping.id);
+            await this.plugin.syncEngine.clearMappingState(mapping.id);
             this.refreshMappingsTable();
             new Notice(`Mapping "${mapping.name}" deleted`);
           }
@@ -691,14 +875,20 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
         syncMode: this.plugin.settings.syncMode,
         syncOnStartup: this.plugin.settings.syncOnStartup,
         debounceMs: this.plugin.settings.debounceMs,
+        reconcileIntervalMinutes: this.plugin.settings.reconcileIntervalMinutes,
         scheduledIntervalMinutes: this.plugin.settings.scheduledIntervalMinutes,
         conflictResolution: this.plugin.settings.conflictResolution,
         createBackups: this.plugin.settings.createBackups,
+        backupFolder: this.plugin.settings.backupFolder,
+        backupMaxVersions: this.plugin.settings.backupMaxVersions,
+        backupMaxAgeDays: this.plugin.settings.backupMaxAgeDays,
         showAutoSyncNotifications: this.plugin.settings.showAutoSyncNotifications,
         followSymlinks: this.plugin.settings.followSymlinks,
         fileTypes: this.plugin.settings.fileTypes,
         excludePatterns: this.plugin.settings.excludePatterns,
         logRetentionDays: this.plugin.settings.logRetentionDays,
+        recycleBinRetentionDays: this.plugin.settings.recycleBinRetentionDays,
+        pruneEmptyAiFolders: this.plugin.settings.pruneEmptyAiFolders,
       },
       mappings: this.plugin.settings.mappings,
     };
@@ -783,15 +973,16 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
   private offerBackupCleanup(): void {
     void showConfirmation(
       this.app,
-      "Delete existing backup files? This will remove all .backup-* files in synced folders.",
+      "Delete existing backups? This removes every saved version, and any .backup-* files older versions left in synced folders.",
       "Delete backups"
     ).then(async (shouldCleanup) => {
       if (!shouldCleanup) {
         return;
       }
 
-      let deletedCount = 0;
+      let deletedCount = await this.plugin.syncEngine.clearBackups();
 
+      // Older versions saved backups next to the originals
       for (const mapping of this.plugin.settings.mappings) {
         // Clean up Obsidian backups
         const obsPath = mapping.obsidianPath;
@@ -831,7 +1022,7 @@ export class EVCLocalSyncSettingTab extends PluginSettingTab {
         }
       }
 
-      new Notice(`Deleted ${deletedCount} backup file(s)`);
+      new Notice(`Deleted ${deletedCount} backup(s)`);
     });
   }
 }
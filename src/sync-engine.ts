@@ -1,15 +1,43 @@
 import { App, TFile, TFolder, normalizePath } from "obsidian";
 import type { ProjectMapping, EVCLocalSyncSettings } from "./settings";
-import { ConflictResolver, type ConflictInfo, type ResolutionDecision } from "./conflict-resolver";
+import {
+  ConflictResolver,
+  formatConflictRules,
+  getConflictCopyPath,
+  type ConflictInfo,
+  type ResolutionDecision,
+  type UserResolution,
+} from "./conflict-resolver";
 import { getVaultBasePath } from "./obsidian-internal";
 import {
   SyncStateManager,
   getEffectiveConflictResolution,
   getEffectiveFileTypes,
   getEffectiveExcludePatterns,
+  getEffectiveIncludePatterns,
+  getEffectiveSafetyLimit,
+  formatSafetyLimit,
   type DetectedDeletion,
+  type DetectedRename,
+  type FileChange,
+  type MappingSyncState,
+  type PendingConflict,
+  type SyncFileState,
 } from "./sync-state-manager";
 import { expandHome } from "./path-utils";
+import { BackupStore, type BackupEntry, type BackupReason } from "./backup-store";
+import { RecycleBin, type DeletedFile } from "./recycle-bin";
+import { SyncJournal, type JournalEntry, type RunJournal } from "./sync-journal";
+import { ObjectStore } from "./object-store";
+import { writeFileAtomicSync } from "./atomic-write";
+import { OwnWriteRegistry } from "./own-writes";
+import { readGitStatus, type GitOperation } from "./git-status";
+import type { FileChangeEvent } from "./file-watcher";
+import { mergeThreeWay, type MergeResult } from "./three-way-merge";
+import { isBinaryFile, toArrayBuffer } from "./binary-files";
+import { buildIncludeMatcher, buildMappingIgnoreMatcher, type IgnoreMatcher } from "./ignore-matcher";
+import { markdownToWikilinks, wikilinksToMarkdown, type WikilinkTarget } from "./link-rewriter";
+import { applyFrontmatterRules } from "./frontmatter-rules";
 import {
   detectFoldSignature,
   detectOverlappingRoots,
@@ -22,7 +50,7 @@ import * as path from "path";
 /**
  * Sync action types
  */
-export type SyncAction = "copy" | "update" | "skip" | "conflict" | "delete";
+export type SyncAction = "copy" | "update" | "skip" | "conflict" | "delete" | "merge" | "rename";
 
 /**
  * Sync direction
@@ -94,6 +122,22 @@ export interface SyncFileResult {
   direction: SyncDirectionType;
   success: boolean;
   error?: string;
+  /** For "rename": the relative path the file had before */
+  renamedFrom?: string;
+}
+
+/**
+ * A link that ProjectMapping.rewriteLinks could not convert, so the copy kept
+ * it as written: a wikilink to a note that does not exist or lives outside the
+ * mapping, or a Markdown link to a missing file or one outside the docs folder.
+ */
+export interface UnresolvedLink {
+  /** Relative path of the file containing the link */
+  file: string;
+  /** The link as written in the source */
+  link: string;
+  direction: SyncDirectionType;
+  reason: string;
 }
 
 /**
@@ -114,6 +158,8 @@ export interface SyncResult {
    * which is the only kind worth interrupting the user about.
    */
   guardSkips: GuardSkip[];
+  /** Links the mapping's link rewriting had to leave as written */
+  unresolvedLinks: UnresolvedLink[];
   conflicts: ConflictInfo[];
   errors: string[];
   startTime: Date;
@@ -121,6 +167,28 @@ export interface SyncResult {
   duration: number;
   success: boolean;
   error?: string;
+  /** Set when the run stopped at the mapping's safety limit, before writing anything */
+  safetyStop?: SafetyStop;
+  /**
+   * Set when the run was deferred because git was rewriting the AI project
+   * (nothing was synced); sync again once getGitOperation() returns null
+   */
+  gitOperation?: GitOperation;
+  /** Branch checked out in the AI project, when it is a git repository */
+  gitBranch?: string;
+}
+
+/**
+ * Why a run stopped at the mapping's safety limit: the deletions and
+ * overwrites it would have carried out, or an AI project folder that is
+ * empty although the last sync saw files in it
+ */
+export interface SafetyStop {
+  deletions: number;
+  overwrites: number;
+  /** Files of the mapping the share was taken of */
+  trackedFiles: number;
+  emptyTree: boolean;
 }
 
 /**
@@ -133,6 +201,83 @@ export interface PlannedSyncAction {
   sourcePath: string;
   targetPath: string;
   reason: string;
+  /** For a conflict: the mapping's conflict rule that matched, as written in the editor */
+  conflictRule?: string;
+}
+
+/**
+ * A file or folder a dry run left out of scope, and which rule did it
+ */
+export interface FilteredFile {
+  /** Relative path; folders end with "/" */
+  file: string;
+  side: "ai" | "obsidian";
+  reason: string;
+}
+
+/**
+ * Exclude and include rules of a mapping, resolved once per walk
+ */
+interface PathRules {
+  ignore: IgnoreMatcher;
+  /** Absent when the mapping has no include patterns */
+  include?: IgnoreMatcher;
+  /** Path keys of the mapping's conflict copies, left out until renamed */
+  conflictCopies: Set<string>;
+}
+
+/**
+ * Rewrite of a text file crossing to the other side. `existing` is the current
+ * content of the copy being overwritten, when there is one.
+ */
+type TextTransform = (text: string, existing?: string) => string;
+
+/**
+ * What the write helpers of one runSync share: the mapping whose files they
+ * back up before changing them, and the journal of what they changed
+ */
+interface RunContext {
+  mappingId: string;
+  mappingName: string;
+  /** Every file change in order; the hashes they left are added at the end */
+  changes: Array<Omit<JournalEntry, "after">>;
+}
+
+/**
+ * The run waiting behind a mapping's current one. Every trigger that arrives
+ * meanwhile is folded into it, so they all share one follow-up run.
+ */
+interface QueuedRun {
+  mapping: ProjectMapping;
+  /** Union of the requested scopes; null once any trigger asked for a full run */
+  scope: Set<string> | null;
+  options: SyncOptions;
+}
+
+/**
+ * A mapping's run lock: held while a run, or a restore or undo writing to
+ * the mapping, is in progress or scheduled
+ */
+interface RunLock {
+  /** The last run or task scheduled; the next one starts once it settles */
+  tail: Promise<unknown>;
+  /** Runs and tasks scheduled and not finished yet; the lock is released at 0 */
+  pending: number;
+  queued: QueuedRun | null;
+  /** Result of the queued run, handed to every trigger folded into it */
+  queuedResult: Promise<SyncResult> | null;
+}
+
+/**
+ * Outcome of "Undo last sync"
+ */
+export interface UndoResult {
+  /** The run that was undone */
+  journal: RunJournal;
+  /** Files put back as they were before the run */
+  reverted: SyncFileResult[];
+  /** Files left as they are, with the reason in `error` */
+  refused: SyncFileResult[];
 }
 
 /**
@@ -142,6 +287,8 @@ export interface DryRunResult {
   mapping: ProjectMapping;
   plannedActions: PlannedSyncAction[];
   plannedDeletions: DetectedDeletion[];
+  /** Files and folders left out by exclude/include rules, with the reason */
+  filteredFiles: FilteredFile[];
   errors: string[];
 }
 
@@ -157,9 +304,47 @@ const HARDCODED_EXCLUSIONS = [
 ];
 
 /**
- * Callback for showing conflict modal and getting user decision
+ * The safety limit's share only counts from this many deleted or overwritten
+ * files on, so a small mapping can still be reorganised in one run
+ */
+const SAFETY_MIN_FILES = 10;
+
+/**
+ * Callback for asking the user about a run's conflicts, all at once (one
+ * review instead of one modal per file). Returns one choice per conflict, in
+ * the same order.
+ */
+export type ConflictModalCallback = (conflicts: ConflictInfo[]) => Promise<UserResolution[]>;
+
+/**
+ * How a sync run was started
+ */
+export interface SyncOptions {
+  /**
+   * A background run (on-change, scheduled, on startup): "always-ask"
+   * conflicts are queued as pending and their files skipped, instead of
+   * opening the conflict modal in the middle of whatever the user is doing.
+   */
+  deferConflicts?: boolean;
+  /**
+   * Folders the watcher saw deleted as a whole. Once the deletions of their
+   * files are carried out, the emptied copies in the other location go too.
+   */
+  removedFolders?: RemovedFolder[];
+  /**
+   * Carry out the run even past the mapping's safety limit (the user
+   * confirmed it after a run stopped there)
+   */
+  force?: boolean;
+}
+
+/**
+ * A folder deleted as a whole in one location
  */
-export type ConflictModalCallback = (conflict: ConflictInfo) => Promise<ResolutionDecision>;
+export interface RemovedFolder {
+  relativePath: string;
+  deletedFrom: "ai" | "obsidian";
+}
 
 /**
  * Callback for confirming deletions
@@ -176,12 +361,34 @@ export class SyncEngine {
   private conflictModalCallback: ConflictModalCallback | null = null;
   private deletionConfirmCallback: DeletionConfirmCallback | null = null;
   private syncStateManager: SyncStateManager;
+  /**
+   * Mappings that have had a full syncMapping since load, and whether that run
+   * found a shadow-duplicate layout. syncPaths relies on it (see there).
+   */
+  private fullSyncs: Map<string, { shadowed: boolean }> = new Map();
+  private pluginDir: string;
+  /** Versions of files taken before sync overwrote or deleted them */
+  private backupStore: BackupStore;
+  /** What the last runs changed, for "Undo last sync" */
+  private syncJournal: SyncJournal;
+  /** Files sync deleted, for "Recently deleted" */
+  private recycleBin: RecycleBin;
+  /** Mappings with a run in progress (see runExclusive) */
+  private runLocks: Map<string, RunLock> = new Map();
+  /** Snapshot gc in progress; runs wait for it before they start (see collectSnapshots) */
+  private snapshotGc: Promise<void> = Promise.resolve();
+  /** Files runs just wrote, so the watcher can ignore the events they cause */
+  private ownWrites: OwnWriteRegistry = new OwnWriteRegistry();
 
   constructor(app: App, settings: EVCLocalSyncSettings, pluginDir: string) {
     this.app = app;
     this.settings = settings;
+    this.pluginDir = pluginDir;
     this.conflictResolver = new ConflictResolver(app, settings.conflictResolution);
     this.syncStateManager = new SyncStateManager(app, pluginDir);
+    this.backupStore = new BackupStore(this.getBackupRoot());
+    this.syncJournal = new SyncJournal(pluginDir);
+    this.recycleBin = new RecycleBin(path.join(pluginDir, "recycle-bin"));
   }
 
   /**
@@ -189,6 +396,19 @@ export class SyncEngine {
    */
   async init(): Promise<void> {
     await this.syncStateManager.load();
+    await this.syncJournal.load();
+  }
+
+  /**
+   * Forget a deleted mapping's sync state and release its file snapshots
+   */
+  async clearMappingState(mappingId: string): Promise<void> {
+    this.syncStateManager.clearState(mappingId);
+    this.syncJournal.clearMapping(mappingId);
+    this.fullSyncs.delete(mappingId);
+    await this.syncStateManager.save();
+    await this.syncJournal.save();
+    await this.collectSnapshots();
   }
 
   /**
@@ -197,6 +417,10 @@ export class SyncEngine {
   updateSettings(settings: EVCLocalSyncSettings): void {
     this.settings = settings;
     this.conflictResolver.setStrategy(settings.conflictResolution);
+    // A new backup folder starts a store of its own; the old one stays on disk
+    if (this.getBackupRoot() !== this.backupStore.getRoot()) {
+      this.backupStore = new BackupStore(this.getBackupRoot());
+    }
   }
 
   /**
@@ -213,16 +437,31 @@ export class SyncEngine {
     this.deletionConfirmCallback = callback;
   }
 
+  /**
+   * The files this engine just wrote, for the file watcher
+   */
+  getOwnWrites(): OwnWriteRegistry {
+    return this.ownWrites;
+  }
+
+  /**
+   * The git operation in progress in a mapping's AI project, or null when
+   * there is none (or it is not a git repository)
+   */
+  getGitOperation(mapping: ProjectMapping): GitOperation | null {
+    return readGitStatus(this.getAiDocsPath(mapping))?.operation ?? null;
+  }
+
   /**
    * Sync all enabled mappings
    */
-  async syncAll(): Promise<SyncResult[]> {
+  async syncAll(options: SyncOptions = {}): Promise<SyncResult[]> {
     const enabledMappings = this.settings.mappings.filter((m) => m.syncEnabled);
     const results: SyncResult[] = [];
 
     for (const mapping of enabledMappings) {
       try {
-        const result = await this.syncMapping(mapping);
+        const result = await this.syncMapping(mapping, options);
         results.push(result);
       } catch (error) {
         results.push({
@@ -233,6 +472,7 @@ export class SyncEngine {
           filesSkipped: 0,
           filesDeleted: 0,
           guardSkips: [],
+          unresolvedLinks: [],
           conflicts: [],
           errors: [(error as Error).message],
           startTime: new Date(),
@@ -250,18 +490,396 @@ export class SyncEngine {
   /**
    * Sync a specific mapping
    */
-  async syncMapping(mapping: ProjectMapping): Promise<SyncResult> {
+  async syncMapping(mapping: ProjectMapping, options: SyncOptions = {}): Promise<SyncResult> {
+    return this.runExclusive(mapping, null, options);
+  }
+
+  /**
+   * Incremental sync of only the paths named by watcher events.
+   *
+   * A full syncMapping walks both trees, hashes every pair and re-runs shadow
+   * detection; for one edited file in a tree of thousands that is almost all
+   * waste. This stats just the changed relative paths on both sides and runs
+   * them through the same per-file rules.
+   *
+   * Falls back to a full run when the mapping has not had one since load (there
+   * is no shadow-detection verdict to rely on yet), when the last full run
+   * found a shadow-duplicate layout (that guard is a majority vote over the
+   * whole tree and cannot be decided from a handful of paths), when an event
+   * names a path the state does not know (see rename detection), or when a
+   * folder was created or deleted (folders are synced by full runs, see
+   * syncFolders).
+   */
+  async syncPaths(mapping: ProjectMapping, events: FileChangeEvent[], options: SyncOptions = {}): Promise<SyncResult> {
+    const mappingEvents = events.filter((e) => e.mapping.id === mapping.id);
+    const removedFolders: RemovedFolder[] = mappingEvents
+      .filter((e) => e.type === "unlinkDir")
+      .map((e) => ({ relativePath: this.normalizeRelativePath(e.relativePath).replace(/\/+$/, ""), deletedFrom: e.source }))
+      // Never the docs folder itself
+      .filter((folder) => folder.relativePath.length > 0 && folder.relativePath !== ".");
+    const runOptions: SyncOptions = removedFolders.length > 0
+      ? { ...options, removedFolders }
+      : options;
+
+    const fullSync = this.fullSyncs.get(mapping.id);
+    if (!fullSync || fullSync.shadowed) {
+      return this.runExclusive(mapping, null, runOptions);
+    }
+    // A path the state has never seen may be the new name of a renamed or moved
+    // file, and renames can only be paired against the whole tree. (A deleted
+    // path the state does not know has nothing to pair or delete.)
+    const appeared = mappingEvents.filter((e) => e.type === "add" || e.type === "change");
+    if (appeared.some((e) => !this.syncStateManager.hasPath(mapping.id, e.relativePath))) {
+      return this.runExclusive(mapping, null, runOptions);
+    }
+    // Folder events the state already reflects (mostly the folders runs
+    // create and remove themselves) need no run
+    const folderChanged = mappingEvents.some((e) => {
+      const relativePath = this.normalizeRelativePath(e.relativePath).replace(/\/+$/, "");
+      if (e.type === "addDir") {
+        return relativePath.length > 0 && !this.syncStateManager.hasDir(mapping.id, e.source, relativePath);
+      }
+      return e.type === "unlinkDir" && (
+        this.syncStateManager.hasDir(mapping.id, e.source, relativePath) ||
+        this.syncStateManager.getPathsUnder(mapping.id, relativePath).length > 0
+      );
+    });
+    if (folderChanged) {
+      return this.runExclusive(mapping, null, runOptions);
+    }
+
+    const scope = new Set(
+      mappingEvents
+        .filter((e) => e.type !== "addDir" && e.type !== "unlinkDir")
+        .map((e) => this.normalizeRelativePath(e.relativePath))
+    );
+    return this.runExclusive(mapping, scope, runOptions);
+  }
+
+  /**
+   * Conflicts background runs queued, of one mapping or of all of them
+   */
+  getPendingConflicts(mappingId?: string): PendingConflict[] {
+    return this.syncStateManager.getPendingConflicts(mappingId);
+  }
+
+  /**
+   * The mapping a vault file belongs to and its path within the docs folder,
+   * or null when no mapping syncs it
+   */
+  locateVaultFile(vaultPath: string): { mapping: ProjectMapping; relativePath: string } | null {
+    const key = this.normalizePathKey(normalizePath(vaultPath));
+    for (const mapping of this.settings.mappings) {
+      const prefix = this.normalizePathKey(this.getObsidianDocsPath(mapping)) + "/";
+      if (key.startsWith(prefix)) {
+        return { mapping, relativePath: normalizePath(vaultPath).slice(prefix.length) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Saved versions of a file (both sides), newest first
+   */
+  async getFileHistory(mappingId: string, relativePath: string): Promise<BackupEntry[]> {
+    return this.backupStore.list(mappingId, relativePath);
+  }
+
+  /**
+   * The bytes of a saved version, or undefined if they are gone
+   */
+  async readBackup(entry: BackupEntry): Promise<Buffer | undefined> {
+    return this.backupStore.read(entry);
+  }
+
+  /**
+   * Put a saved version back on the side it was taken from. The current copy
+   * is saved first, so a restore can itself be undone from the history. The
+   * next sync carries the restored file to the other side like any edit.
+   */
+  async restoreBackup(mapping: ProjectMapping, entry: BackupEntry): Promise<void> {
+    return this.withRunLock(mapping.id, async () => {
+      const content = await this.backupStore.read(entry);
+      if (!content) {
+        throw new Error("this version is no longer in the backup store");
+      }
+      const run: RunContext = { mappingId: mapping.id, mappingName: mapping.name, changes: [] };
+      await this.writeSideFile(run, mapping, entry.side, entry.relativePath, content, "restore");
+      await this.saveBackups();
+    });
+  }
+
+  /**
+   * The last run that changed files, which "Undo last sync" would revert
+   */
+  getLastRun(): RunJournal | null {
+    return this.syncJournal.getLast();
+  }
+
+  /**
+   * Revert the last run that changed files, on both sides: files it wrote go
+   * back to their backed-up versions, files it created are removed, deleted
+   * ones come back and renames are moved back. A file edited (or created,
+   * deleted, moved) after the run is refused and left as it is. Reverted paths
+   * get their sync-state records from before the run, so the next sync sees
+   * the same changes the undone run saw. Waits for a run of the mapping in
+   * progress, and reverts nothing if a sync finished meanwhile.
+   */
+  async undoLastRun(): Promise<UndoResult | null> {
+    const journal = this.syncJournal.getLast();
+    if (!journal) {
+      return null;
+    }
+    const mapping = this.settings.mappings.find((m) => m.id === journal.mappingId);
+    if (!mapping) {
+      throw new Error(`the mapping "${journal.mappingName}" no longer exists`);
+    }
+
+    return this.withRunLock(mapping.id, () => this.undoRun(journal, mapping));
+  }
+
+  /**
+   * Revert a journaled run (see undoLastRun); called holding its mapping's lock
+   */
+  private async undoRun(journal: RunJournal, mapping: ProjectMapping): Promise<UndoResult> {
+    // A run that finished while this one waited for the lock is the last run now
+    if (this.syncJournal.getLast()?.id !== journal.id) {
+      throw new Error("another sync finished in the meantime, nothing was reverted");
+    }
+
+    const run: RunContext = { mappingId: mapping.id, mappingName: mapping.name, changes: [] };
+    const reverted: SyncFileResult[] = [];
+    const refused: SyncFileResult[] = [];
+    const refusedPaths = new Set<string>();
+
+    // Last change first, so a file written twice ends at its first pre-image
+    for (const entry of [...journal.entries].reverse()) {
+      const direction: SyncDirectionType = entry.side === "obsidian" ? "ai-to-obs" : "obs-to-ai";
+      let reason: string | null;
+      try {
+        reason = await this.undoEntry(run, mapping, entry);
+      } catch (error) {
+        reason = `could not be reverted: ${(error as Error).message}`;
+      }
+
+      if (reason) {
+        refused.push({ file: entry.relativePath, action: "skip", direction, success: false, error: reason });
+        refusedPaths.add(this.normalizePathKey(entry.relativePath));
+        if (entry.renamedFrom !== undefined) {
+          refusedPaths.add(this.normalizePathKey(entry.renamedFrom));
+        }
+      } else if (entry.renamedFrom !== undefined) {
+        reverted.push({ file: entry.renamedFrom, action: "rename", direction, success: true, renamedFrom: entry.relativePath });
+      } else {
+        reverted.push({ file: entry.relativePath, action: entry.existed ? "update" : "delete", direction, success: true });
+      }
+    }
+
+    // A path is back to its pre-run records only when all of it was reverted
+    const revertedPaths = journal.entries
+      .flatMap((entry) => (entry.renamedFrom !== undefined ? [entry.relativePath, entry.renamedFrom] : [entry.relativePath]))
+      .filter((relativePath) => !refusedPaths.has(this.normalizePathKey(relativePath)));
+    const keys = new Set(revertedPaths.map((p) => this.normalizePathKey(p)));
+    const inReverted = (f: SyncFileState) => keys.has(this.normalizePathKey(f.path));
+    this.syncStateManager.restoreStatePaths(
+      mapping.id,
+      revertedPaths,
+      journal.previousState.aiFiles.filter(inReverted),
+      journal.previousState.obsFiles.filter(inReverted)
+    );
+
+    this.syncJournal.remove(journal.id);
+    await this.syncStateManager.save();
+    await this.syncJournal.save();
+    await this.saveBackups();
+
+    return { journal, reverted, refused };
+  }
+
+  /**
+   * Delete every saved version. Returns how many there were.
+   */
+  async clearBackups(): Promise<number> {
+    return this.backupStore.clear();
+  }
+
+  /**
+   * Files sync deleted on either side, most recently deleted first
+   */
+  async getRecentlyDeleted(): Promise<DeletedFile[]> {
+    return this.recycleBin.list();
+  }
+
+  /**
+   * Put a deleted file back on the side sync deleted it from and drop it from
+   * the recycle bin. Refused when its mapping is gone or a file has taken its
+   * place. The next sync carries it to the other side like a new file.
+   */
+  async restoreDeleted(entry: DeletedFile): Promise<void> {
+    const mapping = this.settings.mappings.find((m) => m.id === entry.mappingId);
+    if (!mapping) {
+      throw new Error(`the mapping "${entry.mappingName}" no longer exists`);
+    }
+    return this.withRunLock(mapping.id, async () => {
+      if (fs.existsSync(this.getSidePath(mapping, entry.side, entry.relativePath))) {
+        throw new Error(`a file already exists at ${entry.relativePath}`);
+      }
+      const content = await this.recycleBin.read(entry);
+      if (!content) {
+        throw new Error("this file is no longer in the recycle bin");
+      }
+      const run: RunContext = { mappingId: mapping.id, mappingName: mapping.name, changes: [] };
+      await this.writeSideFile(run, mapping, entry.side, entry.relativePath, content, "restore");
+      await this.recycleBin.remove(entry.id);
+      await this.saveRecycleBin();
+    });
+  }
+
+  /**
+   * Remove one deleted file from the recycle bin for good
+   */
+  async purgeDeleted(entry: DeletedFile): Promise<void> {
+    await this.recycleBin.remove(entry.id);
+    await this.saveRecycleBin();
+  }
+
+  /**
+   * Empty the recycle bin. Returns how many files it held.
+   */
+  async emptyRecycleBin(): Promise<number> {
+    return this.recycleBin.clear();
+  }
+
+  /**
+   * Sync a mapping's pending conflicts, asking the user about the ones that
+   * are still conflicts. Only those paths are synced, unless the mapping has
+   * not had a full run since load (see syncPaths).
+   */
+  async syncPendingConflicts(mapping: ProjectMapping): Promise<SyncResult> {
+    const fullSync = this.fullSyncs.get(mapping.id);
+    if (!fullSync || fullSync.shadowed) {
+      return this.runExclusive(mapping, null, {});
+    }
+    const scope = new Set(
+      this.syncStateManager.getPendingConflicts(mapping.id).map((c) => this.normalizeRelativePath(c.relativePath))
+    );
+    return this.runExclusive(mapping, scope, {});
+  }
+
+  /**
+   * Run a sync under the mapping's run lock. The on-change watcher, the
+   * scheduled interval, the startup timer and the commands can all trigger a
+   * mapping while it is already syncing; overlapping runs would write the same
+   * files twice and save state from a stale view. So runs of one mapping never
+   * overlap: a trigger that arrives mid-run queues one follow-up run, and any
+   * further triggers before it starts are folded into it (their scopes merged,
+   * a full run winning) and get its result. Different mappings still run side
+   * by side. Restores and undo take the same lock, so they never write to a
+   * mapping mid-run either.
+   *
+   * A forced run is never folded: the user confirmed it for the changes they
+   * were shown, not for what other triggers would add to it.
+   */
+  private runExclusive(mapping: ProjectMapping, scope: Set<string> | null, options: SyncOptions): Promise<SyncResult> {
+    const lock = this.runLocks.get(mapping.id);
+    if (!lock || options.force) {
+      return this.withRunLock(mapping.id, () => this.runSync(mapping, scope, options));
+    }
+
+    if (lock.queued && lock.queuedResult) {
+      const queued = lock.queued;
+      // The latest trigger has the latest settings of the mapping
+      queued.mapping = mapping;
+      queued.scope = queued.scope && scope ? new Set([...queued.scope, ...scope]) : null;
+      queued.options = this.mergeSyncOptions(queued.options, options);
+      return lock.queuedResult;
+    }
+
+    const queued: QueuedRun = { mapping, scope, options };
+    lock.queued = queued;
+    lock.queuedResult = this.withRunLock(mapping.id, () => {
+      lock.queued = null;
+      lock.queuedResult = null;
+      return this.runSync(queued.mapping, queued.scope, queued.options);
+    });
+    return lock.queuedResult;
+  }
+
+  /**
+   * Run `task` holding the mapping's run lock, once everything scheduled on
+   * it before has settled. The lock is released when nothing is left behind it.
+   */
+  private withRunLock<T>(mappingId: string, task: () => Promise<T>): Promise<T> {
+    let lock = this.runLocks.get(mappingId);
+    if (!lock) {
+      lock = { tail: Promise.resolve(), pending: 0, queued: null, queuedResult: null };
+      this.runLocks.set(mappingId, lock);
+    }
+    const held = lock;
+    held.pending++;
+    const result = held.tail
+      .catch(() => undefined)
+      .then(() => this.snapshotGc)
+      .then(task)
+      .finally(async () => {
+        held.pending--;
+        if (held.pending === 0 && this.runLocks.get(mappingId) === held) {
+          this.runLocks.delete(mappingId);
+        }
+        await this.collectSnapshots();
+      });
+    held.tail = result;
+    return result;
+  }
+
+  /**
+   * Remove snapshots the sync state no longer references, once no mapping has
+   * a run in progress: a run snapshots files before recording them in the
+   * state, and gc would take those snapshots for garbage. Runs that start
+   * meanwhile wait for it (withRunLock).
+   */
+  private async collectSnapshots(): Promise<void> {
+    if (this.runLocks.size > 0) {
+      return;
+    }
+    this.snapshotGc = this.syncStateManager.collectGarbage();
+    await this.snapshotGc;
+  }
+
+  /**
+   * Sync a mapping. `scope` limits the run to those relative paths (syncPaths);
+   * null means the whole tree (syncMapping).
+   */
+  private async runSync(mapping: ProjectMapping, scope: Set<string> | null, options: SyncOptions): Promise<SyncResult> {
     const startTime = new Date();
     const files: SyncFileResult[] = [];
     const guardSkips: GuardSkip[] = [];
+    const unresolvedLinks: UnresolvedLink[] = [];
     const conflicts: ConflictInfo[] = [];
     const errors: string[] = [];
+    // Paths whose two sides this run made equivalent (possibly not byte-equal,
+    // see rewriteLinks) — recorded as in sync even when their hashes differ
+    const syncedPaths = new Set<string>();
     let filesCopied = 0;
     let filesSkipped = 0;
     let filesDeleted = 0;
+    let safetyStop: SafetyStop | undefined;
+    let gitBranch: string | undefined;
 
     // Get effective settings for this mapping (FR-061, FR-062)
     const effectiveConflictResolution = getEffectiveConflictResolution(mapping, this.settings);
+    this.conflictResolver.setStrategy(effectiveConflictResolution);
+    const run: RunContext = { mappingId: mapping.id, mappingName: mapping.name, changes: [] };
+    // Copied: renames update the records in place during the run
+    const stateBefore = this.syncStateManager.getState(mapping.id);
+    const previousState = {
+      aiFiles: (stateBefore?.aiFiles ?? []).map((f) => ({ ...f })),
+      obsFiles: (stateBefore?.obsFiles ?? []).map((f) => ({ ...f })),
+    };
+    this.conflictResolver.setRules(mapping.conflictRules ?? []);
+    // Which sides an edit to an existing file may be carried to
+    const canWriteObsidian = mapping.bidirectional || mapping.syncDirection !== "obs-to-ai";
+    const canWriteAi = mapping.bidirectional || mapping.syncDirection === "obs-to-ai";
 
     try {
       // Get paths
@@ -273,10 +891,54 @@ export class SyncEngine {
         throw new Error(`AI docs path does not exist: ${aiDocsPath}`);
       }
 
+      // A checkout, rebase or merge rewrites the tree as it goes: sync the tree
+      // it leaves behind, not the one it passes through
+      const git = readGitStatus(aiDocsPath);
+      gitBranch = git?.branch ?? undefined;
+      if (git?.operation) {
+        console.debug(`EVC Sync: "${mapping.name}" deferred, git operation in progress (${git.operation})`);
+        const endTime = new Date();
+        return {
+          mapping,
+          files,
+          filesProcessed: 0,
+          filesCopied: 0,
+          filesSkipped: 0,
+          filesDeleted: 0,
+          guardSkips,
+          unresolvedLinks,
+          conflicts,
+          errors,
+          startTime,
+          endTime,
+          duration: endTime.getTime() - startTime.getTime(),
+          success: true,
+          gitOperation: git.operation,
+          ...(gitBranch ? { gitBranch } : {}),
+        };
+      }
+
+      // Conflict copies renamed or deleted on both sides are no longer excluded
+      if (!scope) {
+        this.syncStateManager.pruneConflictCopies(mapping.id, (relativePath) =>
+          fs.existsSync(path.join(aiDocsPath, relativePath)) ||
+          this.app.vault.getAbstractFileByPath(this.resolveVaultPath(normalizePath(path.posix.join(obsDocsPath, relativePath)))) instanceof TFile
+        );
+      }
+
+      // Text rewrite for a file on its way to the other side (frontmatterRules, rewriteLinks)
+      const textTransform = (relPath: string, direction: SyncDirectionType) =>
+        this.getTextTransform(mapping, relPath, direction, obsDocsPath, aiDocsPath, unresolvedLinks);
+
       // AI-side file list doesn't depend on the Obsidian folder existing, so gather it
       // first — the shadow detection below needs it before deciding whether to create
       // obsDocsPath at all (#3bb939c5).
-      const aiFiles = this.getFileListForMapping(aiDocsPath, mapping);
+      // Folders as the user left them, for syncFolders (full runs only)
+      const aiDirs: string[] = [];
+      const obsDirs: string[] = [];
+      const aiFiles = scope
+        ? this.getFileListForPaths(aiDocsPath, mapping, scope)
+        : this.getFileListForMapping(aiDocsPath, mapping, undefined, aiDirs);
 
       // Shared-docsSubdir shadow guard (#3bb939c5, hardened after verifier DO-NOT-SHIP
       // on the size-only version): docsSubdir is ONE field applied by BOTH
@@ -288,7 +950,8 @@ export class SyncEngine {
       // MAJORITY of the tree, not a size-only check on one file at a time (a single
       // coincidental match — e.g. two unrelated folders both containing a byte-identical
       // boilerplate LICENSE.md — must not silently drop a legitimately new file).
-      const obsShadowSet = await this.detectShadowedRelativePaths(
+      // A scoped run only happens after a full run found no shadowing (syncPaths).
+      const obsShadowSet = scope ? new Set<string>() : await this.detectShadowedRelativePaths(
         aiFiles,
         obsDocsPath,
         mapping.docsSubdir,
@@ -318,10 +981,12 @@ export class SyncEngine {
         await this.ensureObsidianFolder(obsDocsPath);
       }
 
-      const obsFiles = await this.getObsidianFileListForMapping(obsDocsPath, mapping);
+      const obsFiles = scope
+        ? await this.getObsidianFileListForPaths(obsDocsPath, mapping, scope)
+        : await this.getObsidianFileListForMapping(obsDocsPath, mapping, undefined, obsDirs);
 
       // Mirror of obsShadowSet for the obs-to-ai direction.
-      const aiShadowSet = await this.detectShadowedRelativePaths(
+      const aiShadowSet = scope ? new Set<string>() : await this.detectShadowedRelativePaths(
         obsFiles,
         aiDocsPath,
         mapping.docsSubdir,
@@ -338,8 +1003,80 @@ export class SyncEngine {
       const aiFileMap = new Map(aiFiles.map((f) => [this.normalizePathKey(f.relativePath), f]));
       const obsFileMap = new Map(obsFiles.map((f) => [this.normalizePathKey(f.relativePath), f]));
 
+      // Replay renames and moves before anything else: unpaired, a rename is one
+      // deletion plus one new file (and with syncDeletions off the old copy is
+      // left behind). Scoped runs never see one — syncPaths falls back to a full
+      // run for any path the state does not know.
+      const renames = scope
+        ? []
+        : await this.syncStateManager.detectRenames(mapping.id, aiFileMap, obsFileMap, mapping.bidirectional);
+
+      // Stop before anything is written when the run would delete or overwrite
+      // more than the mapping allows (a branch switch, an unmounted drive, a
+      // git clean), unless the user forced it. Pairs classified on the way are
+      // reused below.
+      const changes = new Map<string, FileChange>();
+      if (!options.force) {
+        safetyStop = await this.checkSafetyLimit(
+          mapping, scope, aiFileMap, obsFileMap, renames, changes, canWriteObsidian, canWriteAi
+        ) ?? undefined;
+        if (safetyStop) {
+          throw new Error(this.describeSafetyStop(mapping, safetyStop));
+        }
+      }
+
+      for (const rename of renames) {
+        const toObsidian = rename.applyTo === "obsidian";
+        const direction: SyncDirectionType = toObsidian ? "ai-to-obs" : "obs-to-ai";
+        const shadowSet = toObsidian ? obsShadowSet : aiShadowSet;
+        if (shadowSet.has(this.normalizeRelativePath(rename.to))) {
+          // Left to the per-file guards, which report it as a guard skip
+          continue;
+        }
+
+        try {
+          const moved = toObsidian
+            ? await this.renameObsidianFile(rename, obsDocsPath)
+            : this.renameAiFile(rename, aiDocsPath);
+
+          const targetMap = toObsidian ? obsFileMap : aiFileMap;
+          targetMap.delete(this.normalizePathKey(rename.from));
+          targetMap.set(this.normalizePathKey(rename.to), moved);
+          this.syncStateManager.applyRename(mapping.id, rename.from, rename.to);
+          run.changes.push({
+            side: toObsidian ? "obsidian" : "ai",
+            relativePath: rename.to,
+            renamedFrom: rename.from,
+            existed: false,
+          });
+
+          files.push({
+            file: rename.to,
+            action: "rename",
+            direction,
+            success: true,
+            renamedFrom: rename.from,
+          });
+          filesCopied++;
+        } catch (error) {
+          const errorMsg = `Failed to rename ${rename.from} to ${rename.to}: ${(error as Error).message}`;
+          errors.push(errorMsg);
+          files.push({
+            file: rename.to,
+            action: "rename",
+            direction,
+            success: false,
+            error: errorMsg,
+            renamedFrom: rename.from,
+          });
+        }
+      }
+
       // Handle deletions if enabled (FR-060)
       if (this.settings.syncDeletions) {
+        let deletionsDeclined = false;
+        const scopeKeys = new Set([...(scope ?? [])].map((p) => this.normalizePathKey(p)));
+        // A scoped run only listed its own paths — every other file would look deleted
         const deletions = this.syncStateManager.detectDeletions(
           mapping.id,
           aiFileMap,
@@ -347,7 +1084,7 @@ export class SyncEngine {
           aiDocsPath,
           obsDocsPath,
           mapping.bidirectional
-        );
+        ).filter((d) => !scope || scopeKeys.has(this.normalizePathKey(this.normalizeRelativePath(d.relativePath))));
 
         if (deletions.length > 0) {
           // Confirm deletions if setting is enabled
@@ -356,10 +1093,14 @@ export class SyncEngine {
             shouldDelete = await this.deletionConfirmCallback(deletions);
           }
 
+          deletionsDeclined = !shouldDelete;
           if (shouldDelete) {
             for (const deletion of deletions) {
               try {
-                await this.deleteFile(deletion);
+                await this.deleteFile(run, deletion);
+                if (deletion.existsIn === "ai") {
+                  this.pruneEmptyAiFolders(aiDocsPath, deletion.targetPath);
+                }
                 files.push({
                   file: deletion.relativePath,
                   action: "delete",
@@ -388,18 +1129,86 @@ export class SyncEngine {
             }
           }
         }
+
+        // Folders deleted as a whole: their copies go too, once emptied
+        if (!deletionsDeclined) {
+          for (const folder of options.removedFolders ?? []) {
+            // Deletions in Obsidian only carry over when bidirectional (as above)
+            if (folder.deletedFrom === "obsidian" && !mapping.bidirectional) {
+              continue;
+            }
+            const side = folder.deletedFrom === "ai" ? "obsidian" : "ai";
+            const direction: SyncDirectionType = side === "obsidian" ? "ai-to-obs" : "obs-to-ai";
+            try {
+              if (await this.removeEmptyFolder(mapping, side, folder.relativePath)) {
+                files.push({ file: `${folder.relativePath}/`, action: "delete", direction, success: true });
+              }
+            } catch (error) {
+              const errorMsg = `Failed to delete folder ${folder.relativePath}: ${(error as Error).message}`;
+              errors.push(errorMsg);
+              files.push({ file: `${folder.relativePath}/`, action: "delete", direction, success: false, error: errorMsg });
+            }
+          }
+        }
+      }
+
+      // With "always-ask", classify every file present on both sides first and
+      // put all of the run's conflicts to the user in one review, then carry
+      // out the answers in the loop below. A background run queues them
+      // instead, and so does a skip: either way the conflict is still open.
+      const userChoices = new Map<string, UserResolution>();
+      // Conflict rules can make "always-ask" apply to part of the mapping only
+      const deferring = options.deferConflicts === true;
+      const mayAsk = effectiveConflictResolution === "always-ask" ||
+        (mapping.conflictRules ?? []).some((rule) => rule.strategy === "always-ask");
+      // Conflicts left open: queued for "Resolve pending conflicts"
+      const deferredPaths: string[] = [];
+      if (mayAsk && (this.conflictModalCallback || deferring)) {
+        const asked: ConflictInfo[] = [];
+        for (const [key, aiFile] of aiFileMap) {
+          const obsFile = obsFileMap.get(key);
+          if (!obsFile) {
+            continue;
+          }
+          const change = changes.get(key) ?? await this.classifyChange(mapping.id, aiFile, obsFile);
+          changes.set(key, change);
+          if (change !== "both-changed" || this.conflictResolver.getStrategyFor(aiFile.relativePath) !== "always-ask") {
+            continue;
+          }
+          if (deferring) {
+            deferredPaths.push(aiFile.relativePath);
+          } else {
+            const texts = await this.readConflictTexts(
+              aiFile, obsFile, textTransform(aiFile.relativePath, "obs-to-ai")
+            );
+            asked.push({ ...this.getConflictInfo(aiFile, obsFile), ...texts });
+          }
+        }
+        if (asked.length > 0 && this.conflictModalCallback) {
+          const answers = await this.conflictModalCallback(asked);
+          asked.forEach((conflict, index) => {
+            const answer = answers[index] ?? { decision: "skip" };
+            userChoices.set(this.normalizePathKey(conflict.relativePath), answer);
+            if (answer.decision === "skip") {
+              deferredPaths.push(conflict.relativePath);
+            }
+          });
+        }
       }
 
       // Process files from AI -> Obsidian
-      for (const [, aiFile] of aiFileMap) {
+      for (const [key, aiFile] of aiFileMap) {
         const obsFile = obsFileMap.get(this.normalizePathKey(aiFile.relativePath));
         const relPath = aiFile.relativePath;
 
         if (!obsFile) {
           // File only in AI -> copy to Obsidian
           try {
-            const outcome = await this.copyFileToObsidian(aiFile.absolutePath, obsDocsPath, relPath, aiDocsPath, obsShadowSet);
+            const outcome = await this.copyFileToObsidian(
+              run, aiFile.absolutePath, obsDocsPath, relPath, aiDocsPath, obsShadowSet, textTransform(relPath, "ai-to-obs")
+            );
             if (outcome.written) {
+              syncedPaths.add(relPath);
               files.push({
                 file: relPath,
                 action: "copy",
@@ -435,10 +1244,12 @@ export class SyncEngine {
             });
           }
         } else {
-          // File exists in both - check for conflict
-          const comparison = this.compareFileTimes(aiFile, obsFile);
+          // File exists in both - classify against the last sync by content hash.
+          // Only an edit on BOTH sides is a conflict; a one-sided edit simply
+          // flows to the other side, whatever the mtimes say.
+          const change = changes.get(key) ?? await this.classifyChange(mapping.id, aiFile, obsFile);
 
-          if (comparison === "same") {
+          if (change === "unchanged") {
             // Files are the same, skip
             files.push({
               file: relPath,
@@ -448,38 +1259,80 @@ export class SyncEngine {
             });
             filesSkipped++;
           } else {
-            // Handle conflict
-            const conflictInfo: ConflictInfo = {
-              relativePath: relPath,
-              aiPath: aiFile.absolutePath,
-              obsidianPath: obsFile.absolutePath,
-              aiMtime: new Date(aiFile.mtime),
-              obsidianMtime: new Date(obsFile.mtime),
-              aiSize: aiFile.size,
-              obsidianSize: obsFile.size,
-            };
-            conflicts.push(conflictInfo);
-
-            // Get resolution - use modal callback for "always-ask" strategy
-            // Use per-mapping conflict resolution (FR-061)
-            this.conflictResolver.setStrategy(effectiveConflictResolution);
-            let resolution = this.conflictResolver.resolve(conflictInfo);
-
-            if (effectiveConflictResolution === "always-ask" && this.conflictModalCallback) {
-              const userDecision = await this.conflictModalCallback(conflictInfo);
-              resolution = this.conflictResolver.resolveWithUserChoice(conflictInfo, userDecision);
+            let decision: ResolutionDecision;
+            let manualContent: string | undefined;
+            if (change === "ai-changed") {
+              decision = "use-ai";
+            } else if (change === "obsidian-changed") {
+              decision = "use-obsidian";
+            } else {
+              // Handle conflict
+              const conflictInfo = this.getConflictInfo(aiFile, obsFile);
+              conflicts.push(conflictInfo);
+
+              // Get resolution - the user's answer from the review for "always-ask"
+              // Per-mapping conflict resolution (FR-061) and conflict rules, set above
+              let resolution = this.conflictResolver.resolve(conflictInfo);
+
+              const choice = userChoices.get(key);
+              if (choice) {
+                resolution = this.conflictResolver.resolveWithUserChoice(
+                  conflictInfo, choice.decision, choice.mergedContent
+                );
+              }
+              decision = resolution.decision;
+              manualContent = resolution.mergedContent;
             }
 
-            if (resolution.decision === "use-ai") {
+            if (decision === "keep-both") {
+              const winner = this.getKeepBothWinner(aiFile, obsFile, canWriteObsidian, canWriteAi);
+              const loser = winner === "ai" ? "obsidian" : "ai";
+              const copyPath = getConflictCopyPath(
+                relPath, loser, new Date(), getEffectiveFileTypes(mapping, this.settings)
+              );
               try {
-                const outcome = await this.copyFileToObsidian(aiFile.absolutePath, obsDocsPath, relPath, aiDocsPath, obsShadowSet);
-                if (outcome.written) {
-                  files.push({
-                    file: relPath,
-                    action: "update",
-                    direction: "ai-to-obs",
-                    success: true,
-                  });
+                await this.writeConflictCopies(
+                  run, aiFile, obsFile, loser, copyPath, aiDocsPath, obsDocsPath,
+                  loser === "ai" ? canWriteObsidian : canWriteAi,
+                  textTransform(copyPath, loser === "ai" ? "ai-to-obs" : "obs-to-ai")
+                );
+                this.syncStateManager.addConflictCopy(mapping.id, copyPath);
+                files.push({
+                  file: copyPath,
+                  action: "copy",
+                  direction: loser === "ai" ? "ai-to-obs" : "obs-to-ai",
+                  success: true,
+                });
+                filesCopied++;
+                decision = winner === "ai" ? "use-ai" : "use-obsidian";
+              } catch (error) {
+                // Without the copy, syncing the winner would lose the other version
+                const errorMsg = `Failed to save conflict copy of ${relPath}: ${(error as Error).message}`;
+                errors.push(errorMsg);
+                files.push({
+                  file: copyPath,
+                  action: "copy",
+                  direction: loser === "ai" ? "ai-to-obs" : "obs-to-ai",
+                  success: false,
+                  error: errorMsg,
+                });
+                decision = "skip";
+              }
+            }
+
+            if (decision === "use-ai" && canWriteObsidian) {
+              try {
+                const outcome = await this.copyFileToObsidian(
+                  run, aiFile.absolutePath, obsDocsPath, relPath, aiDocsPath, obsShadowSet, textTransform(relPath, "ai-to-obs")
+                );
+                if (outcome.written) {
+                  syncedPaths.add(relPath);
+                  files.push({
+                    file: relPath,
+                    action: "update",
+                    direction: "ai-to-obs",
+                    success: true,
+                  });
                   filesCopied++;
                 } else {
                   guardSkips.push({
@@ -508,10 +1361,13 @@ export class SyncEngine {
                   error: errorMsg,
                 });
               }
-            } else if (resolution.decision === "use-obsidian" && mapping.bidirectional) {
+            } else if (decision === "use-obsidian" && canWriteAi) {
               try {
-                const outcome = await this.copyFileToAi(obsFile.absolutePath, aiDocsPath, relPath, obsDocsPath, aiShadowSet);
+                const outcome = await this.copyFileToAi(
+                  run, obsFile.absolutePath, aiDocsPath, relPath, obsDocsPath, aiShadowSet, textTransform(relPath, "obs-to-ai")
+                );
                 if (outcome.written) {
+                  syncedPaths.add(relPath);
                   files.push({
                     file: relPath,
                     action: "update",
@@ -546,6 +1402,58 @@ export class SyncEngine {
                   error: errorMsg,
                 });
               }
+            } else if (decision === "merge" && mapping.bidirectional) {
+              // A merge writes BOTH sides, so it is only possible on a bidirectional
+              // mapping; a one-way mapping falls through to skip, same as use-obsidian.
+              try {
+                const merge = await this.mergeConflictingFile(
+                  run, mapping, aiFile, obsFile, textTransform(relPath, "obs-to-ai"), textTransform(relPath, "ai-to-obs")
+                );
+                syncedPaths.add(relPath);
+                files.push({
+                  file: relPath,
+                  action: merge.clean ? "merge" : "conflict",
+                  direction: "ai-to-obs",
+                  success: true,
+                  error: merge.clean
+                    ? undefined
+                    : `merge conflict: ${merge.conflicts} region(s) marked for manual resolution`,
+                });
+                filesCopied++;
+              } catch (error) {
+                const errorMsg = `Failed to merge ${relPath}: ${(error as Error).message}`;
+                errors.push(errorMsg);
+                files.push({
+                  file: relPath,
+                  action: "merge",
+                  direction: "ai-to-obs",
+                  success: false,
+                  error: errorMsg,
+                });
+              }
+            } else if (decision === "manual" && manualContent !== undefined && mapping.bidirectional) {
+              // Hand-picked hunks from the conflict modal, written to both sides
+              try {
+                await this.writeManualMerge(run, aiFile, obsFile, manualContent, textTransform(relPath, "ai-to-obs"));
+                syncedPaths.add(relPath);
+                files.push({
+                  file: relPath,
+                  action: "merge",
+                  direction: "ai-to-obs",
+                  success: true,
+                });
+                filesCopied++;
+              } catch (error) {
+                const errorMsg = `Failed to merge ${relPath}: ${(error as Error).message}`;
+                errors.push(errorMsg);
+                files.push({
+                  file: relPath,
+                  action: "merge",
+                  direction: "ai-to-obs",
+                  success: false,
+                  error: errorMsg,
+                });
+              }
             } else {
               // Skip
               files.push({
@@ -567,8 +1475,11 @@ export class SyncEngine {
           if (!aiFileMap.has(this.normalizePathKey(relPath))) {
             // File only in Obsidian -> copy to AI
             try {
-              const outcome = await this.copyFileToAi(obsFile.absolutePath, aiDocsPath, relPath, obsDocsPath, aiShadowSet);
+              const outcome = await this.copyFileToAi(
+                run, obsFile.absolutePath, aiDocsPath, relPath, obsDocsPath, aiShadowSet, textTransform(relPath, "obs-to-ai")
+              );
               if (outcome.written) {
+                syncedPaths.add(relPath);
                 files.push({
                   file: relPath,
                   action: "copy",
@@ -615,8 +1526,11 @@ export class SyncEngine {
           if (!aiFile) {
             // File only in Obsidian -> copy to AI
             try {
-              const outcome = await this.copyFileToAi(obsFile.absolutePath, aiDocsPath, relPath, obsDocsPath, aiShadowSet);
+              const outcome = await this.copyFileToAi(
+                run, obsFile.absolutePath, aiDocsPath, relPath, obsDocsPath, aiShadowSet, textTransform(relPath, "obs-to-ai")
+              );
               if (outcome.written) {
+                syncedPaths.add(relPath);
                 files.push({
                   file: relPath,
                   action: "copy",
@@ -651,61 +1565,54 @@ export class SyncEngine {
                 error: errorMsg,
               });
             }
-          } else {
-            // File exists in both - check for conflict (Obsidian is source)
-            const comparison = this.compareFileTimes(aiFile, obsFile);
-
-            if (comparison !== "same" && obsFile.mtime > aiFile.mtime) {
-              try {
-                const outcome = await this.copyFileToAi(obsFile.absolutePath, aiDocsPath, relPath, obsDocsPath, aiShadowSet);
-                if (outcome.written) {
-                  files.push({
-                    file: relPath,
-                    action: "update",
-                    direction: "obs-to-ai",
-                    success: true,
-                  });
-                  filesCopied++;
-                } else {
-                  guardSkips.push({
-                    file: relPath,
-                    direction: "obs-to-ai",
-                    guard: outcome.guard,
-                    root: outcome.root,
-                  });
-                  files.push({
-                    file: relPath,
-                    action: "skip",
-                    direction: "obs-to-ai",
-                    success: true,
-                    error: `guard-skipped (${outcome.guard}, root "${outcome.root}")`,
-                  });
-                  filesSkipped++;
-                }
-              } catch (error) {
-                const errorMsg = `Failed to update ${relPath}: ${(error as Error).message}`;
-                errors.push(errorMsg);
-                files.push({
-                  file: relPath,
-                  action: "update",
-                  direction: "obs-to-ai",
-                  success: false,
-                  error: errorMsg,
-                });
-              }
-            }
           }
+          // Files in both are already handled above
         }
       }
 
-      // Update sync state after successful sync (FR-060)
-      if (this.settings.syncDeletions) {
-        const aiStates = await this.syncStateManager.buildFileState(aiFiles);
-        const obsStates = await this.syncStateManager.buildFileState(obsFiles);
-        this.syncStateManager.updateState(mapping.id, aiStates, obsStates);
-        await this.syncStateManager.save();
+      // Folders themselves: created, renamed and deleted ones, empty or not.
+      // Not in a shadow-duplicate layout, where the Obsidian root is suspect.
+      if (!scope && obsShadowSet.size === 0 && aiShadowSet.size === 0) {
+        await this.syncFolders(mapping, stateBefore, { ai: aiDirs, obsidian: obsDirs }, renames, files, errors);
       }
 
+      // Update sync state after successful sync (FR-060). Always recorded, not
+      // only with syncDeletions: the snapshot of each file's synced body is the
+      // ancestor the "merge" resolution diffs against.
+      // Listed again: the state must describe both sides as this run LEFT them —
+      // a file copied across is now on both sides, a deleted one on neither.
+      const syncedAiDirs: string[] = [];
+      const syncedObsDirs: string[] = [];
+      const syncedAiFiles = scope
+        ? this.getFileListForPaths(aiDocsPath, mapping, scope)
+        : this.getFileListForMapping(aiDocsPath, mapping, undefined, syncedAiDirs);
+      const syncedObsFiles = scope
+        ? await this.getObsidianFileListForPaths(obsDocsPath, mapping, scope)
+        : await this.getObsidianFileListForMapping(obsDocsPath, mapping, undefined, syncedObsDirs);
+      const aiStates = await this.syncStateManager.buildFileState(syncedAiFiles);
+      const obsStates = await this.syncStateManager.buildFileState(syncedObsFiles);
+      if (scope) {
+        this.syncStateManager.updateStatePaths(
+          mapping.id,
+          [...scope],
+          aiStates,
+          obsStates,
+          syncedPaths,
+          this.listFoldersAlong(mapping, scope)
+        );
+      } else {
+        this.syncStateManager.updateState(mapping.id, aiStates, obsStates, syncedPaths);
+        this.syncStateManager.updateDirs(mapping.id, syncedAiDirs, syncedObsDirs);
+        this.fullSyncs.set(mapping.id, { shadowed: obsShadowSet.size > 0 || aiShadowSet.size > 0 });
+      }
+      // Conflicts in this run's paths that were resolved, or stopped being
+      // conflicts, leave the queue
+      this.syncStateManager.updatePendingConflicts(mapping.id, scope ? [...scope] : null, deferredPaths);
+      await this.syncStateManager.save();
+      await this.saveBackups();
+      await this.saveRecycleBin();
+      await this.saveJournal(run, mapping, startTime, previousState);
+
       const endTime = new Date();
 
       return {
@@ -716,14 +1623,19 @@ export class SyncEngine {
         filesSkipped,
         filesDeleted,
         guardSkips,
+        unresolvedLinks,
         conflicts,
         errors,
         startTime,
         endTime,
         duration: endTime.getTime() - startTime.getTime(),
         success: errors.length === 0,
+        ...(gitBranch ? { gitBranch } : {}),
       };
     } catch (error) {
+      await this.saveBackups();
+      await this.saveRecycleBin();
+      await this.saveJournal(run, mapping, startTime, previousState);
       const endTime = new Date();
       return {
         mapping,
@@ -733,6 +1645,7 @@ export class SyncEngine {
         filesSkipped,
         filesDeleted,
         guardSkips,
+        unresolvedLinks,
         conflicts,
         errors: [...errors, (error as Error).message],
         startTime,
@@ -740,10 +1653,108 @@ export class SyncEngine {
         duration: endTime.getTime() - startTime.getTime(),
         success: false,
         error: (error as Error).message,
+        ...(safetyStop ? { safetyStop } : {}),
+        ...(gitBranch ? { gitBranch } : {}),
       };
     }
   }
 
+  /**
+   * Whether a run must stop at the mapping's safety limit: the AI project
+   * folder is empty although the last sync saw files in it, or the deletions
+   * and overwrites the run would carry out are over the limit. A rename is a
+   * move, not a deletion; an edit the mapping's direction does not sync, or a
+   * conflict left open, is not an overwrite. Pairs classified here land in
+   * `changes`.
+   */
+  private async checkSafetyLimit(
+    mapping: ProjectMapping,
+    scope: Set<string> | null,
+    aiFileMap: Map<string, FileInfo>,
+    obsFileMap: Map<string, FileInfo>,
+    renames: DetectedRename[],
+    changes: Map<string, FileChange>,
+    canWriteObsidian: boolean,
+    canWriteAi: boolean
+  ): Promise<SafetyStop | null> {
+    const state = this.syncStateManager.getState(mapping.id);
+    const trackedKeys = new Set(
+      [...(state?.aiFiles ?? []), ...(state?.obsFiles ?? [])].map((f) => this.normalizePathKey(f.path))
+    );
+
+    // A scoped run only lists its own paths. This guard applies even with
+    // both limits off: an empty folder is an unmounted drive far more often
+    // than a project emptied on purpose, which a forced run still syncs.
+    if (!scope && aiFileMap.size === 0 && (state?.aiFiles.length ?? 0) > 0) {
+      return { deletions: 0, overwrites: 0, trackedFiles: trackedKeys.size, emptyTree: true };
+    }
+
+    const limit = getEffectiveSafetyLimit(mapping);
+    if (limit.maxFiles <= 0 && limit.maxPercent <= 0) {
+      return null;
+    }
+
+    let deletions = 0;
+    if (this.settings.syncDeletions) {
+      const renamed = new Set(renames.map((r) => this.normalizePathKey(r.from)));
+      const scopeKeys = new Set([...(scope ?? [])].map((p) => this.normalizePathKey(p)));
+      deletions = this.syncStateManager.detectDeletions(
+        mapping.id,
+        aiFileMap,
+        obsFileMap,
+        this.getAiDocsPath(mapping),
+        this.getObsidianDocsPath(mapping),
+        mapping.bidirectional
+      ).filter((d) => {
+        const key = this.normalizePathKey(this.normalizeRelativePath(d.relativePath));
+        return !renamed.has(key) && (!scope || scopeKeys.has(key));
+      }).length;
+    }
+
+    let overwrites = 0;
+    for (const [key, aiFile] of aiFileMap) {
+      const obsFile = obsFileMap.get(key);
+      if (!obsFile) {
+        continue;
+      }
+      const change = await this.classifyChange(mapping.id, aiFile, obsFile);
+      changes.set(key, change);
+      if (change === "ai-changed") {
+        overwrites += canWriteObsidian ? 1 : 0;
+      } else if (change === "obsidian-changed") {
+        overwrites += canWriteAi ? 1 : 0;
+      } else if (change === "both-changed") {
+        // "always-ask" resolves to a skip: those are reviewed or queued
+        const { decision } = this.conflictResolver.resolve(this.getConflictInfo(aiFile, obsFile));
+        const writes = (decision === "use-ai" && canWriteObsidian) ||
+          (decision === "use-obsidian" && canWriteAi) ||
+          (decision === "merge" && mapping.bidirectional) ||
+          decision === "keep-both";
+        overwrites += writes ? 1 : 0;
+      }
+    }
+
+    const changed = deletions + overwrites;
+    const trackedFiles = Math.max(trackedKeys.size, new Set([...aiFileMap.keys(), ...obsFileMap.keys()]).size);
+    const overCount = limit.maxFiles > 0 && changed > limit.maxFiles;
+    const overShare = limit.maxPercent > 0 && changed >= SAFETY_MIN_FILES &&
+      changed * 100 > trackedFiles * limit.maxPercent;
+    return overCount || overShare ? { deletions, overwrites, trackedFiles, emptyTree: false } : null;
+  }
+
+  /**
+   * The error a run stopped at the safety limit reports
+   */
+  private describeSafetyStop(mapping: ProjectMapping, stop: SafetyStop): string {
+    if (stop.emptyTree) {
+      return `The AI project folder of "${mapping.name}" is empty, but ${stop.trackedFiles} file(s) were synced ` +
+        "from it before. Nothing was synced.";
+    }
+    const limit = formatSafetyLimit(getEffectiveSafetyLimit(mapping));
+    return `"${mapping.name}" would delete ${stop.deletions} and overwrite ${stop.overwrites} of ` +
+      `${stop.trackedFiles} file(s), over its safety limit of ${limit}. Nothing was synced.`;
+  }
+
   /**
    * Perform a dry-run for all enabled mappings
    */
@@ -760,6 +1771,7 @@ export class SyncEngine {
           mapping,
           plannedActions: [],
           plannedDeletions: [],
+          filteredFiles: [],
           errors: [(error as Error).message],
         });
       }
@@ -774,7 +1786,10 @@ export class SyncEngine {
   async dryRunMapping(mapping: ProjectMapping): Promise<DryRunResult> {
     const plannedActions: PlannedSyncAction[] = [];
     const plannedDeletions: DetectedDeletion[] = [];
+    const filteredFiles: FilteredFile[] = [];
     const errors: string[] = [];
+    const canWriteObsidian = mapping.bidirectional || mapping.syncDirection !== "obs-to-ai";
+    const canWriteAi = mapping.bidirectional || mapping.syncDirection === "obs-to-ai";
 
     try {
       // Get paths
@@ -784,17 +1799,37 @@ export class SyncEngine {
       // Validate AI path exists
       if (!this.validateAiPath(aiDocsPath)) {
         errors.push(`AI docs path does not exist: ${aiDocsPath}`);
-        return { mapping, plannedActions, plannedDeletions, errors };
+        return { mapping, plannedActions, plannedDeletions, filteredFiles, errors };
       }
 
       // Get file lists from both sides (using per-mapping settings)
-      const aiFiles = this.getFileListForMapping(aiDocsPath, mapping);
-      const obsFiles = await this.getObsidianFileListForMapping(obsDocsPath, mapping);
+      const aiFiles = this.getFileListForMapping(aiDocsPath, mapping, filteredFiles);
+      const obsFiles = await this.getObsidianFileListForMapping(obsDocsPath, mapping, filteredFiles);
 
       // Create lookup maps with case-insensitive keys on macOS/Windows
       const aiFileMap = new Map(aiFiles.map((f) => [this.normalizePathKey(f.relativePath), f]));
       const obsFileMap = new Map(obsFiles.map((f) => [this.normalizePathKey(f.relativePath), f]));
 
+      // Planned renames. Both paths leave the maps so the rename is not also
+      // planned as a deletion plus a copy; edits made along with it are picked
+      // up by the run after it.
+      const renames = await this.syncStateManager.detectRenames(mapping.id, aiFileMap, obsFileMap, mapping.bidirectional);
+      for (const rename of renames) {
+        const toObsidian = rename.applyTo === "obsidian";
+        plannedActions.push({
+          file: rename.to,
+          action: "rename",
+          direction: toObsidian ? "ai-to-obs" : "obs-to-ai",
+          sourcePath: rename.targetPath,
+          targetPath: toObsidian
+            ? path.join(obsDocsPath, rename.to)
+            : path.join(aiDocsPath, rename.to),
+          reason: `Renamed in ${toObsidian ? "AI project" : "Obsidian"} from ${rename.from}`,
+        });
+        (toObsidian ? obsFileMap : aiFileMap).delete(this.normalizePathKey(rename.from));
+        (toObsidian ? aiFileMap : obsFileMap).delete(this.normalizePathKey(rename.to));
+      }
+
       // Detect planned deletions (FR-060)
       if (this.settings.syncDeletions) {
         const deletions = this.syncStateManager.detectDeletions(
@@ -824,26 +1859,37 @@ export class SyncEngine {
             reason: "File exists only in AI project",
           });
         } else {
-          const comparison = this.compareFileTimes(aiFile, obsFile);
+          const change = await this.classifyChange(mapping.id, aiFile, obsFile);
 
-          if (comparison === "ai-newer") {
+          if (change === "ai-changed" && canWriteObsidian) {
             plannedActions.push({
               file: relPath,
               action: "update",
               direction: "ai-to-obs",
               sourcePath: aiFile.absolutePath,
               targetPath: obsFile.absolutePath,
-              reason: "AI version is newer",
+              reason: "Changed in AI project since last sync",
+            });
+          } else if (change === "obsidian-changed" && canWriteAi) {
+            plannedActions.push({
+              file: relPath,
+              action: "update",
+              direction: "obs-to-ai",
+              sourcePath: obsFile.absolutePath,
+              targetPath: aiFile.absolutePath,
+              reason: "Changed in Obsidian since last sync",
             });
-          } else if (comparison === "obs-newer" && !mapping.bidirectional) {
+          } else if (change === "ai-changed" || change === "obsidian-changed") {
             plannedActions.push({
               file: relPath,
               action: "skip",
-              direction: "ai-to-obs",
-              sourcePath: aiFile.absolutePath,
-              targetPath: obsFile.absolutePath,
-              reason: "Obsidian version is newer (unidirectional sync)",
+              direction: change === "ai-changed" ? "ai-to-obs" : "obs-to-ai",
+              sourcePath: change === "ai-changed" ? aiFile.absolutePath : obsFile.absolutePath,
+              targetPath: change === "ai-changed" ? obsFile.absolutePath : aiFile.absolutePath,
+              reason: `Changed in ${change === "ai-changed" ? "AI project" : "Obsidian"} only (unidirectional sync)`,
             });
+          } else if (change === "both-changed") {
+            plannedActions.push(this.planConflict(mapping, aiFile, obsFile, canWriteObsidian, canWriteAi));
           }
         }
       }
@@ -864,28 +1910,98 @@ export class SyncEngine {
               targetPath,
               reason: "File exists only in Obsidian",
             });
-          } else if (mapping.bidirectional) {
-            const comparison = this.compareFileTimes(aiFile, obsFile);
-
-            if (comparison === "obs-newer") {
-              plannedActions.push({
-                file: relPath,
-                action: "update",
-                direction: "obs-to-ai",
-                sourcePath: obsFile.absolutePath,
-                targetPath: aiFile.absolutePath,
-                reason: "Obsidian version is newer",
-              });
-            }
           }
         }
       }
 
-      return { mapping, plannedActions, plannedDeletions, errors };
+      return { mapping, plannedActions, plannedDeletions, filteredFiles, errors };
     } catch (error) {
       errors.push((error as Error).message);
-      return { mapping, plannedActions, plannedDeletions, errors };
+      return { mapping, plannedActions, plannedDeletions, filteredFiles, errors };
+    }
+  }
+
+  /**
+   * Preview how the mapping's conflict strategy would settle a file changed on
+   * both sides. "always-ask" cannot be previewed and shows as a skip.
+   */
+  private planConflict(
+    mapping: ProjectMapping,
+    aiFile: FileInfo,
+    obsFile: FileInfo,
+    canWriteObsidian: boolean,
+    canWriteAi: boolean
+  ): PlannedSyncAction {
+    this.conflictResolver.setStrategy(getEffectiveConflictResolution(mapping, this.settings));
+    this.conflictResolver.setRules(mapping.conflictRules ?? []);
+    const { decision, rule } = this.conflictResolver.resolve(this.getConflictInfo(aiFile, obsFile));
+    const strategy = this.conflictResolver.getStrategyFor(aiFile.relativePath);
+
+    const toObsidian = {
+      file: aiFile.relativePath,
+      direction: "ai-to-obs" as const,
+      sourcePath: aiFile.absolutePath,
+      targetPath: obsFile.absolutePath,
+      conflictRule: rule ? formatConflictRules([rule]) : undefined,
+    };
+
+    if (decision === "use-ai" && canWriteObsidian) {
+      return { ...toObsidian, action: "update", reason: "Changed on both sides, AI version wins" };
+    }
+    if (decision === "use-obsidian" && canWriteAi) {
+      return {
+        ...toObsidian,
+        file: obsFile.relativePath,
+        action: "update",
+        direction: "obs-to-ai",
+        sourcePath: obsFile.absolutePath,
+        targetPath: aiFile.absolutePath,
+        reason: "Changed on both sides, Obsidian version wins",
+      };
+    }
+    if (decision === "merge" && mapping.bidirectional) {
+      return { ...toObsidian, action: "merge", reason: "Changed on both sides, versions will be merged" };
+    }
+    if (decision === "keep-both") {
+      const winner = this.getKeepBothWinner(aiFile, obsFile, canWriteObsidian, canWriteAi);
+      return winner === "ai"
+        ? { ...toObsidian, action: "update", reason: "Changed on both sides, AI version wins, Obsidian version kept as a conflict copy" }
+        : {
+          ...toObsidian,
+          file: obsFile.relativePath,
+          action: "update",
+          direction: "obs-to-ai",
+          sourcePath: obsFile.absolutePath,
+          targetPath: aiFile.absolutePath,
+          reason: "Changed on both sides, Obsidian version wins, AI version kept as a conflict copy",
+        };
     }
+    return {
+      ...toObsidian,
+      action: "skip",
+      reason: strategy === "always-ask"
+        ? "Changed on both sides, you will be asked"
+        : "Changed on both sides, left as is",
+    };
+  }
+
+  /**
+   * Which version "keep-both" syncs: the newer one, except that a one-way
+   * mapping only ever syncs from its source side
+   */
+  private getKeepBothWinner(
+    aiFile: FileInfo,
+    obsFile: FileInfo,
+    canWriteObsidian: boolean,
+    canWriteAi: boolean
+  ): "ai" | "obsidian" {
+    if (!canWriteAi) {
+      return "ai";
+    }
+    if (!canWriteObsidian) {
+      return "obsidian";
+    }
+    return this.conflictResolver.getNewerSource(this.getConflictInfo(aiFile, obsFile));
   }
 
   /**
@@ -955,13 +2071,20 @@ export class SyncEngine {
   }
 
   /**
-   * Get file list from external directory with per-mapping settings (FR-061, FR-062)
+   * Get file list from external directory with per-mapping settings (FR-061, FR-062).
+   * Entries dropped by exclude/include rules are recorded in `filtered` when given,
+   * and the folders walked in `folders`.
    */
-  private getFileListForMapping(dirPath: string, mapping: ProjectMapping): FileInfo[] {
+  private getFileListForMapping(
+    dirPath: string,
+    mapping: ProjectMapping,
+    filtered?: FilteredFile[],
+    folders?: string[]
+  ): FileInfo[] {
     const files: FileInfo[] = [];
     const followSymlinks = this.settings.followSymlinks;
     const fileTypes = getEffectiveFileTypes(mapping, this.settings);
-    const excludePatterns = getEffectiveExcludePatterns(mapping, this.settings);
+    const rules = this.getPathRules(mapping);
     // Anti-recursion guard: never descend into another mapping's AI subtree (#14)
     const otherRoots = this.getOtherMappingAiRoots(mapping);
 
@@ -973,8 +2096,8 @@ export class SyncEngine {
           const entryPath = path.join(currentPath, entry.name);
           const relativePath = path.relative(basePath, entryPath);
 
-          // Check exclusions (per-mapping)
-          if (this.shouldExcludeForMapping(entry.name, excludePatterns)) {
+          // Check built-in exclusions
+          if (this.isAlwaysExcluded(entry.name)) {
             continue;
           }
 
@@ -996,20 +2119,33 @@ export class SyncEngine {
             }
           }
 
+          const normalizedPath = this.normalizeRelativePath(relativePath);
+
           if (isDir) {
+            const reason = this.getFilterReason(rules, normalizedPath, true);
+            if (reason) {
+              filtered?.push({ file: `${normalizedPath}/`, side: "ai", reason });
+              continue;
+            }
             // Anti-recursion (#14): never descend into another mapping's AI
             // subtree — overlapping bidirectional mappings would otherwise
             // swallow each other's output and grow docs/docs/docs nesting.
             if (otherRoots.some((root) => this.isPathInside(entryPath, root))) {
               continue;
             }
+            folders?.push(normalizedPath);
             walkDir(entryPath, basePath);
           } else if (isFile) {
             if (this.shouldIncludeFileForMapping(entry.name, fileTypes)) {
+              const reason = this.getFilterReason(rules, normalizedPath, false);
+              if (reason) {
+                filtered?.push({ file: normalizedPath, side: "ai", reason });
+                continue;
+              }
               try {
                 const stats = fs.statSync(entryPath);
                 files.push({
-                  relativePath: this.normalizeRelativePath(relativePath),
+                  relativePath: normalizedPath,
                   absolutePath: entryPath,
                   mtime: stats.mtimeMs,
                   size: stats.size,
@@ -1029,6 +2165,117 @@ export class SyncEngine {
     return files;
   }
 
+  /**
+   * AI-side FileInfo for just the given relative paths, filtered exactly as
+   * getFileListForMapping filters a full walk. Paths that no longer exist (or
+   * are excluded) are simply absent from the result.
+   */
+  private getFileListForPaths(dirPath: string, mapping: ProjectMapping, relativePaths: Set<string>): FileInfo[] {
+    const files: FileInfo[] = [];
+    const fileTypes = getEffectiveFileTypes(mapping, this.settings);
+    const rules = this.getPathRules(mapping);
+    const otherRoots = this.getOtherMappingAiRoots(mapping);
+
+    for (const relativePath of relativePaths) {
+      if (!this.isRelativePathSyncable(relativePath, fileTypes, rules)) {
+        continue;
+      }
+      const absolutePath = path.join(dirPath, relativePath);
+      if (otherRoots.some((root) => this.isPathInside(absolutePath, root))) {
+        continue;
+      }
+      try {
+        if (fs.lstatSync(absolutePath).isSymbolicLink() && !this.settings.followSymlinks) {
+          continue;
+        }
+        const stats = fs.statSync(absolutePath);
+        if (!stats.isFile()) {
+          continue;
+        }
+        files.push({ relativePath, absolutePath, mtime: stats.mtimeMs, size: stats.size });
+      } catch {
+        // Gone or unreadable
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Obsidian-side counterpart of getFileListForPaths.
+   */
+  private async getObsidianFileListForPaths(
+    obsDocsPath: string,
+    mapping: ProjectMapping,
+    relativePaths: Set<string>
+  ): Promise<FileInfo[]> {
+    const files: FileInfo[] = [];
+    const fileTypes = getEffectiveFileTypes(mapping, this.settings);
+    const rules = this.getPathRules(mapping);
+    const otherRoots = this.getOtherMappingObsRoots(mapping);
+    const vaultBasePath = getVaultBasePath(this.app);
+
+    for (const relativePath of relativePaths) {
+      if (!this.isRelativePathSyncable(relativePath, fileTypes, rules)) {
+        continue;
+      }
+      const vaultPath = normalizePath(path.posix.join(normalizePath(obsDocsPath), relativePath));
+      if (otherRoots.some((root) => this.isPathInside(vaultPath, root))) {
+        continue;
+      }
+      const file = this.app.vault.getAbstractFileByPath(vaultPath);
+      if (!(file instanceof TFile)) {
+        continue;
+      }
+      const stats = await this.app.vault.adapter.stat(file.path);
+      if (stats) {
+        files.push({
+          relativePath,
+          absolutePath: path.join(vaultBasePath, file.path),
+          mtime: stats.mtime,
+          size: stats.size,
+        });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * The per-entry filters of a full walk, applied to a relative path: no
+   * built-in exclusion along it, a synced file type at the end, and no
+   * exclude/include rule dropping it.
+   */
+  private isRelativePathSyncable(relativePath: string, fileTypes: string[], rules: PathRules): boolean {
+    const segments = relativePath.split("/");
+    if (segments.some((segment) => this.isAlwaysExcluded(segment))) {
+      return false;
+    }
+    if (!this.shouldIncludeFileForMapping(segments[segments.length - 1], fileTypes)) {
+      return false;
+    }
+    return this.getFilterReason(rules, relativePath, false) === undefined;
+  }
+
+  /**
+   * Why the mapping's rules drop a path, or undefined when it is kept.
+   * Include patterns only narrow files: folders are always walked, since a
+   * pattern like `specs/**` can match deep inside any of them.
+   */
+  private getFilterReason(rules: PathRules, relativePath: string, isDirectory: boolean): string | undefined {
+    const excludedBy = rules.ignore.explain(relativePath, isDirectory);
+    if (excludedBy) {
+      return `Excluded by ${excludedBy}`;
+    }
+    if (!isDirectory && rules.include && !rules.include.matches(relativePath)) {
+      return "Not matched by any include pattern";
+    }
+    if (!isDirectory && rules.conflictCopies.has(this.normalizePathKey(relativePath))) {
+      return "Conflict copy (rename it to sync it)";
+    }
+    return undefined;
+  }
+
   /**
    * Get file list from Obsidian vault
    */
@@ -1078,13 +2325,20 @@ export class SyncEngine {
   }
 
   /**
-   * Get file list from Obsidian vault with per-mapping settings (FR-061, FR-062)
+   * Get file list from Obsidian vault with per-mapping settings (FR-061, FR-062).
+   * Entries dropped by exclude/include rules are recorded in `filtered` when given,
+   * and the folders walked in `folders`.
    */
-  private async getObsidianFileListForMapping(obsDocsPath: string, mapping: ProjectMapping): Promise<FileInfo[]> {
+  private async getObsidianFileListForMapping(
+    obsDocsPath: string,
+    mapping: ProjectMapping,
+    filtered?: FilteredFile[],
+    folders?: string[]
+  ): Promise<FileInfo[]> {
     const files: FileInfo[] = [];
     const normalizedPath = normalizePath(obsDocsPath);
     const fileTypes = getEffectiveFileTypes(mapping, this.settings);
-    const excludePatterns = getEffectiveExcludePatterns(mapping, this.settings);
+    const rules = this.getPathRules(mapping);
     // Anti-recursion guard: never descend into another mapping's vault subtree (#14)
     const otherRoots = this.getOtherMappingObsRoots(mapping);
 
@@ -1096,21 +2350,32 @@ export class SyncEngine {
 
     const walkFolder = async (currentFolder: TFolder, basePath: string): Promise<void> => {
       for (const child of currentFolder.children) {
-        // Check exclusions (per-mapping)
-        if (this.shouldExcludeForMapping(child.name, excludePatterns)) {
+        // Check built-in exclusions
+        if (this.isAlwaysExcluded(child.name)) {
           continue;
         }
+        const relativePath = this.normalizeRelativePath(child.path.slice(basePath.length).replace(/^\//, ""));
 
         if (child instanceof TFolder) {
+          const reason = this.getFilterReason(rules, relativePath, true);
+          if (reason) {
+            filtered?.push({ file: `${relativePath}/`, side: "obsidian", reason });
+            continue;
+          }
           // Anti-recursion (#14): skip another mapping's vault subtree so
           // overlapping bidirectional mappings can't swallow each other.
           if (otherRoots.some((root) => this.isPathInside(child.path, root))) {
             continue;
           }
+          folders?.push(relativePath);
           await walkFolder(child, basePath);
         } else if (child instanceof TFile) {
           if (this.shouldIncludeFileForMapping(child.name, fileTypes)) {
-            const relativePath = child.path.slice(basePath.length).replace(/^\//, "");
+            const reason = this.getFilterReason(rules, relativePath, false);
+            if (reason) {
+              filtered?.push({ file: relativePath, side: "obsidian", reason });
+              continue;
+            }
             const stats = await this.app.vault.adapter.stat(child.path);
 
             if (stats) {
@@ -1118,7 +2383,7 @@ export class SyncEngine {
               const absolutePath = path.join(vaultBasePath, child.path);
 
               files.push({
-                relativePath: this.normalizeRelativePath(relativePath),
+                relativePath,
                 absolutePath,
                 mtime: stats.mtime,
                 size: stats.size,
@@ -1178,30 +2443,37 @@ export class SyncEngine {
   }
 
   /**
-   * Check if path should be excluded based on per-mapping patterns (FR-062)
+   * Check if a path segment is one of the built-in exclusions, which no
+   * pattern can re-include
    */
-  private shouldExcludeForMapping(pathSegment: string, excludePatterns: string[]): boolean {
-    // Check hardcoded exclusions
-    for (const exclusion of HARDCODED_EXCLUSIONS) {
-      if (pathSegment === exclusion || pathSegment.startsWith(exclusion + "/")) {
-        return true;
-      }
-    }
-
-    // Check config directory (dynamically from vault)
-    const configDir = this.app.vault.configDir;
-    if (pathSegment === configDir || pathSegment.startsWith(configDir + "/")) {
+  private isAlwaysExcluded(pathSegment: string): boolean {
+    if (HARDCODED_EXCLUSIONS.includes(pathSegment)) {
       return true;
     }
+    // Check config directory (dynamically from vault)
+    return pathSegment === this.app.vault.configDir;
+  }
 
-    // Check per-mapping exclusions
-    for (const pattern of excludePatterns) {
-      if (pathSegment === pattern || pathSegment.includes(pattern)) {
-        return true;
-      }
-    }
-
-    return false;
+  /**
+   * The mapping's exclude rules (FR-062) with gitignore semantics, plus the AI
+   * project's .gitignore / .evcsyncignore when the mapping opts in, its
+   * include patterns and its conflict copies. Built per call so edits to those
+   * files apply on the next run.
+   */
+  private getPathRules(mapping: ProjectMapping): PathRules {
+    return {
+      ignore: buildMappingIgnoreMatcher({
+        patterns: getEffectiveExcludePatterns(mapping, this.settings),
+        projectRoot: this.getAiProjectPath(mapping),
+        docsSubdir: mapping.docsSubdir ?? "",
+        useGitignore: mapping.useGitignore,
+        useSyncIgnore: mapping.useSyncIgnore,
+      }),
+      include: buildIncludeMatcher(getEffectiveIncludePatterns(mapping)),
+      conflictCopies: new Set(
+        this.syncStateManager.getConflictCopies(mapping.id).map((p) => this.normalizePathKey(p))
+      ),
+    };
   }
 
   /**
@@ -1232,21 +2504,35 @@ export class SyncEngine {
   }
 
   /**
-   * Compare file modification times
+   * Conflict details of a file changed on both sides
    */
-  private compareFileTimes(aiFile: FileInfo, obsFile: FileInfo): "same" | "ai-newer" | "obs-newer" {
-    // Consider files "same" if mtime difference is less than 1 second
-    const timeDiff = Math.abs(aiFile.mtime - obsFile.mtime);
-
-    if (timeDiff < 1000) {
-      return "same";
-    }
-
-    return aiFile.mtime > obsFile.mtime ? "ai-newer" : "obs-newer";
+  private getConflictInfo(aiFile: FileInfo, obsFile: FileInfo): ConflictInfo {
+    return {
+      relativePath: aiFile.relativePath,
+      aiPath: aiFile.absolutePath,
+      obsidianPath: obsFile.absolutePath,
+      aiMtime: new Date(aiFile.mtime),
+      obsidianMtime: new Date(obsFile.mtime),
+      aiSize: aiFile.size,
+      obsidianSize: obsFile.size,
+    };
   }
 
   /**
-   * Copy file from AI project to Obsidian vault
+   * Classify how a file present on both sides changed since the last sync,
+   * by content hash. mtimes are not consulted: checkouts, `touch`, formatters
+   * and cloud drives rewrite them without changing content.
+   */
+  private async classifyChange(mappingId: string, aiFile: FileInfo, obsFile: FileInfo): Promise<FileChange> {
+    const [aiHash, obsHash] = await Promise.all([
+      SyncStateManager.hashFile(aiFile.absolutePath),
+      SyncStateManager.hashFile(obsFile.absolutePath),
+    ]);
+    return this.syncStateManager.classifyChange(mappingId, aiFile.relativePath, aiHash, obsHash);
+  }
+
+  /**
+   * Copy file from AI project to Obsidian vault
    */
   /**
    * Copy a file from the AI project into the Obsidian vault.
@@ -1258,13 +2544,18 @@ export class SyncEngine {
    * a false "copy succeeded" entry (and counted it in filesCopied) even though
    * nothing was written — the guard's own activity was invisible in
    * sync-log.json, and the only trace was a console.warn nobody would see.
+   *
+   * `transformText` rewrites a text file's content on the way (frontmatter
+   * rules, link rewriting).
    */
   private async copyFileToObsidian(
+    run: RunContext,
     sourcePath: string,
     obsDocsPath: string,
     relativePath: string,
     aiDocsPath?: string,
-    shadowedRelativePaths?: Set<string>
+    shadowedRelativePaths?: Set<string>,
+    transformText?: TextTransform
   ): Promise<WriteOutcome> {
     // Resolve vault path with correct folder casing (e.g. "gtm/" → "GTM/" on macOS)
     const rawTargetPath = normalizePath(path.join(obsDocsPath, relativePath));
@@ -1306,22 +2597,34 @@ export class SyncEngine {
     const parentDir = normalizePath(path.dirname(targetPath));
     await this.ensureObsidianFolder(parentDir);
 
-    const content = fs.readFileSync(sourcePath, "utf-8");
+    // Read as bytes: text is decoded only once it is known to be text
+    const content = fs.readFileSync(sourcePath);
+    const binary = isBinaryFile(relativePath, content);
 
-    // Create backup if enabled
-    if (this.settings.createBackups) {
-      const existingFile = this.app.vault.getAbstractFileByPath(targetPath);
-      if (existingFile instanceof TFile) {
-        await this.createObsidianBackup(existingFile);
-      }
-    }
+    // Back up (if enabled) and journal what is about to be replaced
+    const replacedFile = this.app.vault.getAbstractFileByPath(targetPath);
+    await this.recordObsidianChange(run, relativePath, replacedFile instanceof TFile ? replacedFile : null, "overwrite");
 
-    // Write to Obsidian vault
+    // Write to Obsidian vault (binary API for attachments, text API for notes)
     const existingFile = this.app.vault.getAbstractFileByPath(targetPath);
-    if (existingFile instanceof TFile) {
-      await this.app.vault.modify(existingFile, content);
+    if (binary) {
+      if (existingFile instanceof TFile) {
+        await this.app.vault.modifyBinary(existingFile, toArrayBuffer(content));
+      } else {
+        await this.app.vault.createBinary(targetPath, toArrayBuffer(content));
+      }
     } else {
-      await this.app.vault.create(targetPath, content);
+      const existingText = transformText && existingFile instanceof TFile
+        ? await this.app.vault.read(existingFile)
+        : undefined;
+      const text = transformText
+        ? transformText(content.toString("utf-8"), existingText)
+        : content.toString("utf-8");
+      if (existingFile instanceof TFile) {
+        await this.app.vault.modify(existingFile, text);
+      } else {
+        await this.app.vault.create(targetPath, text);
+      }
     }
 
     // Preserve source file mtime on target using fs directly
@@ -1330,19 +2633,25 @@ export class SyncEngine {
     if (fs.existsSync(absoluteTargetPath)) {
       fs.utimesSync(absoluteTargetPath, sourceMtime, sourceMtime);
     }
+    this.ownWrites.register(absoluteTargetPath);
     return { written: true };
   }
 
   /**
    * Copy file from Obsidian vault to AI project.
    * Returns `false` on a guard-skip — see copyFileToObsidian's doc comment.
+   * `transformText` rewrites a text file's content on the way (frontmatter
+   * rules, link rewriting). Written atomically (see atomic-write), so a crash
+   * mid-run never leaves a half-written doc in the project.
    */
   private async copyFileToAi(
+    run: RunContext,
     sourcePath: string,
     aiDocsPath: string,
     relativePath: string,
     obsDocsPath?: string,
-    shadowedRelativePaths?: Set<string>
+    shadowedRelativePaths?: Set<string>,
+    transformText?: TextTransform
   ): Promise<WriteOutcome> {
     const targetPath = path.join(aiDocsPath, relativePath);
 
@@ -1383,93 +2692,1044 @@ export class SyncEngine {
       fs.mkdirSync(parentDir, { recursive: true });
     }
 
-    // Create backup if enabled
-    if (this.settings.createBackups && fs.existsSync(targetPath)) {
-      this.createAiBackup(targetPath);
-    }
+    // Back up (if enabled) and journal what is about to be replaced
+    await this.recordAiChange(run, targetPath, relativePath, "overwrite");
 
+    // Copied as bytes either way: exact for text, and the only safe way for
+    // attachments. Only a text transform decodes the content.
     let sourceMtime: Date | null = null;
     if (file instanceof TFile) {
-      const content = await this.app.vault.read(file);
+      let content = Buffer.from(await this.app.vault.readBinary(file));
+      if (transformText && !isBinaryFile(relativePath, content)) {
+        const existingText = fs.existsSync(targetPath) ? fs.readFileSync(targetPath, "utf-8") : undefined;
+        content = Buffer.from(transformText(content.toString("utf-8"), existingText), "utf-8");
+      }
       sourceMtime = new Date(file.stat.mtime);
-      fs.writeFileSync(targetPath, content, "utf-8");
+      writeFileAtomicSync(targetPath, content);
     } else {
       // Fallback: read directly from source path
       const sourceStats = fs.statSync(sourcePath);
       sourceMtime = sourceStats.mtime;
-      const content = fs.readFileSync(sourcePath, "utf-8");
-      fs.writeFileSync(targetPath, content, "utf-8");
+      writeFileAtomicSync(targetPath, fs.readFileSync(sourcePath));
     }
 
     // Preserve source file mtime on target
     if (sourceMtime) {
       fs.utimesSync(targetPath, sourceMtime, sourceMtime);
     }
+    this.ownWrites.register(targetPath);
     return { written: true };
   }
 
   /**
-   * Create backup of Obsidian file before overwrite
+   * Content rewrite for a Markdown file crossing to `direction`'s side: the
+   * mapping's frontmatter rules, then link rewriting. Undefined when the file
+   * is copied as is.
+   */
+  private getTextTransform(
+    mapping: ProjectMapping,
+    relativePath: string,
+    direction: SyncDirectionType,
+    obsDocsPath: string,
+    aiDocsPath: string,
+    unresolvedLinks: UnresolvedLink[]
+  ): TextTransform | undefined {
+    const rules = mapping.frontmatterRules ?? [];
+    const rewriteLinks = this.getLinkTransform(mapping, relativePath, direction, obsDocsPath, aiDocsPath, unresolvedLinks);
+    if (rules.length === 0 || !relativePath.toLowerCase().endsWith(".md")) {
+      return rewriteLinks;
+    }
+    return (text: string, existing?: string): string => {
+      const transformed = applyFrontmatterRules(text, rules, direction, existing);
+      return rewriteLinks ? rewriteLinks(transformed) : transformed;
+    };
+  }
+
+  /**
+   * Content rewrite for a Markdown file crossing to `direction`'s side when the
+   * mapping rewrites links: wikilinks become relative Markdown links on the way
+   * to the AI project, and back on the way to Obsidian. Links that cannot be
+   * converted are kept and collected in `unresolvedLinks`. Undefined when the
+   * file is copied as is.
+   */
+  private getLinkTransform(
+    mapping: ProjectMapping,
+    relativePath: string,
+    direction: SyncDirectionType,
+    obsDocsPath: string,
+    aiDocsPath: string,
+    unresolvedLinks: UnresolvedLink[]
+  ): ((text: string) => string) | undefined {
+    if (!mapping.rewriteLinks || !relativePath.toLowerCase().endsWith(".md")) {
+      return undefined;
+    }
+    const obsRoot = normalizePath(obsDocsPath);
+    const sourceVaultPath = normalizePath(path.posix.join(obsRoot, relativePath));
+
+    return (text: string): string => {
+      const result = direction === "obs-to-ai"
+        ? wikilinksToMarkdown(text, relativePath, (linkpath) =>
+          this.resolveWikilink(linkpath, sourceVaultPath, obsRoot))
+        : markdownToWikilinks(text, relativePath, (target) =>
+          this.getWikilinkText(target, sourceVaultPath, obsRoot, aiDocsPath));
+      for (const link of result.unresolved) {
+        unresolvedLinks.push({ file: relativePath, direction, ...link });
+      }
+      return result.content;
+    };
+  }
+
+  /**
+   * Resolve a wikilink the way Obsidian does (metadata cache), to a path
+   * relative to the mapping's Obsidian docs folder.
    */
-  private async createObsidianBackup(file: TFile): Promise<void> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const backupPath = normalizePath(
-      `${file.path}.backup-${timestamp}`
+  private resolveWikilink(linkpath: string, sourceVaultPath: string, obsRoot: string): WikilinkTarget {
+    const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourceVaultPath);
+    if (!target) {
+      return { unresolved: "no matching file in the vault" };
+    }
+    if (!this.isPathInside(target.path, obsRoot)) {
+      return { unresolved: `target ${target.path} is outside the mapping` };
+    }
+    return { relativePath: target.path.slice(obsRoot.length).replace(/^\//, "") };
+  }
+
+  /**
+   * The wikilink text for a docs-relative target: what Obsidian itself would
+   * write when the file is already in the vault, else its full vault path (it
+   * is on the AI side and arrives with this sync). Undefined when it exists on
+   * neither side.
+   */
+  private getWikilinkText(
+    targetRelativePath: string,
+    sourceVaultPath: string,
+    obsRoot: string,
+    aiDocsPath: string
+  ): string | undefined {
+    const targetVaultPath = normalizePath(path.posix.join(obsRoot, targetRelativePath));
+    const file = this.app.vault.getAbstractFileByPath(targetVaultPath);
+    if (file instanceof TFile) {
+      return this.app.metadataCache.fileToLinktext(file, sourceVaultPath, true);
+    }
+    if (fs.existsSync(path.join(aiDocsPath, targetRelativePath))) {
+      return targetVaultPath.replace(/\.md$/i, "");
+    }
+    return undefined;
+  }
+
+  /**
+   * Three-way merge of a file changed on both sides (ResolutionDecision "merge").
+   *
+   * The ancestor is the content recorded at the file's last sync. The result is
+   * written to BOTH sides whether or not it merged cleanly: an unclean result
+   * carries git-style conflict markers around each overlapping region — the same
+   * thing `git merge` leaves in a working tree — so the markers can be resolved
+   * by editing either copy and the next sync carries the resolution across.
+   *
+   * The written content becomes the new ancestor either way, via the end-of-run
+   * state snapshot. It is what both sides now share, and recording it is what
+   * lets the next sync see a marker resolution as a one-sided edit instead of as
+   * a fresh conflict.
+   *
+   * With link rewriting or frontmatter rules the two sides hold different text,
+   * so the merge runs in the AI-side form (the ancestor's form too): the
+   * Obsidian copy goes through `toAiText` first and the result through
+   * `toObsidianText` on the way back.
+   */
+  private async mergeConflictingFile(
+    run: RunContext,
+    mapping: ProjectMapping,
+    aiFile: FileInfo,
+    obsFile: FileInfo,
+    toAiText?: TextTransform,
+    toObsidianText?: TextTransform
+  ): Promise<MergeResult> {
+    const obsVaultFile = this.getVaultFile(obsFile.absolutePath);
+    if (!obsVaultFile) {
+      throw new Error(`Obsidian file not found in vault: ${obsFile.relativePath}`);
+    }
+
+    if (isBinaryFile(aiFile.relativePath, fs.readFileSync(aiFile.absolutePath))) {
+      throw new Error("binary files cannot be merged; pick a side instead");
+    }
+
+    const aiContent = fs.readFileSync(aiFile.absolutePath, "utf-8");
+    const obsContent = await this.app.vault.read(obsVaultFile);
+    const base = await this.syncStateManager.getLastSyncedContent(mapping.id, aiFile.relativePath);
+    const result = mergeThreeWay(
+      base?.toString("utf-8"),
+      aiContent,
+      toAiText ? toAiText(obsContent, aiContent) : obsContent
     );
+    await this.writeMergedContent(run, aiFile, obsFile, obsVaultFile, aiContent, obsContent, result.content, toObsidianText);
+    return result;
+  }
 
-    const content = await this.app.vault.read(file);
-    await this.app.vault.create(backupPath, content);
+  /**
+   * Write text the user merged by hand in the conflict modal to both sides.
+   * `content` is in the AI-side form, like the texts the modal was shown.
+   */
+  private async writeManualMerge(
+    run: RunContext,
+    aiFile: FileInfo,
+    obsFile: FileInfo,
+    content: string,
+    toObsidianText?: TextTransform
+  ): Promise<void> {
+    const obsVaultFile = this.getVaultFile(obsFile.absolutePath);
+    if (!obsVaultFile) {
+      throw new Error(`Obsidian file not found in vault: ${obsFile.relativePath}`);
+    }
+    const aiContent = fs.readFileSync(aiFile.absolutePath, "utf-8");
+    const obsContent = await this.app.vault.read(obsVaultFile);
+    await this.writeMergedContent(run, aiFile, obsFile, obsVaultFile, aiContent, obsContent, content, toObsidianText);
   }
 
   /**
-   * Create backup of AI project file before overwrite
+   * Save the losing version of a "keep-both" conflict as `copyPath`: on its
+   * own side as is, and on the other side (when the mapping may write there)
+   * the way any file crosses over. Written before the winner overwrites it.
    */
-  private createAiBackup(filePath: string): void {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const backupPath = `${filePath}.backup-${timestamp}`;
+  private async writeConflictCopies(
+    run: RunContext,
+    aiFile: FileInfo,
+    obsFile: FileInfo,
+    loser: "ai" | "obsidian",
+    copyPath: string,
+    aiDocsPath: string,
+    obsDocsPath: string,
+    copyAcross: boolean,
+    transformText?: TextTransform
+  ): Promise<void> {
+    if (loser === "ai") {
+      const target = path.join(aiDocsPath, copyPath);
+      run.changes.push({ side: "ai", relativePath: copyPath, existed: false });
+      writeFileAtomicSync(target, fs.readFileSync(aiFile.absolutePath));
+      fs.utimesSync(target, new Date(aiFile.mtime), new Date(aiFile.mtime));
+      this.ownWrites.register(target);
+      if (copyAcross) {
+        await this.copyFileToObsidian(run, aiFile.absolutePath, obsDocsPath, copyPath, aiDocsPath, undefined, transformText);
+      }
+      return;
+    }
 
-    const content = fs.readFileSync(filePath, "utf-8");
-    fs.writeFileSync(backupPath, content, "utf-8");
+    const obsVaultFile = this.getVaultFile(obsFile.absolutePath);
+    if (!obsVaultFile) {
+      throw new Error(`Obsidian file not found in vault: ${obsFile.relativePath}`);
+    }
+    const target = this.resolveVaultPath(normalizePath(path.posix.join(obsDocsPath, copyPath)));
+    run.changes.push({ side: "obsidian", relativePath: copyPath, existed: false });
+    await this.app.vault.createBinary(target, await this.app.vault.readBinary(obsVaultFile));
+    const absoluteTarget = path.join(getVaultBasePath(this.app), target);
+    if (fs.existsSync(absoluteTarget)) {
+      fs.utimesSync(absoluteTarget, new Date(obsFile.mtime), new Date(obsFile.mtime));
+    }
+    this.ownWrites.register(absoluteTarget);
+    if (copyAcross) {
+      await this.copyFileToAi(run, obsFile.absolutePath, aiDocsPath, copyPath, obsDocsPath, undefined, transformText);
+    }
   }
 
   /**
-   * Delete a file (FR-060)
+   * Write a merge result (AI-side form) over both copies of a file, with
+   * backups when enabled, and give them the same mtime so the next run sees
+   * them as in sync.
    */
-  private async deleteFile(deletion: DetectedDeletion): Promise<void> {
-    // Create backup before deletion if enabled
+  private async writeMergedContent(
+    run: RunContext,
+    aiFile: FileInfo,
+    obsFile: FileInfo,
+    obsVaultFile: TFile,
+    aiContent: string,
+    obsContent: string,
+    merged: string,
+    toObsidianText?: TextTransform
+  ): Promise<void> {
+    const obsResult = toObsidianText ? toObsidianText(merged, obsContent) : merged;
+
+    await this.recordObsidianChange(run, obsFile.relativePath, obsVaultFile, "overwrite");
+    await this.recordAiChange(run, aiFile.absolutePath, aiFile.relativePath, "overwrite");
+
+    if (obsResult !== obsContent) {
+      await this.app.vault.modify(obsVaultFile, obsResult);
+    }
+    if (merged !== aiContent) {
+      writeFileAtomicSync(aiFile.absolutePath, merged);
+    }
+
+    const now = new Date();
+    fs.utimesSync(aiFile.absolutePath, now, now);
+    if (fs.existsSync(obsFile.absolutePath)) {
+      fs.utimesSync(obsFile.absolutePath, now, now);
+    }
+    this.ownWrites.register(aiFile.absolutePath);
+    this.ownWrites.register(obsFile.absolutePath);
+  }
+
+  /**
+   * Both versions of a conflicting text file for the conflict modal's diff,
+   * the Obsidian one in its AI-side form. Empty for binary files.
+   */
+  private async readConflictTexts(
+    aiFile: FileInfo,
+    obsFile: FileInfo,
+    toAiText?: TextTransform
+  ): Promise<Pick<ConflictInfo, "aiContent" | "obsidianContent">> {
+    const aiBytes = fs.readFileSync(aiFile.absolutePath);
+    const obsVaultFile = this.getVaultFile(obsFile.absolutePath);
+    if (!obsVaultFile || isBinaryFile(aiFile.relativePath, aiBytes)) {
+      return {};
+    }
+    const aiContent = aiBytes.toString("utf-8");
+    const obsContent = await this.app.vault.read(obsVaultFile);
+    return {
+      aiContent,
+      obsidianContent: toAiText ? toAiText(obsContent, aiContent) : obsContent,
+    };
+  }
+
+  /**
+   * Replay a rename on the AI side. Refuses to overwrite an existing file.
+   */
+  private renameAiFile(rename: DetectedRename, aiDocsPath: string): FileInfo {
+    const destination = path.join(aiDocsPath, rename.to);
+    if (fs.existsSync(destination)) {
+      throw new Error("destination already exists");
+    }
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+    fs.renameSync(rename.targetPath, destination);
+    this.ownWrites.register(rename.targetPath);
+    this.ownWrites.register(destination);
+    this.pruneEmptyAiFolders(aiDocsPath, rename.targetPath);
+
+    const stats = fs.statSync(destination);
+    return {
+      relativePath: rename.to,
+      absolutePath: destination,
+      mtime: stats.mtimeMs,
+      size: stats.size,
+    };
+  }
+
+  /**
+   * Replay a rename in the vault through the file manager, so links to the
+   * note elsewhere in the vault are updated the same way a rename in Obsidian
+   * would update them. Refuses to overwrite an existing file.
+   */
+  private async renameObsidianFile(rename: DetectedRename, obsDocsPath: string): Promise<FileInfo> {
+    const file = this.getVaultFile(rename.targetPath);
+    if (!file) {
+      throw new Error(`Obsidian file not found in vault: ${rename.from}`);
+    }
+    const destination = normalizePath(path.posix.join(normalizePath(obsDocsPath), rename.to));
+    if (this.app.vault.getAbstractFileByPath(destination)) {
+      throw new Error("destination already exists");
+    }
+    await this.ensureObsidianFolder(path.posix.dirname(destination));
+    await this.app.fileManager.renameFile(file, destination);
+    const absoluteDestination = path.join(getVaultBasePath(this.app), destination);
+    this.ownWrites.register(rename.targetPath);
+    this.ownWrites.register(absoluteDestination);
+
+    const stats = await this.app.vault.adapter.stat(destination);
+    return {
+      relativePath: rename.to,
+      absolutePath: absoluteDestination,
+      mtime: stats?.mtime ?? Date.now(),
+      size: stats?.size ?? 0,
+    };
+  }
+
+  /**
+   * Look up the vault TFile for an absolute path inside the vault.
+   */
+  private getVaultFile(absolutePath: string): TFile | null {
+    const vaultBasePath = getVaultBasePath(this.app);
+    const vaultPath = absolutePath.replace(vaultBasePath, "").replace(/^[/\\]/, "");
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(vaultPath));
+    return file instanceof TFile ? file : null;
+  }
+
+  /**
+   * Save the vault copy of a file to the backup store before it is changed
+   */
+  private async backupObsidianFile(
+    run: RunContext,
+    file: TFile,
+    relativePath: string,
+    reason: BackupReason
+  ): Promise<BackupEntry> {
+    const content = Buffer.from(await this.app.vault.readBinary(file));
+    return this.backupStore.add({ mappingId: run.mappingId, relativePath, side: "obsidian", reason }, content);
+  }
+
+  /**
+   * Save the AI project copy of a file to the backup store before it is changed
+   */
+  private async backupAiFile(
+    run: RunContext,
+    filePath: string,
+    relativePath: string,
+    reason: BackupReason
+  ): Promise<BackupEntry> {
+    const content = fs.readFileSync(filePath);
+    return this.backupStore.add({ mappingId: run.mappingId, relativePath, side: "ai", reason }, content);
+  }
+
+  /**
+   * Journal a change to a vault file about to happen, keeping the version it
+   * replaces (`existing` is null for a new file)
+   */
+  private async recordObsidianChange(
+    run: RunContext,
+    relativePath: string,
+    existing: TFile | null,
+    reason: BackupReason
+  ): Promise<void> {
+    const before = existing
+      ? await this.keepPreImage(run, "obsidian", relativePath, Buffer.from(await this.app.vault.readBinary(existing)), reason)
+      : undefined;
+    run.changes.push({ side: "obsidian", relativePath, existed: existing !== null, before });
+  }
+
+  /**
+   * Journal a change to an AI project file about to happen, keeping the
+   * version it replaces
+   */
+  private async recordAiChange(
+    run: RunContext,
+    filePath: string,
+    relativePath: string,
+    reason: BackupReason
+  ): Promise<void> {
+    const existed = fs.existsSync(filePath);
+    const before = existed
+      ? await this.keepPreImage(run, "ai", relativePath, fs.readFileSync(filePath), reason)
+      : undefined;
+    run.changes.push({ side: "ai", relativePath, existed, before });
+  }
+
+  /**
+   * Keep the version a journaled change replaces, so "Undo last sync" can put
+   * it back: as a backup when backups are enabled, otherwise in the backup
+   * store without a version listed for it. Returns its hash.
+   */
+  private async keepPreImage(
+    run: RunContext,
+    side: "ai" | "obsidian",
+    relativePath: string,
+    content: Buffer,
+    reason: BackupReason
+  ): Promise<string> {
     if (this.settings.createBackups) {
-      if (deletion.existsIn === "obsidian") {
-        // Backup Obsidian file
-        const vaultBasePath = getVaultBasePath(this.app);
-        const vaultPath = deletion.targetPath.replace(vaultBasePath, "").replace(/^[/\\]/, "");
-        const normalizedPath = normalizePath(vaultPath);
-        const file = this.app.vault.getAbstractFileByPath(normalizedPath);
-        if (file instanceof TFile) {
-          await this.createObsidianBackup(file);
-        }
-      } else {
-        // Backup AI file
-        if (fs.existsSync(deletion.targetPath)) {
-          this.createAiBackup(deletion.targetPath);
+      const backup = await this.backupStore.add({ mappingId: run.mappingId, relativePath, side, reason }, content);
+      return backup.hash;
+    }
+    return this.backupStore.putPreImage(content);
+  }
+
+  /**
+   * Record what a run changed for "Undo last sync": the hash each file was
+   * left with, and the sync-state records of those paths before the run.
+   * Runs that changed nothing are not recorded.
+   */
+  private async saveJournal(
+    run: RunContext,
+    mapping: ProjectMapping,
+    startTime: Date,
+    previousState: Pick<MappingSyncState, "aiFiles" | "obsFiles">
+  ): Promise<void> {
+    if (run.changes.length === 0) {
+      return;
+    }
+
+    // A file changed twice in one run is undone to before the first change;
+    // a moved file that was then overwritten keeps the overwrite's backup
+    const entries: JournalEntry[] = [];
+    const byKey = new Map<string, JournalEntry>();
+    for (const change of run.changes) {
+      const key = `${change.side}:${this.normalizePathKey(change.relativePath)}`;
+      const first = byKey.get(key);
+      if (first) {
+        if (first.renamedFrom !== undefined && first.before === undefined) {
+          first.before = change.before;
         }
+        continue;
       }
+      const entry: JournalEntry = { ...change, after: this.hashSideFile(mapping, change.side, change.relativePath) };
+      byKey.set(key, entry);
+      entries.push(entry);
     }
 
-    // Delete the file
+    const keys = new Set(
+      entries.flatMap((e) => (e.renamedFrom !== undefined ? [e.relativePath, e.renamedFrom] : [e.relativePath]))
+        .map((p) => this.normalizePathKey(p))
+    );
+    const journaled = (f: SyncFileState) => keys.has(this.normalizePathKey(f.path));
+    this.syncJournal.add({
+      id: `${startTime.getTime().toString(36)}-${mapping.id}`,
+      mappingId: mapping.id,
+      mappingName: mapping.name,
+      startedAt: startTime.getTime(),
+      entries,
+      previousState: {
+        aiFiles: previousState.aiFiles.filter(journaled),
+        obsFiles: previousState.obsFiles.filter(journaled),
+      },
+    });
+    await this.syncJournal.save();
+  }
+
+  /**
+   * Write the backup index, applying the retention settings
+   */
+  private async saveBackups(): Promise<void> {
+    await this.backupStore.save(
+      { maxVersions: this.settings.backupMaxVersions, maxAgeDays: this.settings.backupMaxAgeDays },
+      this.syncJournal.getPreImageHashes()
+    );
+  }
+
+  /**
+   * Write the recycle bin index, dropping entries past the retention period
+   */
+  private async saveRecycleBin(): Promise<void> {
+    await this.recycleBin.save(this.settings.recycleBinRetentionDays);
+  }
+
+  /**
+   * Folder of the backup store: the configured one, or the plugin data folder.
+   * A relative folder (only an imported config can hold one) is ignored: it
+   * would resolve against Obsidian's working directory.
+   */
+  private getBackupRoot(): string {
+    const folder = this.settings.backupFolder ? expandHome(this.settings.backupFolder) : "";
+    return folder && path.isAbsolute(folder)
+      ? path.resolve(folder)
+      : path.join(this.pluginDir, "backups");
+  }
+
+  /**
+   * Delete a file (FR-060)
+   */
+  private async deleteFile(run: RunContext, deletion: DetectedDeletion): Promise<void> {
+    // Keep it in the recycle bin, back up (if enabled) and journal before deleting
+    const meta = {
+      mappingId: run.mappingId,
+      mappingName: run.mappingName,
+      relativePath: deletion.relativePath,
+      side: deletion.existsIn,
+    };
     if (deletion.existsIn === "obsidian") {
       const vaultBasePath = getVaultBasePath(this.app);
       const vaultPath = deletion.targetPath.replace(vaultBasePath, "").replace(/^[/\\]/, "");
       const normalizedPath = normalizePath(vaultPath);
       const file = this.app.vault.getAbstractFileByPath(normalizedPath);
       if (file instanceof TFile) {
+        await this.recycleBin.add(meta, Buffer.from(await this.app.vault.readBinary(file)));
+        await this.recordObsidianChange(run, deletion.relativePath, file, "delete");
         await this.app.fileManager.trashFile(file);
       }
     } else {
       // Delete AI project file
       if (fs.existsSync(deletion.targetPath)) {
+        await this.recycleBin.add(meta, fs.readFileSync(deletion.targetPath));
+        await this.recordAiChange(run, deletion.targetPath, deletion.relativePath, "delete");
         fs.unlinkSync(deletion.targetPath);
       }
     }
+    this.ownWrites.register(deletion.targetPath);
+  }
+
+  /**
+   * Remove a folder on one side when no files are left in it (empty
+   * subfolders aside). Returns whether it was removed. Vault folders go to the
+   * trash like any deletion.
+   */
+  private async removeEmptyFolder(
+    mapping: ProjectMapping,
+    side: "ai" | "obsidian",
+    relativePath: string
+  ): Promise<boolean> {
+    const absolutePath = this.getSidePath(mapping, side, relativePath);
+    if (!fs.existsSync(absolutePath) || !this.isEmptyTree(absolutePath)) {
+      return false;
+    }
+    if (side === "ai") {
+      fs.rmSync(absolutePath, { recursive: true });
+    } else {
+      const folder = this.app.vault.getAbstractFileByPath(this.getVaultPath(mapping, relativePath));
+      if (!(folder instanceof TFolder)) {
+        return false;
+      }
+      await this.app.fileManager.trashFile(folder);
+    }
+    this.ownWrites.register(absolutePath);
+    return true;
+  }
+
+  /**
+   * With pruneEmptyAiFolders: remove the AI project folders that a deletion
+   * or move of `filePath` left without files, up to (not including) the docs
+   * folder
+   */
+  private pruneEmptyAiFolders(aiDocsPath: string, filePath: string): void {
+    if (!this.settings.pruneEmptyAiFolders) {
+      return;
+    }
+    const root = path.resolve(aiDocsPath);
+    let dir = path.dirname(path.resolve(filePath));
+    while (dir !== root && this.isPathInside(dir, root) && fs.existsSync(dir) && this.isEmptyTree(dir)) {
+      fs.rmSync(dir, { recursive: true });
+      this.ownWrites.register(dir);
+      dir = path.dirname(dir);
+    }
+  }
+
+  /**
+   * Sync the folders themselves, after a full run's files: a folder created
+   * on one side is created on the other even while empty, a renamed or moved
+   * one is renamed there, and (with syncDeletions) a deleted one is removed
+   * there once no files are left in it. The same direction rules as for files
+   * apply. Files are never touched here: what is still in a folder after the
+   * run keeps it.
+   *
+   * `current` lists the folders as the user left them, before the run wrote
+   * anything; every step checks both sides again before acting, since the
+   * run's file copies and renames have created and emptied folders since.
+   *
+   * Skipped for mappings with include patterns: folders are walked whether or
+   * not anything in them is included, so every one would be mirrored as an
+   * empty skeleton.
+   */
+  private async syncFolders(
+    mapping: ProjectMapping,
+    previous: MappingSyncState | null,
+    current: Record<"ai" | "obsidian", string[]>,
+    renames: DetectedRename[],
+    files: SyncFileResult[],
+    errors: string[]
+  ): Promise<void> {
+    if (this.getPathRules(mapping).include) {
+      return;
+    }
+    const prune = this.settings.pruneEmptyAiFolders;
+    const before = { ai: previous?.aiDirs ?? [], obsidian: previous?.obsDirs ?? [] };
+    const beforeKeys = {
+      ai: new Set(before.ai.map((d) => this.normalizePathKey(d))),
+      obsidian: new Set(before.obsidian.map((d) => this.normalizePathKey(d))),
+    };
+    const currentKeys = {
+      ai: new Set(current.ai.map((d) => this.normalizePathKey(d))),
+      obsidian: new Set(current.obsidian.map((d) => this.normalizePathKey(d))),
+    };
+    // Where a folder change made on a side may be carried: creations follow
+    // the copy rules, renames and deletions made in Obsidian need bidirectional
+    const mayCreate = {
+      ai: mapping.bidirectional || mapping.syncDirection !== "obs-to-ai",
+      obsidian: (mapping.bidirectional || mapping.syncDirection === "obs-to-ai") && !prune,
+    };
+    const mayRemove = { ai: true, obsidian: mapping.bidirectional };
+    const otherSide = (side: "ai" | "obsidian"): "ai" | "obsidian" => (side === "ai" ? "obsidian" : "ai");
+    const directionFrom = (side: "ai" | "obsidian"): SyncDirectionType => (side === "ai" ? "ai-to-obs" : "obs-to-ai");
+    // Folders already dealt with, by the side the change was made on
+    const handled = { ai: [] as string[], obsidian: [] as string[] };
+    const isHandled = (side: "ai" | "obsidian", dir: string): boolean =>
+      handled[side].some((h) => dir === h || dir.startsWith(`${h}/`));
+
+    const report = (side: "ai" | "obsidian", action: SyncAction, dir: string, error?: unknown, renamedFrom?: string) => {
+      const direction = directionFrom(side);
+      if (error === undefined) {
+        files.push({
+          file: `${dir}/`,
+          action,
+          direction,
+          success: true,
+          ...(renamedFrom ? { renamedFrom: `${renamedFrom}/` } : {}),
+        });
+        return;
+      }
+      const errorMsg = `Failed to ${action === "copy" ? "create" : action} folder ${dir}: ${(error as Error).message}`;
+      errors.push(errorMsg);
+      files.push({ file: `${dir}/`, action, direction, success: false, error: errorMsg });
+    };
+
+    for (const side of ["ai", "obsidian"] as const) {
+      const target = otherSide(side);
+      const gone = before[side].filter((d) => !currentKeys[side].has(this.normalizePathKey(d)));
+      const added = current[side].filter((d) => !beforeKeys[side].has(this.normalizePathKey(d)));
+
+      // Renames and moves (no deletion sync needed, as for files)
+      if (mayRemove[side]) {
+        const fileRenames = renames.filter((r) => r.renamedIn === side);
+        for (const [from, to] of this.pairFolderRenames(gone, added, fileRenames)) {
+          if (this.folderExists(mapping, side, from) || !this.folderExists(mapping, side, to)) {
+            continue;
+          }
+          try {
+            if (await this.moveFolder(mapping, target, from, to)) {
+              handled[side].push(from, to);
+              report(side, "rename", to, undefined, from);
+            }
+          } catch (error) {
+            handled[side].push(from, to);
+            report(side, "rename", to, error);
+          }
+        }
+      }
+
+      // Deletions, deepest first so emptied parents go too. A folder missing
+      // from the AI project is not a deletion when empty ones are pruned there.
+      if (this.settings.syncDeletions && mayRemove[side] && !(side === "ai" && prune)) {
+        const deleted = gone
+          .filter((d) => !isHandled(side, d) && !this.folderExists(mapping, side, d))
+          .sort((a, b) => b.split("/").length - a.split("/").length);
+        for (const dir of deleted) {
+          try {
+            if (await this.removeEmptyFolder(mapping, target, dir)) {
+              report(side, "delete", dir);
+            }
+          } catch (error) {
+            report(side, "delete", dir, error);
+          }
+          handled[side].push(dir);
+        }
+      }
+    }
+
+    // Creations last: a folder deleted on one side and not carried over (no
+    // deletion sync, or files still in it) is restored from the other, as
+    // files are. Only folders without any files: one with synced files was
+    // created by copying them, and one with none of the synced file types
+    // (source code, say) has no business in the other location.
+    for (const side of ["ai", "obsidian"] as const) {
+      const target = otherSide(side);
+      if (!mayCreate[side]) {
+        continue;
+      }
+      const created = [...current[side]]
+        .filter((d) => !isHandled(side, d))
+        .sort((a, b) => a.split("/").length - b.split("/").length);
+      for (const dir of created) {
+        if (!this.folderExists(mapping, side, dir) || this.folderExists(mapping, target, dir)) {
+          continue;
+        }
+        if (!this.isEmptyTree(this.getSidePath(mapping, side, dir)) || this.isSelfNestedFolder(mapping, dir)) {
+          continue;
+        }
+        try {
+          await this.createFolder(mapping, target, dir);
+          report(side, "copy", dir);
+        } catch (error) {
+          report(side, "copy", dir, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Pair folders that disappeared from a side with folders that appeared on
+   * it into renames: by the file renames of the run (a/x/f.md → b/x/f.md is
+   * the folder rename a → b), and, for folders without such files, when they
+   * are the only disappeared and the only appeared folder in the same parent.
+   * Only the outermost folder of a renamed tree is returned.
+   */
+  private pairFolderRenames(gone: string[], added: string[], fileRenames: DetectedRename[]): Array<[string, string]> {
+    const goneKeys = new Set(gone.map((d) => this.normalizePathKey(d)));
+    const addedKeys = new Set(added.map((d) => this.normalizePathKey(d)));
+    const pairs = new Map<string, [string, string]>();
+
+    for (const rename of fileRenames) {
+      let from = path.posix.dirname(rename.from);
+      let to = path.posix.dirname(rename.to);
+      let pair: [string, string] | null = null;
+      // Climb while the names below match, keeping the outermost pair
+      while (from !== "." && to !== ".") {
+        if (goneKeys.has(this.normalizePathKey(from)) && addedKeys.has(this.normalizePathKey(to))) {
+          pair = [from, to];
+        }
+        if (path.posix.basename(from) !== path.posix.basename(to)) {
+          break;
+        }
+        from = path.posix.dirname(from);
+        to = path.posix.dirname(to);
+      }
+      if (pair && !pairs.has(this.normalizePathKey(pair[0]))) {
+        pairs.set(this.normalizePathKey(pair[0]), pair);
+      }
+    }
+
+    const within = (dir: string, roots: string[]): boolean =>
+      roots.some((root) => dir === root || dir.startsWith(`${root}/`));
+    const pairedFrom = [...pairs.values()].map(([from]) => from);
+    const pairedTo = [...pairs.values()].map(([, to]) => to);
+    // The outermost of the rest, by parent folder
+    const outermost = (dirs: string[], paired: string[]) =>
+      dirs.filter((d) => !within(d, paired) && !dirs.some((other) => other !== d && d.startsWith(`${other}/`)));
+    const restGone = outermost(gone, pairedFrom);
+    const restAdded = outermost(added, pairedTo);
+    for (const from of restGone) {
+      const parent = path.posix.dirname(from);
+      const siblingsGone = restGone.filter((d) => path.posix.dirname(d) === parent);
+      const siblingsAdded = restAdded.filter((d) => path.posix.dirname(d) === parent);
+      if (siblingsGone.length === 1 && siblingsAdded.length === 1) {
+        pairs.set(this.normalizePathKey(from), [from, siblingsAdded[0]]);
+      }
+    }
+
+    return [...pairs.values()];
+  }
+
+  /**
+   * Whether a folder exists on one side
+   */
+  private folderExists(mapping: ProjectMapping, side: "ai" | "obsidian", relativePath: string): boolean {
+    if (side === "ai") {
+      try {
+        return fs.statSync(this.getSidePath(mapping, side, relativePath)).isDirectory();
+      } catch {
+        return false;
+      }
+    }
+    return this.app.vault.getAbstractFileByPath(this.getVaultPath(mapping, relativePath)) instanceof TFolder;
+  }
+
+  /**
+   * The folders along some relative paths that exist on each side
+   */
+  private listFoldersAlong(mapping: ProjectMapping, relativePaths: Iterable<string>): Record<"ai" | "obsidian", string[]> {
+    const folders = new Set<string>();
+    for (const relativePath of relativePaths) {
+      const parts = relativePath.split("/");
+      for (let i = 1; i < parts.length; i++) {
+        folders.add(parts.slice(0, i).join("/"));
+      }
+    }
+    return {
+      ai: [...folders].filter((dir) => this.folderExists(mapping, "ai", dir)),
+      obsidian: [...folders].filter((dir) => this.folderExists(mapping, "obsidian", dir)),
+    };
+  }
+
+  /**
+   * Create a folder (and missing parents) on one side
+   */
+  private async createFolder(mapping: ProjectMapping, side: "ai" | "obsidian", relativePath: string): Promise<void> {
+    if (side === "ai") {
+      fs.mkdirSync(this.getSidePath(mapping, side, relativePath), { recursive: true });
+    } else {
+      await this.ensureObsidianFolder(normalizePath(path.posix.join(this.getObsidianDocsPath(mapping), relativePath)));
+    }
+  }
+
+  /**
+   * Replay a folder rename on one side. When the run's file renames already
+   * created the new folder there, the old one's remaining subfolders are
+   * created under it and the old one is removed once nothing is left in it.
+   * Returns false when there is no old folder to rename.
+   */
+  private async moveFolder(mapping: ProjectMapping, side: "ai" | "obsidian", from: string, to: string): Promise<boolean> {
+    if (!this.folderExists(mapping, side, from)) {
+      return false;
+    }
+
+    if (!this.folderExists(mapping, side, to)) {
+      if (side === "ai") {
+        const destination = this.getSidePath(mapping, side, to);
+        fs.mkdirSync(path.dirname(destination), { recursive: true });
+        fs.renameSync(this.getSidePath(mapping, side, from), destination);
+      } else {
+        const folder = this.app.vault.getAbstractFileByPath(this.getVaultPath(mapping, from));
+        if (!(folder instanceof TFolder)) {
+          return false;
+        }
+        const destination = normalizePath(path.posix.join(this.getObsidianDocsPath(mapping), to));
+        await this.ensureObsidianFolder(path.posix.dirname(destination));
+        await this.app.fileManager.renameFile(folder, destination);
+      }
+      this.ownWrites.register(this.getSidePath(mapping, side, from));
+      return true;
+    }
+
+    const fromPath = this.getSidePath(mapping, side, from);
+    const subfolders: string[] = [];
+    const collect = (dir: string, relative: string): void => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          subfolders.push(`${relative}${entry.name}`);
+          collect(path.join(dir, entry.name), `${relative}${entry.name}/`);
+        }
+      }
+    };
+    collect(fromPath, "");
+    for (const subfolder of subfolders) {
+      await this.createFolder(mapping, side, `${to}/${subfolder}`);
+    }
+    await this.removeEmptyFolder(mapping, side, from);
+    return true;
+  }
+
+  /**
+   * Self-nesting guard for a folder (see matchSelfNestedRoot)
+   */
+  private isSelfNestedFolder(mapping: ProjectMapping, relativePath: string): boolean {
+    const aiRootBasename = path.basename(this.getAiDocsPath(mapping).replace(/[/\\]+$/, ""));
+    const obsRootBasename = path.basename(normalizePath(this.getObsidianDocsPath(mapping)));
+    return this.matchSelfNestedRoot(relativePath, [aiRootBasename, obsRootBasename]) !== undefined;
+  }
+
+  /**
+   * Put one journaled change back. Returns why it was refused, or null.
+   */
+  private async undoEntry(run: RunContext, mapping: ProjectMapping, entry: JournalEntry): Promise<string | null> {
+    const current = this.hashSideFile(mapping, entry.side, entry.relativePath);
+    if (current !== entry.after) {
+      if (entry.after === null) {
+        return "created again after the sync";
+      }
+      return current === null ? "deleted or moved after the sync" : "edited after the sync";
+    }
+
+    if (entry.renamedFrom !== undefined) {
+      if (this.hashSideFile(mapping, entry.side, entry.renamedFrom) !== null) {
+        return `a new file is at its old path "${entry.renamedFrom}"`;
+      }
+      await this.moveSideFile(mapping, entry.side, entry.relativePath, entry.renamedFrom);
+      // The run also wrote the moved file
+      if (entry.before) {
+        const content = await this.backupStore.read({ hash: entry.before });
+        if (content) {
+          await this.writeSideFile(run, mapping, entry.side, entry.renamedFrom, content, "undo");
+        }
+      }
+      return null;
+    }
+
+    if (!entry.existed) {
+      await this.removeSideFile(run, mapping, entry.side, entry.relativePath);
+      return null;
+    }
+    if (!entry.before) {
+      return "no backup of the version it replaced (backups were off)";
+    }
+    const content = await this.backupStore.read({ hash: entry.before });
+    if (!content) {
+      return "the version it replaced is no longer in the backup store";
+    }
+    await this.writeSideFile(run, mapping, entry.side, entry.relativePath, content, "undo");
+    return null;
+  }
+
+  /**
+   * Absolute path of a mapping's file on one side
+   */
+  private getSidePath(mapping: ProjectMapping, side: "ai" | "obsidian", relativePath: string): string {
+    if (side === "ai") {
+      return path.join(this.getAiDocsPath(mapping), relativePath);
+    }
+    return path.join(getVaultBasePath(this.app), this.getVaultPath(mapping, relativePath));
+  }
+
+  /**
+   * Vault path of a mapping's file, with the vault's folder casing
+   */
+  private getVaultPath(mapping: ProjectMapping, relativePath: string): string {
+    return this.resolveVaultPath(normalizePath(path.posix.join(this.getObsidianDocsPath(mapping), relativePath)));
+  }
+
+  /**
+   * Hash of a file on one side, or null when it does not exist
+   */
+  private hashSideFile(mapping: ProjectMapping, side: "ai" | "obsidian", relativePath: string): string | null {
+    const absolutePath = this.getSidePath(mapping, side, relativePath);
+    try {
+      return ObjectStore.hash(fs.readFileSync(absolutePath));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Replace (or create) a file on one side outside a sync, saving the current
+   * copy to the backup store first
+   */
+  private async writeSideFile(
+    run: RunContext,
+    mapping: ProjectMapping,
+    side: "ai" | "obsidian",
+    relativePath: string,
+    content: Buffer,
+    reason: BackupReason
+  ): Promise<void> {
+    if (side === "ai") {
+      const targetPath = this.getSidePath(mapping, side, relativePath);
+      if (fs.existsSync(targetPath)) {
+        await this.backupAiFile(run, targetPath, relativePath, reason);
+      }
+      fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+      writeFileAtomicSync(targetPath, content);
+    } else {
+      const targetPath = this.getVaultPath(mapping, relativePath);
+      const existing = this.app.vault.getAbstractFileByPath(targetPath);
+      if (existing instanceof TFile) {
+        await this.backupObsidianFile(run, existing, relativePath, reason);
+        await this.app.vault.modifyBinary(existing, toArrayBuffer(content));
+      } else {
+        await this.ensureObsidianFolder(normalizePath(path.posix.dirname(targetPath)));
+        await this.app.vault.createBinary(targetPath, toArrayBuffer(content));
+      }
+    }
+    this.ownWrites.register(this.getSidePath(mapping, side, relativePath));
+  }
+
+  /**
+   * Remove a file from one side outside a sync, saving it to the backup store
+   * first. Vault files go to the trash like any deletion.
+   */
+  private async removeSideFile(
+    run: RunContext,
+    mapping: ProjectMapping,
+    side: "ai" | "obsidian",
+    relativePath: string
+  ): Promise<void> {
+    if (side === "ai") {
+      const targetPath = this.getSidePath(mapping, side, relativePath);
+      await this.backupAiFile(run, targetPath, relativePath, "undo");
+      fs.unlinkSync(targetPath);
+    } else {
+      const file = this.app.vault.getAbstractFileByPath(this.getVaultPath(mapping, relativePath));
+      if (file instanceof TFile) {
+        await this.backupObsidianFile(run, file, relativePath, "undo");
+        await this.app.fileManager.trashFile(file);
+      }
+    }
+    this.ownWrites.register(this.getSidePath(mapping, side, relativePath));
+  }
+
+  /**
+   * Move a file on one side back to where it was (undoing a replayed rename)
+   */
+  private async moveSideFile(
+    mapping: ProjectMapping,
+    side: "ai" | "obsidian",
+    from: string,
+    to: string
+  ): Promise<void> {
+    if (side === "ai") {
+      const destination = this.getSidePath(mapping, side, to);
+      fs.mkdirSync(path.dirname(destination), { recursive: true });
+      fs.renameSync(this.getSidePath(mapping, side, from), destination);
+    } else {
+      const file = this.app.vault.getAbstractFileByPath(this.getVaultPath(mapping, from));
+      if (!(file instanceof TFile)) {
+        throw new Error(`Obsidian file not found in vault: ${from}`);
+      }
+      const destination = normalizePath(path.posix.join(this.getObsidianDocsPath(mapping), to));
+      await this.ensureObsidianFolder(path.posix.dirname(destination));
+      await this.app.fileManager.renameFile(file, destination);
+    }
+    this.ownWrites.register(this.getSidePath(mapping, side, from));
+    this.ownWrites.register(this.getSidePath(mapping, side, to));
   }
 
   /**
@@ -1550,18 +3810,23 @@ export class SyncEngine {
    * Get full docs path for AI project (or intra-vault source path)
    */
   private getAiDocsPath(mapping: ProjectMapping): string {
-    let basePath: string;
-    if (mapping.intraVault) {
-      basePath = path.join(getVaultBasePath(this.app), mapping.aiPath);
-    } else {
-      basePath = expandHome(mapping.aiPath);
-    }
+    const basePath = this.getAiProjectPath(mapping);
     if (mapping.docsSubdir && mapping.docsSubdir.trim().length > 0) {
       return path.join(basePath, mapping.docsSubdir);
     }
     return basePath;
   }
 
+  /**
+   * Get the AI project root (where its .gitignore lives)
+   */
+  private getAiProjectPath(mapping: ProjectMapping): string {
+    if (mapping.intraVault) {
+      return path.join(getVaultBasePath(this.app), mapping.aiPath);
+    }
+    return expandHome(mapping.aiPath);
+  }
+
   /**
    * Get full docs path for Obsidian
    */
@@ -1777,6 +4042,28 @@ export class SyncEngine {
     return relativePath.replace(/\\/g, "/");
   }
 
+  /**
+   * Whether a folder holds no files, at any depth
+   */
+  private isEmptyTree(dirPath: string): boolean {
+    return fs.readdirSync(dirPath, { withFileTypes: true }).every(
+      (entry) => entry.isDirectory() && this.isEmptyTree(path.join(dirPath, entry.name))
+    );
+  }
+
+  /**
+   * Options for a run that stands in for two triggers (see runExclusive)
+   */
+  private mergeSyncOptions(first: SyncOptions, second: SyncOptions): SyncOptions {
+    const removedFolders = [...(first.removedFolders ?? []), ...(second.removedFolders ?? [])];
+    return {
+      // Ask about conflicts if either trigger was interactive. Forced runs
+      // are never merged (see runExclusive).
+      deferConflicts: first.deferConflicts === true && second.deferConflicts === true,
+      ...(removedFolders.length > 0 ? { removedFolders } : {}),
+    };
+  }
+
   /**
    * Normalize path for case-insensitive comparison on macOS/Windows.
    * These platforms use case-insensitive filesystems by default,
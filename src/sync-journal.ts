@@ -0,0 +1,137 @@
+import * as fsPromises from "fs/promises";
+import * as path from "path";
+import type { SyncFileState } from "./sync-state-manager";
+import { writeFileAtomic } from "./atomic-write";
+
+/**
+ * One file a sync run wrote, deleted or renamed
+ */
+export interface JournalEntry {
+  side: "ai" | "obsidian";
+  /** Relative path within the docs folder (the new path for a rename) */
+  relativePath: string;
+  /** Set for a rename: the path the file had before */
+  renamedFrom?: string;
+  /** Whether a file was at `relativePath` before the run */
+  existed: boolean;
+  /** Backup-store hash of the version the run replaced (absent in older journals with backups off) */
+  before?: string;
+  /** Hash of the file as the run left it, null when the run removed it */
+  after: string | null;
+}
+
+/**
+ * Everything one runSync changed, and the sync-state records it replaced
+ */
+export interface RunJournal {
+  id: string;
+  mappingId: string;
+  mappingName: string;
+  /** When the run started (ms) */
+  startedAt: number;
+  entries: JournalEntry[];
+  /** Records of the journaled paths before the run (absent = none) */
+  previousState: { aiFiles: SyncFileState[]; obsFiles: SyncFileState[] };
+}
+
+interface JournalStore {
+  runs: RunJournal[];
+  version: number;
+}
+
+const JOURNAL_FILE = "sync-journal.json";
+const CURRENT_VERSION = 1;
+/** Runs kept for "Undo last sync", newest last */
+const MAX_RUNS = 20;
+
+/**
+ * The last runs that changed files, for "Undo last sync". Runs that changed
+ * nothing are not recorded, so a quiet background sync never hides the run
+ * the user wants to undo. Undoing a run removes it; the one before becomes
+ * the last.
+ */
+export class SyncJournal {
+  private pluginDir: string;
+  private runs: RunJournal[] = [];
+
+  constructor(pluginDir: string) {
+    this.pluginDir = pluginDir;
+  }
+
+  /**
+   * Load the journal from disk
+   */
+  async load(): Promise<void> {
+    try {
+      const content = await fsPromises.readFile(path.join(this.pluginDir, JOURNAL_FILE), "utf-8");
+      const data = JSON.parse(content) as JournalStore;
+      if (data.version && data.version <= CURRENT_VERSION && Array.isArray(data.runs)) {
+        this.runs = data.runs;
+      } else {
+        console.warn("EVC Sync: sync-journal.json has newer version, ignoring it");
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("EVC Sync: Failed to load sync journal:", error);
+      }
+      this.runs = [];
+    }
+  }
+
+  /**
+   * Save the journal to disk
+   */
+  async save(): Promise<void> {
+    try {
+      const store: JournalStore = { runs: this.runs, version: CURRENT_VERSION };
+      await fsPromises.mkdir(this.pluginDir, { recursive: true });
+      await writeFileAtomic(path.join(this.pluginDir, JOURNAL_FILE), JSON.stringify(store, null, 2));
+    } catch (error) {
+      console.error("EVC Sync: Failed to save sync journal:", error);
+    }
+  }
+
+  /**
+   * Record a finished run, dropping the oldest beyond the limit
+   */
+  add(run: RunJournal): void {
+    this.runs = [...this.runs, run].slice(-MAX_RUNS);
+  }
+
+  /**
+   * The most recent run, or null
+   */
+  getLast(): RunJournal | null {
+    return this.runs[this.runs.length - 1] ?? null;
+  }
+
+  /**
+   * Backup-store hashes of the versions the journaled runs replaced, which
+   * the backup store keeps whether or not they are listed as backups
+   */
+  getPreImageHashes(): Set<string> {
+    const hashes = new Set<string>();
+    for (const run of this.runs) {
+      for (const entry of run.entries) {
+        if (entry.before) {
+          hashes.add(entry.before);
+        }
+      }
+    }
+    return hashes;
+  }
+
+  /**
+   * Forget a run (after it was undone)
+   */
+  remove(id: string): void {
+    this.runs = this.runs.filter((run) => run.id !== id);
+  }
+
+  /**
+   * Forget every run of a mapping (e.g., on mapping delete)
+   */
+  clearMapping(mappingId: string): void {
+    this.runs = this.runs.filter((run) => run.mappingId !== mappingId);
+  }
+}
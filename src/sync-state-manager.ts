@@ -1,8 +1,11 @@
 import type { App } from "obsidian";
-import type { ProjectMapping, EVCLocalSyncSettings, ConflictResolution } from "./settings";
+import type { ProjectMapping, EVCLocalSyncSettings, ConflictResolution, SafetyLimit } from "./settings";
 import * as fsPromises from "fs/promises";
 import * as path from "path";
-import * as crypto from "crypto";
+import { ObjectStore } from "./object-store";
+import { lineSimilarity, splitLines } from "./three-way-merge";
+import { isBinaryFile } from "./binary-files";
+import { writeFileAtomic } from "./atomic-write";
 
 /**
  * State of a single file at last sync
@@ -10,7 +13,10 @@ import * as crypto from "crypto";
 export interface SyncFileState {
   /** Relative path within docs folder */
   path: string;
-  /** File content hash (MD5) for change detection */
+  /**
+   * File content hash (MD5) for change detection. Also the key of the file's
+   * last-synced body in the snapshot object store.
+   */
   hash: string;
   /** Last modified time (mtime) in ms */
   mtime: number;
@@ -30,6 +36,10 @@ export interface MappingSyncState {
   aiFiles: SyncFileState[];
   /** State of files in Obsidian at last sync */
   obsFiles: SyncFileState[];
+  /** Folders (relative paths) in the AI project at last full sync (absent in older files) */
+  aiDirs?: string[];
+  /** Folders in Obsidian at last full sync (absent in older files) */
+  obsDirs?: string[];
   /** Schema version for migrations */
   version: number;
 }
@@ -40,10 +50,30 @@ export interface MappingSyncState {
 export interface SyncStateStore {
   /** Map of mappingId -> MappingSyncState */
   mappings: Record<string, MappingSyncState>;
+  /** Conflicts background syncs left for the user (absent in older files) */
+  pendingConflicts?: PendingConflict[];
+  /**
+   * Map of mappingId -> relative paths of the conflict copies "keep-both"
+   * wrote. They are left out of syncs until renamed (absent in older files).
+   */
+  conflictCopies?: Record<string, string[]>;
   /** Global schema version */
   version: number;
 }
 
+/**
+ * A conflict a background sync found under "always-ask" and skipped instead
+ * of interrupting the user. Kept until a run sees the pair in sync again or
+ * the user resolves it.
+ */
+export interface PendingConflict {
+  mappingId: string;
+  /** Relative path within the docs folder */
+  relativePath: string;
+  /** When the conflict was first queued (ms) */
+  queuedAt: number;
+}
+
 /**
  * Detected deletion
  */
@@ -60,9 +90,49 @@ export interface DetectedDeletion {
   lastState: SyncFileState;
 }
 
+/**
+ * Detected rename or move: a file that disappeared from one side since the last
+ * sync, paired with a file that appeared on that side
+ */
+export interface DetectedRename {
+  /** Relative path at last sync */
+  from: string;
+  /** Relative path now */
+  to: string;
+  /** Where the file was renamed */
+  renamedIn: "ai" | "obsidian";
+  /** Where the rename should be replayed */
+  applyTo: "ai" | "obsidian";
+  /** Full path of the file to rename on the applyTo side */
+  targetPath: string;
+  /** 1 for identical content, otherwise the line similarity that paired them */
+  similarity: number;
+}
+
+/**
+ * How a file present on both sides changed since the last sync
+ */
+export type FileChange = "unchanged" | "ai-changed" | "obsidian-changed" | "both-changed";
+
 const SYNC_STATE_FILE = "sync-state.json";
+/** The state as it was before the last save, loaded when the current file is unreadable */
+const PREVIOUS_STATE_FILE = "sync-state.prev.json";
+const OBJECTS_DIR = "objects";
 const CURRENT_VERSION = 1;
 
+/** Minimum line similarity for a rename-with-edits (git's default, 50%) */
+const RENAME_SIMILARITY_THRESHOLD = 0.5;
+/** Above this many candidate pairs, only exact-content renames are paired */
+const MAX_SIMILARITY_PAIRS = 2500;
+/**
+ * Budget for comparing renamed-and-edited candidates, in line-count products
+ * summed over the pairs compared (a diff costs up to one cell per product).
+ * Pairs past it are left as a deletion plus a new file.
+ */
+const MAX_SIMILARITY_CELLS = 16_000_000;
+/** Comparing pairs hands the event loop back after about this many cells */
+const SIMILARITY_YIELD_CELLS = 250_000;
+
 /**
  * Manages sync state persistence for file deletion tracking (FR-060)
  */
@@ -70,10 +140,15 @@ export class SyncStateManager {
   private app: App;
   private store: SyncStateStore;
   private pluginDir: string;
+  /** Last-synced body of every file in the state, keyed by SyncFileState.hash */
+  private objectStore: ObjectStore;
+  /** Set when a hash may have stopped being referenced; collectGarbage() then runs gc */
+  private gcPending = false;
 
   constructor(app: App, pluginDir: string) {
     this.app = app;
     this.pluginDir = pluginDir;
+    this.objectStore = new ObjectStore(path.join(pluginDir, OBJECTS_DIR));
     this.store = {
       mappings: {},
       version: CURRENT_VERSION,
@@ -81,48 +156,85 @@ export class SyncStateManager {
   }
 
   /**
-   * Load state from disk
+   * Load state from disk. An unreadable or missing sync-state.json falls back
+   * to the copy kept by the previous save: starting fresh would silently turn
+   * off deletion detection until the next full sync.
    */
   async load(): Promise<void> {
-    const statePath = path.join(this.pluginDir, SYNC_STATE_FILE);
+    const current = await this.readStateFile(SYNC_STATE_FILE);
+    if (current) {
+      this.store = current;
+      return;
+    }
+
+    const previous = await this.readStateFile(PREVIOUS_STATE_FILE);
+    if (previous) {
+      console.warn("EVC Sync: sync-state.json could not be read, using the previous copy");
+      this.store = previous;
+      return;
+    }
+
+    // Start fresh on error or missing file
+    this.store = { mappings: {}, version: CURRENT_VERSION };
+  }
 
+  /**
+   * Read one state file, or null when it is missing or unusable
+   */
+  private async readStateFile(fileName: string): Promise<SyncStateStore | null> {
     try {
-      await fsPromises.access(statePath);
-      const content = await fsPromises.readFile(statePath, "utf-8");
+      const content = await fsPromises.readFile(path.join(this.pluginDir, fileName), "utf-8");
       const data = JSON.parse(content) as SyncStateStore;
 
       // Validate version
       if (data.version && data.version <= CURRENT_VERSION) {
-        this.store = data;
-      } else {
-        // Future version, reset to empty
-        console.warn("EVC Sync: sync-state.json has newer version, resetting");
-        this.store = { mappings: {}, version: CURRENT_VERSION };
+        return data;
       }
+      // Future version, reset to empty
+      console.warn(`EVC Sync: ${fileName} has newer version, resetting`);
+      return { mappings: {}, version: CURRENT_VERSION };
     } catch (error) {
       // ENOENT means file doesn't exist yet (first run), other errors are real failures
       if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
-        console.error("EVC Sync: Failed to load sync state:", error);
+        console.error(`EVC Sync: Failed to load ${fileName}:`, error);
       }
-      // Start fresh on error or missing file
-      this.store = { mappings: {}, version: CURRENT_VERSION };
+      return null;
     }
   }
 
   /**
-   * Save state to disk
+   * Save state to disk: written atomically, and the state it replaces is kept
+   * as sync-state.prev.json
    */
   async save(): Promise<void> {
     const statePath = path.join(this.pluginDir, SYNC_STATE_FILE);
 
     try {
       const content = JSON.stringify(this.store, null, 2);
-      await fsPromises.writeFile(statePath, content, "utf-8");
+      await fsPromises.mkdir(this.pluginDir, { recursive: true });
+      await writeFileAtomic(statePath, content, { previousPath: path.join(this.pluginDir, PREVIOUS_STATE_FILE) });
     } catch (error) {
       console.error("EVC Sync: Failed to save sync state:", error);
     }
   }
 
+  /**
+   * Remove snapshots no mapping's state references any more. The live set is
+   * the saved state, so this must not run while a run has snapshotted files
+   * (buildFileState) it has not recorded yet (updateState): their objects
+   * would be removed. The engine calls it when no run is in progress.
+   */
+  async collectGarbage(): Promise<void> {
+    if (this.gcPending) {
+      this.gcPending = false;
+      try {
+        await this.objectStore.gc(this.getLiveHashes());
+      } catch (error) {
+        console.error("EVC Sync: Failed to clean up snapshots:", error);
+      }
+    }
+  }
+
   /**
    * Get state for a mapping (or null if first sync)
    */
@@ -138,27 +250,290 @@ export class SyncStateManager {
   }
 
   /**
-   * Update state after successful sync
+   * Update state after successful sync.
+   *
+   * A path present on both sides with different content was not brought in
+   * sync by this run (a skipped conflict, a one-way mapping, a failed write), so
+   * its previous entries are kept: the state must keep describing the content
+   * both sides last AGREED on, or the next merge would diff against one side's
+   * unsynced edit.
+   *
+   * `syncedPaths` are paths this run copied or merged. Their sides count as in
+   * sync even when the bytes differ — link rewriting writes each side in its own
+   * syntax — and that pair of hashes becomes the new record.
    */
   updateState(
     mappingId: string,
     aiFiles: SyncFileState[],
-    obsFiles: SyncFileState[]
+    obsFiles: SyncFileState[],
+    syncedPaths: Set<string> = new Set()
   ): void {
+    const previous = this.store.mappings[mappingId];
+    const synced = new Set([...syncedPaths].map((p) => this.normalizePathKey(p)));
+    const aiHashes = new Map(aiFiles.map((f) => [this.normalizePathKey(f.path), f.hash]));
+    const unsynced = new Set(
+      obsFiles
+        .map((f) => [this.normalizePathKey(f.path), f.hash] as const)
+        .filter(([key, hash]) => aiHashes.has(key) && aiHashes.get(key) !== hash && !synced.has(key))
+        .map(([key]) => key)
+    );
+    // An unsynced pair keeps its previous record; one that was never synced
+    // gets none, so it still has no ancestor (and stays a conflict) next run.
+    const keepPrevious = (current: SyncFileState[], prior: SyncFileState[]): SyncFileState[] => {
+      const priorByKey = new Map(prior.map((f) => [this.normalizePathKey(f.path), f]));
+      return current.flatMap((f) => {
+        const key = this.normalizePathKey(f.path);
+        if (!unsynced.has(key)) {
+          return [f];
+        }
+        const prior = priorByKey.get(key);
+        return prior ? [prior] : [];
+      });
+    };
+    aiFiles = keepPrevious(aiFiles, previous?.aiFiles ?? []);
+    obsFiles = keepPrevious(obsFiles, previous?.obsFiles ?? []);
+
+    // Snapshots are kept only for the LAST sync — any hash this update drops is
+    // garbage unless another entry still shares it, which gc() works out.
+    this.gcPending = true;
     this.store.mappings[mappingId] = {
       mappingId,
       lastSyncTime: Date.now(),
       aiFiles,
       obsFiles,
+      // Folders are listed by full runs (updateDirs), and along a scoped
+      // run's paths by updateStatePaths
+      aiDirs: previous?.aiDirs,
+      obsDirs: previous?.obsDirs,
       version: CURRENT_VERSION,
     };
   }
 
   /**
-   * Clear state for a mapping (e.g., on mapping delete)
+   * Record the folders of both sides as a full sync left them, empty ones
+   * included, so the next run can tell a folder created on one side from one
+   * deleted on the other
+   */
+  updateDirs(mappingId: string, aiDirs: string[], obsDirs: string[]): void {
+    const state = this.store.mappings[mappingId];
+    if (!state) {
+      return;
+    }
+    state.aiDirs = aiDirs;
+    state.obsDirs = obsDirs;
+  }
+
+  /**
+   * Update state for only the given relative paths after an incremental sync.
+   * Entries for every other path are kept as they were; a listed path missing
+   * from both new lists is dropped (it no longer exists on that side). The
+   * same goes for the folders along the paths: `dirs` lists the ones that
+   * still exist on each side, so a folder the run removed (an emptied one,
+   * see pruneEmptyAiFolders) is not taken for a deletion by the next full run.
+   */
+  updateStatePaths(
+    mappingId: string,
+    relativePaths: string[],
+    aiFiles: SyncFileState[],
+    obsFiles: SyncFileState[],
+    syncedPaths?: Set<string>,
+    dirs?: Record<"ai" | "obsidian", string[]>
+  ): void {
+    const previous = this.store.mappings[mappingId];
+    const scope = new Set(relativePaths.map((p) => this.normalizePathKey(p)));
+    const outOfScope = (f: SyncFileState): boolean => !scope.has(this.normalizePathKey(f.path));
+
+    this.updateState(
+      mappingId,
+      [...(previous?.aiFiles.filter(outOfScope) ?? []), ...aiFiles],
+      [...(previous?.obsFiles.filter(outOfScope) ?? []), ...obsFiles],
+      syncedPaths
+    );
+
+    const state = this.store.mappings[mappingId];
+    if (!state || !dirs) {
+      return;
+    }
+    const along = new Set<string>();
+    for (const key of scope) {
+      const parts = key.split("/");
+      for (let i = 1; i < parts.length; i++) {
+        along.add(parts.slice(0, i).join("/"));
+      }
+    }
+    const relist = (listed: string[] | undefined, existing: string[]): string[] | undefined =>
+      // Older states without folders keep waiting for a full run to list them
+      listed && [...listed.filter((d) => !along.has(this.normalizePathKey(d))), ...existing];
+    state.aiDirs = relist(state.aiDirs, dirs.ai);
+    state.obsDirs = relist(state.obsDirs, dirs.obsidian);
+  }
+
+  /**
+   * Put back the records a sync run replaced for the given paths ("Undo last
+   * sync"). A path without an earlier record loses its record. Unlike
+   * updateStatePaths, the records are taken as they are.
+   */
+  restoreStatePaths(
+    mappingId: string,
+    relativePaths: string[],
+    aiFiles: SyncFileState[],
+    obsFiles: SyncFileState[]
+  ): void {
+    const current = this.store.mappings[mappingId];
+    if (!current) {
+      return;
+    }
+    const scope = new Set(relativePaths.map((p) => this.normalizePathKey(p)));
+    const outOfScope = (f: SyncFileState): boolean => !scope.has(this.normalizePathKey(f.path));
+
+    this.gcPending = true;
+    this.store.mappings[mappingId] = {
+      ...current,
+      aiFiles: [...current.aiFiles.filter(outOfScope), ...aiFiles],
+      obsFiles: [...current.obsFiles.filter(outOfScope), ...obsFiles],
+    };
+  }
+
+  /**
+   * Clear state for a mapping (e.g., on mapping delete). Its snapshots are
+   * released and removed on the next save() unless another mapping shares them.
    */
   clearState(mappingId: string): void {
     delete this.store.mappings[mappingId];
+    this.store.pendingConflicts = this.getPendingConflicts().filter((c) => c.mappingId !== mappingId);
+    delete this.store.conflictCopies?.[mappingId];
+    this.gcPending = true;
+  }
+
+  /**
+   * Relative paths of a mapping's conflict copies
+   */
+  getConflictCopies(mappingId: string): string[] {
+    return this.store.conflictCopies?.[mappingId] ?? [];
+  }
+
+  /**
+   * Track a conflict copy so syncs leave it alone until it is renamed
+   */
+  addConflictCopy(mappingId: string, relativePath: string): void {
+    this.store.conflictCopies = {
+      ...this.store.conflictCopies,
+      [mappingId]: [...this.getConflictCopies(mappingId), relativePath],
+    };
+  }
+
+  /**
+   * Stop tracking conflict copies that are gone from both sides (renamed or
+   * deleted), so a new file that happens to get the same name is synced
+   */
+  pruneConflictCopies(mappingId: string, exists: (relativePath: string) => boolean): void {
+    const copies = this.getConflictCopies(mappingId);
+    const kept = copies.filter(exists);
+    if (kept.length === copies.length) {
+      return;
+    }
+    const { [mappingId]: _dropped, ...others } = this.store.conflictCopies ?? {};
+    this.store.conflictCopies = kept.length > 0 ? { ...others, [mappingId]: kept } : others;
+  }
+
+  /**
+   * Queued conflicts, of one mapping or of all of them, oldest first
+   */
+  getPendingConflicts(mappingId?: string): PendingConflict[] {
+    return (this.store.pendingConflicts ?? [])
+      .filter((c) => mappingId === undefined || c.mappingId === mappingId)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  /**
+   * Replace a mapping's queued conflicts within the paths a run looked at
+   * (`scope`, or the whole mapping when null) with the ones it deferred.
+   * A path queued before keeps its original queue time.
+   */
+  updatePendingConflicts(mappingId: string, scope: string[] | null, deferredPaths: string[]): void {
+    const scopeKeys = scope ? new Set(scope.map((p) => this.normalizePathKey(p))) : null;
+    const inScope = (c: PendingConflict): boolean =>
+      c.mappingId === mappingId && (!scopeKeys || scopeKeys.has(this.normalizePathKey(c.relativePath)));
+
+    const all = this.store.pendingConflicts ?? [];
+    const previous = new Map(all.filter(inScope).map((c) => [this.normalizePathKey(c.relativePath), c]));
+    const now = Date.now();
+    const deferred = deferredPaths.map((relativePath) => ({
+      mappingId,
+      relativePath,
+      queuedAt: previous.get(this.normalizePathKey(relativePath))?.queuedAt ?? now,
+    }));
+
+    this.store.pendingConflicts = [...all.filter((c) => !inScope(c)), ...deferred];
+  }
+
+  /**
+   * Body of a file as of its last sync, or undefined when the file was never
+   * synced (or its snapshot is gone). After a sync both sides hold the same
+   * content, so the AI-side record is used and the Obsidian-side one only for
+   * files the AI side did not list when the state was taken.
+   */
+  async getLastSyncedContent(mappingId: string, relativePath: string): Promise<Buffer | undefined> {
+    const state = this.getState(mappingId);
+    if (!state) {
+      return undefined;
+    }
+    const key = this.normalizePathKey(relativePath);
+    const entry =
+      state.aiFiles.find((f) => this.normalizePathKey(f.path) === key) ??
+      state.obsFiles.find((f) => this.normalizePathKey(f.path) === key);
+    return entry ? this.objectStore.get(entry.hash) : undefined;
+  }
+
+  /**
+   * Classify a file present on both sides against its last-synced hashes.
+   *
+   * Identical content is "unchanged" whatever happened to it in between. A file
+   * with no last-synced record (first sync, or created on both sides since) has
+   * no ancestor to attribute an edit to, so differing content is "both-changed"
+   * and goes to conflict resolution.
+   */
+  classifyChange(mappingId: string, relativePath: string, aiHash: string, obsHash: string): FileChange {
+    if (aiHash === obsHash) {
+      return "unchanged";
+    }
+
+    const state = this.getState(mappingId);
+    const key = this.normalizePathKey(relativePath);
+    const lastAi = state?.aiFiles.find((f) => this.normalizePathKey(f.path) === key);
+    const lastObs = state?.obsFiles.find((f) => this.normalizePathKey(f.path) === key);
+    const aiBase = lastAi?.hash ?? lastObs?.hash;
+    const obsBase = lastObs?.hash ?? lastAi?.hash;
+    if (aiBase === undefined || obsBase === undefined) {
+      return "both-changed";
+    }
+
+    const aiChanged = aiHash !== aiBase;
+    const obsChanged = obsHash !== obsBase;
+    if (!aiChanged && !obsChanged) {
+      // Different bytes recorded as in sync: the copy rewrote them (rewriteLinks)
+      return "unchanged";
+    }
+    if (aiChanged && !obsChanged) {
+      return "ai-changed";
+    }
+    if (obsChanged && !aiChanged) {
+      return "obsidian-changed";
+    }
+    return "both-changed";
+  }
+
+  /**
+   * Every hash referenced by any mapping's state — the gc root set.
+   */
+  private getLiveHashes(): Set<string> {
+    const live = new Set<string>();
+    for (const state of Object.values(this.store.mappings)) {
+      for (const file of [...state.aiFiles, ...state.obsFiles]) {
+        live.add(file.hash);
+      }
+    }
+    return live;
   }
 
   /**
@@ -225,6 +600,221 @@ export class SyncStateManager {
     return deletions;
   }
 
+  /**
+   * Detect renames and moves by pairing files that disappeared from a side
+   * with files that appeared on it since the last sync.
+   *
+   * Only files the other side still has at the old path (and lacks at the new
+   * one) are candidates — that is the shape that would otherwise become one
+   * deletion plus one new copy. Pairs are made by identical content first, then
+   * by line similarity of the new file against the old one's snapshot. As with
+   * detectDeletions, renames in Obsidian are only considered when bidirectional.
+   */
+  async detectRenames(
+    mappingId: string,
+    currentAiFiles: Map<string, { relativePath: string; absolutePath: string }>,
+    currentObsFiles: Map<string, { relativePath: string; absolutePath: string }>,
+    bidirectional: boolean
+  ): Promise<DetectedRename[]> {
+    const previousState = this.getState(mappingId);
+    if (!previousState) {
+      return [];
+    }
+
+    const renames = await this.pairRenames("ai", previousState.aiFiles, currentAiFiles, currentObsFiles);
+    if (bidirectional) {
+      renames.push(...(await this.pairRenames("obsidian", previousState.obsFiles, currentObsFiles, currentAiFiles)));
+    }
+    return renames;
+  }
+
+  /**
+   * Pair disappeared and appeared files on one side (see detectRenames)
+   */
+  private async pairRenames(
+    side: "ai" | "obsidian",
+    previousFiles: SyncFileState[],
+    current: Map<string, { relativePath: string; absolutePath: string }>,
+    other: Map<string, { relativePath: string; absolutePath: string }>
+  ): Promise<DetectedRename[]> {
+    const previousKeys = new Set(previousFiles.map((f) => this.normalizePathKey(f.path)));
+    const disappeared = previousFiles.filter((f) => {
+      const key = this.normalizePathKey(f.path);
+      return !current.has(key) && other.has(key);
+    });
+    if (disappeared.length === 0) {
+      return [];
+    }
+
+    const appeared: Array<{ relativePath: string; content: Buffer; hash: string; binary: boolean; lines: number }> = [];
+    for (const [key, file] of current) {
+      if (previousKeys.has(key) || other.has(key)) {
+        continue;
+      }
+      try {
+        const content = await fsPromises.readFile(file.absolutePath);
+        const binary = isBinaryFile(file.relativePath, content);
+        appeared.push({
+          relativePath: file.relativePath,
+          content,
+          hash: ObjectStore.hash(content),
+          binary,
+          lines: binary ? 0 : splitLines(content.toString("utf-8")).length,
+        });
+      } catch {
+        // Unreadable now; it will be copied (or fail) like any new file
+      }
+    }
+
+    const renames: DetectedRename[] = [];
+    const pair = (old: SyncFileState, now: { relativePath: string }, similarity: number): void => {
+      // Always there: disappeared files are the ones the other side still has
+      const target = other.get(this.normalizePathKey(old.path));
+      if (!target) {
+        return;
+      }
+      renames.push({
+        from: old.path,
+        to: now.relativePath,
+        renamedIn: side,
+        applyTo: side === "ai" ? "obsidian" : "ai",
+        targetPath: target.absolutePath,
+        similarity,
+      });
+    };
+
+    // Identical content
+    const unpairedOld: SyncFileState[] = [];
+    for (const old of disappeared) {
+      const index = appeared.findIndex((a) => a.hash === old.hash);
+      if (index === -1) {
+        unpairedOld.push(old);
+      } else {
+        pair(old, appeared[index], 1);
+        appeared.splice(index, 1);
+      }
+    }
+
+    // Renamed and edited: best match above the threshold, greedily
+    if (unpairedOld.length === 0 || appeared.length === 0 || unpairedOld.length * appeared.length > MAX_SIMILARITY_PAIRS) {
+      return renames;
+    }
+    const candidates: Array<{ old: SyncFileState; now: (typeof appeared)[number]; similarity: number }> = [];
+    let budget = MAX_SIMILARITY_CELLS;
+    let sinceYield = 0;
+    for (const old of unpairedOld) {
+      if (budget === 0) {
+        break;
+      }
+      const snapshot = await this.objectStore.get(old.hash);
+      if (!snapshot) {
+        continue;
+      }
+      // Line similarity means nothing for bytes; binaries pair by identical content only
+      if (isBinaryFile(old.path, snapshot)) {
+        continue;
+      }
+      const oldText = snapshot.toString("utf-8");
+      const oldLines = splitLines(oldText).length;
+      for (const now of appeared) {
+        if (now.binary) {
+          continue;
+        }
+        // Even if every line of the shorter file were shared, similarity is
+        // 2 * shorter / (old + new): too far apart in length to reach the threshold
+        if (2 * Math.min(oldLines, now.lines) < RENAME_SIMILARITY_THRESHOLD * (oldLines + now.lines)) {
+          continue;
+        }
+        const cells = oldLines * now.lines;
+        if (cells > budget) {
+          budget = 0;
+          break;
+        }
+        budget -= cells;
+        sinceYield += cells;
+        if (sinceYield >= SIMILARITY_YIELD_CELLS) {
+          sinceYield = 0;
+          await new Promise<void>((resolve) => window.setTimeout(resolve, 0));
+        }
+        const similarity = lineSimilarity(oldText, now.content.toString("utf-8"));
+        if (similarity >= RENAME_SIMILARITY_THRESHOLD) {
+          candidates.push({ old, now, similarity });
+        }
+      }
+    }
+    candidates.sort((a, b) => b.similarity - a.similarity);
+    const used = new Set<object>();
+    for (const candidate of candidates) {
+      if (used.has(candidate.old) || used.has(candidate.now)) {
+        continue;
+      }
+      used.add(candidate.old);
+      used.add(candidate.now);
+      pair(candidate.old, candidate.now, candidate.similarity);
+    }
+
+    return renames;
+  }
+
+  /**
+   * Move a file's last-synced entries to its new path after a rename has been
+   * replayed, so the file keeps its history (and merge ancestor) there.
+   */
+  applyRename(mappingId: string, from: string, to: string): void {
+    const state = this.getState(mappingId);
+    if (!state) {
+      return;
+    }
+    const fromKey = this.normalizePathKey(from);
+    const toKey = this.normalizePathKey(to);
+    const move = (files: SyncFileState[]): SyncFileState[] =>
+      files
+        .filter((f) => this.normalizePathKey(f.path) !== toKey)
+        .map((f) => (this.normalizePathKey(f.path) === fromKey ? { ...f, path: to } : f));
+    state.aiFiles = move(state.aiFiles);
+    state.obsFiles = move(state.obsFiles);
+  }
+
+  /**
+   * Whether the last sync state knows a relative path on either side
+   */
+  hasPath(mappingId: string, relativePath: string): boolean {
+    const state = this.getState(mappingId);
+    if (!state) {
+      return false;
+    }
+    const key = this.normalizePathKey(relativePath);
+    return [...state.aiFiles, ...state.obsFiles].some((f) => this.normalizePathKey(f.path) === key);
+  }
+
+  /**
+   * Whether the state lists a folder on one side (see updateDirs)
+   */
+  hasDir(mappingId: string, side: "ai" | "obsidian", relativePath: string): boolean {
+    const state = this.getState(mappingId);
+    const dirs = side === "ai" ? state?.aiDirs : state?.obsDirs;
+    const key = this.normalizePathKey(relativePath);
+    return (dirs ?? []).some((d) => this.normalizePathKey(d) === key);
+  }
+
+  /**
+   * Paths the state knows (on either side) inside a folder, at any depth
+   */
+  getPathsUnder(mappingId: string, folder: string): string[] {
+    const state = this.getState(mappingId);
+    if (!state) {
+      return [];
+    }
+    const prefix = this.normalizePathKey(folder) + "/";
+    const paths = new Set<string>();
+    for (const file of [...state.aiFiles, ...state.obsFiles]) {
+      if (this.normalizePathKey(file.path).startsWith(prefix)) {
+        paths.add(file.path);
+      }
+    }
+    return [...paths];
+  }
+
   /**
    * Normalize path for case-insensitive comparison on macOS/Windows
    */
@@ -236,15 +826,16 @@ export class SyncStateManager {
   }
 
   /**
-   * Calculate MD5 hash of file content
+   * Calculate MD5 hash of file content (raw bytes, same key as the object store)
    */
   static async hashFile(filePath: string): Promise<string> {
-    const content = await fsPromises.readFile(filePath, "utf-8");
-    return crypto.createHash("md5").update(content).digest("hex");
+    const content = await fsPromises.readFile(filePath);
+    return ObjectStore.hash(content);
   }
 
   /**
-   * Build file state from current files
+   * Build file state from current files, snapshotting each file's body into
+   * the object store
    */
   async buildFileState(
     files: Array<{ relativePath: string; absolutePath: string; mtime: number; size: number }>
@@ -253,7 +844,9 @@ export class SyncStateManager {
 
     for (const file of files) {
       try {
-        const hash = await SyncStateManager.hashFile(file.absolutePath);
+        // One read serves both the hash and the snapshot of the synced body
+        const content = await fsPromises.readFile(file.absolutePath);
+        const hash = await this.objectStore.put(content);
         states.push({
           path: file.relativePath,
           hash,
@@ -301,14 +894,45 @@ export function getEffectiveExcludePatterns(
   return mapping.excludePatternsOverride ?? globalSettings.excludePatterns;
 }
 
+/**
+ * Get effective include patterns for a mapping (empty = include everything).
+ * There is no global include list: narrowing is always per mapping.
+ */
+export function getEffectiveIncludePatterns(mapping: ProjectMapping): string[] {
+  return mapping.includePatternsOverride ?? [];
+}
+
+/**
+ * Safety limit of mappings that do not set their own
+ */
+export const DEFAULT_SAFETY_LIMIT: SafetyLimit = {
+  maxFiles: 50,
+  maxPercent: 50,
+};
+
+/**
+ * Get effective safety limit for a mapping (mapping override or default)
+ */
+export function getEffectiveSafetyLimit(mapping: ProjectMapping): SafetyLimit {
+  return {
+    maxFiles: mapping.maxChangedFiles ?? DEFAULT_SAFETY_LIMIT.maxFiles,
+    maxPercent: mapping.maxChangedPercent ?? DEFAULT_SAFETY_LIMIT.maxPercent,
+  };
+}
+
 /**
  * Check if mapping has any custom settings
  */
 export function hasCustomSettings(mapping: ProjectMapping): boolean {
   return !!(
     mapping.conflictResolutionOverride ||
+    mapping.conflictRules?.length ||
     mapping.fileTypesOverride ||
-    mapping.excludePatternsOverride
+    mapping.excludePatternsOverride ||
+    mapping.includePatternsOverride ||
+    mapping.frontmatterRules?.length ||
+    mapping.maxChangedFiles !== undefined ||
+    mapping.maxChangedPercent !== undefined
   );
 }
 
@@ -327,10 +951,16 @@ export function getCustomSettingsDescription(
       "always-ask": "Always ask",
       "ai-wins": "AI project wins",
       "obsidian-wins": "Obsidian wins",
+      "auto-merge": "Merge both versions",
+      "keep-both": "Keep both versions",
     };
     descriptions.push(`Conflict resolution: ${labels[mapping.conflictResolutionOverride]}`);
   }
 
+  if (mapping.conflictRules?.length) {
+    descriptions.push(`Conflict rules: ${mapping.conflictRules.length}`);
+  }
+
   if (mapping.fileTypesOverride) {
     descriptions.push(`File types: ${mapping.fileTypesOverride.join(", ")}`);
   }
@@ -339,5 +969,32 @@ export function getCustomSettingsDescription(
     descriptions.push(`Excludes: ${mapping.excludePatternsOverride.join(", ")}`);
   }
 
+  if (mapping.includePatternsOverride) {
+    descriptions.push(`Includes: ${mapping.includePatternsOverride.join(", ")}`);
+  }
+
+  if (mapping.frontmatterRules?.length) {
+    descriptions.push(`Frontmatter rules: ${mapping.frontmatterRules.length}`);
+  }
+
+  if (mapping.maxChangedFiles !== undefined || mapping.maxChangedPercent !== undefined) {
+    const limit = getEffectiveSafetyLimit(mapping);
+    descriptions.push(`Safety limit: ${formatSafetyLimit(limit)}`);
+  }
+
   return descriptions;
 }
+
+/**
+ * Safety limit as shown to the user, e.g. "50 files or 50%"
+ */
+export function formatSafetyLimit(limit: SafetyLimit): string {
+  const parts: string[] = [];
+  if (limit.maxFiles > 0) {
+    parts.push(`${limit.maxFiles} files`);
+  }
+  if (limit.maxPercent > 0) {
+    parts.push(`${limit.maxPercent}%`);
+  }
+  return parts.length > 0 ? parts.join(" or ") : "none";
+}
@@ -0,0 +1,170 @@
+import { diffLines, splitLines, type LineHunk } from "./three-way-merge";
+
+/**
+ * Two-way diff for showing a conflict to a person (ConflictModal).
+ *
+ * Pure functions over strings, built on the same line diff as the three-way
+ * merge. `a` is always the AI project version and `b` the Obsidian version.
+ * The modal renders the rows as a unified or side-by-side diff; the hunks are
+ * what "Merge manually" lets the user pick from.
+ */
+
+/**
+ * One row of a rendered diff. Line numbers are 0-based indexes into each side.
+ */
+export type DiffRow =
+  | { type: "context"; aLine: number; bLine: number; text: string }
+  /** Unchanged lines hidden behind an expander */
+  | { type: "collapsed"; aLine: number; bLine: number; lines: string[] }
+  /** One hunk: `removed` lines of `a` replaced by `added` lines of `b` */
+  | { type: "change"; hunk: number; aLine: number; bLine: number; removed: string[]; added: string[] };
+
+export interface TextDiff {
+  hunks: LineHunk[];
+  rows: DiffRow[];
+}
+
+/**
+ * A run of characters in a changed line, marked when it differs from the
+ * line it is paired with
+ */
+export interface WordSegment {
+  text: string;
+  changed: boolean;
+}
+
+/** Which version a hunk is taken from when merging by hand */
+export type HunkChoice = "ai" | "obsidian" | "both";
+
+/** Unchanged lines shown around each change before the rest is collapsed */
+export const DEFAULT_DIFF_CONTEXT = 3;
+
+/** Words, runs of whitespace and single punctuation characters */
+const WORD_RE = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+/**
+ * Diff `a` against `b` into display rows, keeping `context` unchanged lines
+ * around each change and collapsing the rest.
+ */
+export function buildTextDiff(a: string, b: string, context = DEFAULT_DIFF_CONTEXT): TextDiff {
+  const aLines = splitLines(a);
+  const bLines = splitLines(b);
+  const hunks = diffLines(aLines, bLines);
+  const rows: DiffRow[] = [];
+
+  const pushUnchanged = (aStart: number, bStart: number, count: number, showHead: boolean, showTail: boolean) => {
+    const head = showHead ? Math.min(context, count) : 0;
+    const tail = showTail ? Math.min(context, count - head) : 0;
+    const hidden = count - head - tail;
+    // Hiding a single line saves nothing: the expander takes the same room
+    const visible = (from: number, to: number) => {
+      for (let i = from; i < to; i++) {
+        rows.push({ type: "context", aLine: aStart + i, bLine: bStart + i, text: aLines[aStart + i] });
+      }
+    };
+    if (hidden <= 1) {
+      visible(0, count);
+      return;
+    }
+    visible(0, head);
+    rows.push({
+      type: "collapsed",
+      aLine: aStart + head,
+      bLine: bStart + head,
+      lines: aLines.slice(aStart + head, aStart + head + hidden),
+    });
+    visible(head + hidden, count);
+  };
+
+  let aPos = 0;
+  let bPos = 0;
+  hunks.forEach((hunk, index) => {
+    pushUnchanged(aPos, bPos, hunk.aStart - aPos, index > 0, true);
+    rows.push({
+      type: "change",
+      hunk: index,
+      aLine: hunk.aStart,
+      bLine: hunk.bStart,
+      removed: aLines.slice(hunk.aStart, hunk.aEnd),
+      added: bLines.slice(hunk.bStart, hunk.bEnd),
+    });
+    aPos = hunk.aEnd;
+    bPos = hunk.bEnd;
+  });
+
+  // The empty "line" after a final newline is not worth a row
+  let trailing = aLines.length - aPos;
+  if (trailing > 0 && aLines[aLines.length - 1] === "" && bLines[bLines.length - 1] === "") {
+    trailing--;
+  }
+  pushUnchanged(aPos, bPos, trailing, hunks.length > 0, false);
+
+  return { hunks, rows };
+}
+
+/**
+ * Word-level difference between a removed line and the added line it pairs
+ * with, for highlighting inside a changed line.
+ */
+export function diffWords(removed: string, added: string): { removed: WordSegment[]; added: WordSegment[] } {
+  const aWords = removed.match(WORD_RE) ?? [];
+  const bWords = added.match(WORD_RE) ?? [];
+  const aChanged = new Array<boolean>(aWords.length).fill(false);
+  const bChanged = new Array<boolean>(bWords.length).fill(false);
+
+  for (const hunk of diffLines(aWords, bWords)) {
+    aChanged.fill(true, hunk.aStart, hunk.aEnd);
+    bChanged.fill(true, hunk.bStart, hunk.bEnd);
+  }
+
+  return { removed: toSegments(aWords, aChanged), added: toSegments(bWords, bChanged) };
+}
+
+/**
+ * The text a hand merge produces: unchanged lines as they are, and each hunk
+ * taken from the chosen side ("both" keeps the AI lines, then the Obsidian
+ * ones). A hunk without a choice keeps the AI version.
+ */
+export function applyHunkChoices(a: string, b: string, hunks: LineHunk[], choices: HunkChoice[]): string {
+  const aLines = splitLines(a);
+  const bLines = splitLines(b);
+  const output: string[] = [];
+  let aPos = 0;
+
+  hunks.forEach((hunk, index) => {
+    output.push(...aLines.slice(aPos, hunk.aStart));
+    const fromAi = aLines.slice(hunk.aStart, hunk.aEnd);
+    const fromObsidian = bLines.slice(hunk.bStart, hunk.bEnd);
+    switch (choices[index] ?? "ai") {
+      case "ai":
+        output.push(...fromAi);
+        break;
+      case "obsidian":
+        output.push(...fromObsidian);
+        break;
+      case "both":
+        output.push(...fromAi, ...fromObsidian);
+        break;
+    }
+    aPos = hunk.aEnd;
+  });
+  output.push(...aLines.slice(aPos));
+
+  return output.join("\n");
+}
+
+/**
+ * Join consecutive tokens with the same changed flag
+ */
+function toSegments(tokens: string[], changed: boolean[]): WordSegment[] {
+  const segments: WordSegment[] = [];
+  tokens.forEach((text, index) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed[index]) {
+      last.text += text;
+    } else {
+      segments.push({ text, changed: changed[index] });
+    }
+  });
+  return segments;
+}
@@ -0,0 +1,293 @@
+/**
+ * Line-based three-way merge for the "merge" conflict decision.
+ *
+ * Pure functions over strings — no fs, no vault — so the merge rules can be
+ * tested directly (see __tests__/threeWayMerge.test.ts). The caller supplies the
+ * common ancestor (the content both sides had at the last sync) and writes the
+ * result wherever it needs to go.
+ *
+ * The algorithm is the classic diff3 shape: diff the ancestor against each side,
+ * walk both hunk lists in ancestor order, take a side's hunk verbatim when only
+ * that side touched the region, and emit git-style conflict markers when both
+ * sides touched it differently. Adjacent edits count as overlapping, same as git:
+ * two people editing neighbouring lines is exactly the case a human should see.
+ */
+
+/**
+ * A changed region between two line arrays: lines [aStart, aEnd) of `a` were
+ * replaced by lines [bStart, bEnd) of `b`. Either range may be empty (pure
+ * insertion or pure deletion).
+ */
+export interface LineHunk {
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+}
+
+export interface MergeLabels {
+  ai: string;
+  obsidian: string;
+}
+
+export interface MergeResult {
+  /** True when every region merged without overlap. */
+  clean: boolean;
+  /** Merged text; contains conflict markers when `clean` is false. */
+  content: string;
+  /** Number of conflict regions written as markers. */
+  conflicts: number;
+}
+
+export const DEFAULT_MERGE_LABELS: MergeLabels = {
+  ai: "AI project",
+  obsidian: "Obsidian",
+};
+
+/**
+ * Above this many LCS table cells the middle section is treated as one
+ * replaced block instead of being diffed line by line. A full rewrite of a long
+ * document is a conflict either way; this only bounds memory on huge files.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split text into lines. A trailing newline yields a final empty element, so
+ * splitLines(x).join("\n") === x for every input.
+ */
+export function splitLines(text: string): string[] {
+  return text.split("\n");
+}
+
+/**
+ * Diff two line arrays into hunks, ordered by position.
+ *
+ * Common prefix and suffix are trimmed first — the overwhelmingly common case
+ * for an edited document is one or two small regions in an otherwise identical
+ * file, and trimming keeps the LCS table tiny for it.
+ */
+export function diffLines(a: string[], b: string[]): LineHunk[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  if (aMid.length === 0 && bMid.length === 0) {
+    return [];
+  }
+
+  const matches = (aMid.length + 1) * (bMid.length + 1) > MAX_LCS_CELLS
+    ? []
+    : longestCommonSubsequence(aMid, bMid);
+
+  const hunks: LineHunk[] = [];
+  let ai = 0;
+  let bi = 0;
+  for (const [ma, mb] of [...matches, [aMid.length, bMid.length] as [number, number]]) {
+    if (ma > ai || mb > bi) {
+      hunks.push({
+        aStart: prefix + ai,
+        aEnd: prefix + ma,
+        bStart: prefix + bi,
+        bEnd: prefix + mb,
+      });
+    }
+    ai = ma + 1;
+    bi = mb + 1;
+  }
+  return hunks;
+}
+
+/**
+ * Index pairs [i, j] with a[i] === b[j] forming a longest common subsequence.
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Share of lines two texts have in common, from 0 (nothing) to 1 (identical):
+ * twice the unchanged line count over the total line count, as in git's rename
+ * similarity score.
+ */
+export function lineSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const aLines = splitLines(a);
+  const bLines = splitLines(b);
+  const removed = diffLines(aLines, bLines).reduce((sum, h) => sum + (h.aEnd - h.aStart), 0);
+  return (2 * (aLines.length - removed)) / (aLines.length + bLines.length);
+}
+
+interface SideHunk extends LineHunk {
+  side: "ai" | "obsidian";
+}
+
+/**
+ * Merge two descendants of a common ancestor.
+ *
+ * When `base` is undefined there is no ancestor to judge against, so no edit
+ * can be attributed to one side: every region where the two versions differ is
+ * written as a conflict, and only lines both sides share are kept as-is.
+ */
+export function mergeThreeWay(
+  base: string | undefined,
+  ai: string,
+  obsidian: string,
+  labels: MergeLabels = DEFAULT_MERGE_LABELS
+): MergeResult {
+  if (ai === obsidian) {
+    return { clean: true, content: ai, conflicts: 0 };
+  }
+
+  const aiLines = splitLines(ai);
+  const obsLines = splitLines(obsidian);
+
+  if (base === undefined) {
+    return mergeWithoutBase(aiLines, obsLines, labels);
+  }
+  if (base === ai) {
+    return { clean: true, content: obsidian, conflicts: 0 };
+  }
+  if (base === obsidian) {
+    return { clean: true, content: ai, conflicts: 0 };
+  }
+
+  const baseLines = splitLines(base);
+  const hunks: SideHunk[] = [
+    ...diffLines(baseLines, aiLines).map((h) => ({ ...h, side: "ai" as const })),
+    ...diffLines(baseLines, obsLines).map((h) => ({ ...h, side: "obsidian" as const })),
+  ].sort((x, y) => x.aStart - y.aStart || x.aEnd - y.aEnd);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let basePos = 0;
+  // Running (side length - base length) of every hunk already consumed, per side,
+  // so a base index can be mapped onto each side's line numbers.
+  let aiOffset = 0;
+  let obsOffset = 0;
+
+  let i = 0;
+  while (i < hunks.length) {
+    // Group every hunk that overlaps or touches the current region.
+    const group: SideHunk[] = [hunks[i]];
+    let groupStart = hunks[i].aStart;
+    let groupEnd = hunks[i].aEnd;
+    i++;
+    while (i < hunks.length && hunks[i].aStart <= groupEnd) {
+      group.push(hunks[i]);
+      groupEnd = Math.max(groupEnd, hunks[i].aEnd);
+      groupStart = Math.min(groupStart, hunks[i].aStart);
+      i++;
+    }
+
+    output.push(...baseLines.slice(basePos, groupStart));
+
+    const aiHunks = group.filter((h) => h.side === "ai");
+    const obsHunks = group.filter((h) => h.side === "obsidian");
+    const aiDelta = aiHunks.reduce((sum, h) => sum + (h.bEnd - h.bStart) - (h.aEnd - h.aStart), 0);
+    const obsDelta = obsHunks.reduce((sum, h) => sum + (h.bEnd - h.bStart) - (h.aEnd - h.aStart), 0);
+
+    const aiRegion = aiLines.slice(groupStart + aiOffset, groupEnd + aiOffset + aiDelta);
+    const obsRegion = obsLines.slice(groupStart + obsOffset, groupEnd + obsOffset + obsDelta);
+
+    if (obsHunks.length === 0) {
+      output.push(...aiRegion);
+    } else if (aiHunks.length === 0) {
+      output.push(...obsRegion);
+    } else if (sameLines(aiRegion, obsRegion)) {
+      // Both sides made the identical change — not a conflict.
+      output.push(...aiRegion);
+    } else {
+      output.push(...conflictBlock(aiRegion, obsRegion, labels));
+      conflicts++;
+    }
+
+    aiOffset += aiDelta;
+    obsOffset += obsDelta;
+    basePos = groupEnd;
+  }
+
+  output.push(...baseLines.slice(basePos));
+
+  return { clean: conflicts === 0, content: output.join("\n"), conflicts };
+}
+
+/**
+ * Two-way fallback for a file with no recorded ancestor: shared lines are kept,
+ * every difference becomes a conflict region.
+ */
+function mergeWithoutBase(aiLines: string[], obsLines: string[], labels: MergeLabels): MergeResult {
+  const output: string[] = [];
+  let conflicts = 0;
+  let aiPos = 0;
+
+  for (const hunk of diffLines(aiLines, obsLines)) {
+    output.push(...aiLines.slice(aiPos, hunk.aStart));
+    output.push(
+      ...conflictBlock(
+        aiLines.slice(hunk.aStart, hunk.aEnd),
+        obsLines.slice(hunk.bStart, hunk.bEnd),
+        labels
+      )
+    );
+    conflicts++;
+    aiPos = hunk.aEnd;
+  }
+  output.push(...aiLines.slice(aiPos));
+
+  return { clean: conflicts === 0, content: output.join("\n"), conflicts };
+}
+
+function conflictBlock(aiRegion: string[], obsRegion: string[], labels: MergeLabels): string[] {
+  return [
+    `<<<<<<< ${labels.ai}`,
+    ...aiRegion,
+    "=======",
+    ...obsRegion,
+    `>>>>>>> ${labels.obsidian}`,
+  ];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, idx) => line === b[idx]);
+}
+
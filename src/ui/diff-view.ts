@@ -0,0 +1,238 @@
+import {
+  diffWords,
+  type DiffRow,
+  type HunkChoice,
+  type TextDiff,
+  type WordSegment,
+} from "../text-diff";
+
+/**
+ * Unified (one column) or side-by-side (AI left, Obsidian right)
+ */
+export type DiffViewMode = "unified" | "split";
+
+type LineKind = "context" | "removed" | "added" | "empty";
+
+/**
+ * Renders a TextDiff of the AI (`a`) and Obsidian (`b`) versions of a file.
+ *
+ * Changed lines are paired in order and highlighted word by word; unchanged
+ * regions beyond the context are collapsed behind an expander. With hunk
+ * choices set, every change gets an "AI project / Obsidian / Both" picker for
+ * merging by hand, and the side that will be dropped is dimmed.
+ */
+export class DiffView {
+  private containerEl: HTMLElement;
+  private diff: TextDiff;
+  private mode: DiffViewMode = "unified";
+  /** Indexes of collapsed rows the user expanded */
+  private expanded = new Set<number>();
+  /** Set while merging by hand, one choice per hunk */
+  private choices: HunkChoice[] | null = null;
+
+  constructor(containerEl: HTMLElement, diff: TextDiff) {
+    this.containerEl = containerEl;
+    this.diff = diff;
+    this.containerEl.addClass("evc-diff");
+  }
+
+  /**
+   * Switch between unified and side-by-side rendering
+   */
+  setMode(mode: DiffViewMode): void {
+    this.mode = mode;
+    this.render();
+  }
+
+  /**
+   * Start (an array, one entry per hunk) or stop (null) picking hunks
+   */
+  setChoices(choices: HunkChoice[] | null): void {
+    this.choices = choices ? [...choices] : null;
+    this.render();
+  }
+
+  /**
+   * The current hunk choices, or null when not merging by hand
+   */
+  getChoices(): HunkChoice[] | null {
+    return this.choices ? [...this.choices] : null;
+  }
+
+  /**
+   * (Re)draw the diff, keeping the scroll position
+   */
+  render(): void {
+    const scrollTop = this.containerEl.scrollTop;
+    this.containerEl.empty();
+    this.containerEl.toggleClass("evc-diff-split", this.mode === "split");
+
+    this.diff.rows.forEach((row, index) => this.renderRow(row, index));
+
+    this.containerEl.scrollTop = scrollTop;
+  }
+
+  /**
+   * Render one diff row
+   */
+  private renderRow(row: DiffRow, index: number): void {
+    switch (row.type) {
+      case "context":
+        this.renderPair("context", row.aLine, row.text, "context", row.bLine, row.text);
+        break;
+
+      case "collapsed":
+        if (this.expanded.has(index)) {
+          row.lines.forEach((text, offset) =>
+            this.renderPair("context", row.aLine + offset, text, "context", row.bLine + offset, text)
+          );
+        } else {
+          const expander = this.containerEl.createDiv({
+            cls: "evc-diff-collapsed",
+            text: `${row.lines.length} unchanged lines`,
+            attr: { title: "Show these lines" },
+          });
+          expander.addEventListener("click", () => {
+            this.expanded.add(index);
+            this.render();
+          });
+        }
+        break;
+
+      case "change":
+        this.renderChange(row);
+        break;
+    }
+  }
+
+  /**
+   * Render a hunk: its picker when merging by hand, then the paired lines
+   */
+  private renderChange(row: Extract<DiffRow, { type: "change" }>): void {
+    const choice = this.choices?.[row.hunk];
+    if (this.choices && choice) {
+      this.renderHunkPicker(row.hunk, choice);
+    }
+    const dropAi = choice === "obsidian";
+    const dropObsidian = choice === "ai";
+
+    const pairs = Math.min(row.removed.length, row.added.length);
+    const words = Array.from({ length: pairs }, (_, i) => diffWords(row.removed[i], row.added[i]));
+    const removed = row.removed.map((text, i): string | WordSegment[] => (i < pairs ? words[i].removed : text));
+    const added = row.added.map((text, i): string | WordSegment[] => (i < pairs ? words[i].added : text));
+
+    if (this.mode === "split") {
+      for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+        const el = this.renderPair(
+          i < removed.length ? "removed" : "empty", row.aLine + i, removed[i] ?? "",
+          i < added.length ? "added" : "empty", row.bLine + i, added[i] ?? ""
+        );
+        el.children[0]?.toggleClass("evc-diff-dropped", dropAi);
+        el.children[1]?.toggleClass("evc-diff-dropped", dropObsidian);
+      }
+      return;
+    }
+
+    removed.forEach((content, i) => {
+      this.renderUnifiedLine("removed", row.aLine + i, undefined, content).toggleClass("evc-diff-dropped", dropAi);
+    });
+    added.forEach((content, i) => {
+      this.renderUnifiedLine("added", undefined, row.bLine + i, content).toggleClass("evc-diff-dropped", dropObsidian);
+    });
+  }
+
+  /**
+   * Buttons choosing which version of a hunk the hand merge keeps
+   */
+  private renderHunkPicker(hunk: number, choice: HunkChoice): void {
+    const picker = this.containerEl.createDiv({ cls: "evc-diff-hunk-picker" });
+    picker.createSpan({
+      text: `Change ${hunk + 1} of ${this.diff.hunks.length}`,
+      cls: "evc-diff-hunk-label",
+    });
+
+    const options: Array<{ value: HunkChoice; label: string }> = [
+      { value: "ai", label: "AI project" },
+      { value: "obsidian", label: "Obsidian" },
+      { value: "both", label: "Both" },
+    ];
+    for (const option of options) {
+      const button = picker.createEl("button", {
+        text: option.label,
+        cls: option.value === choice ? "evc-btn evc-diff-pick is-active" : "evc-btn evc-diff-pick",
+      });
+      button.addEventListener("click", () => {
+        if (this.choices) {
+          this.choices[hunk] = option.value;
+          this.render();
+        }
+      });
+    }
+  }
+
+  /**
+   * One line in the current mode: both sides of a row. Returns the row element
+   * (in split mode its two children are the AI and Obsidian cells).
+   */
+  private renderPair(
+    aKind: LineKind,
+    aLine: number,
+    aContent: string | WordSegment[],
+    bKind: LineKind,
+    bLine: number,
+    bContent: string | WordSegment[]
+  ): HTMLElement {
+    if (this.mode === "unified") {
+      return this.renderUnifiedLine(aKind, aLine, bLine, aContent);
+    }
+    const rowEl = this.containerEl.createDiv({ cls: "evc-diff-split-row" });
+    this.renderCell(rowEl, aKind, aKind === "empty" ? undefined : aLine, aContent);
+    this.renderCell(rowEl, bKind, bKind === "empty" ? undefined : bLine, bContent);
+    return rowEl;
+  }
+
+  /**
+   * A unified-mode line with both line-number gutters and a +/- sign
+   */
+  private renderUnifiedLine(
+    kind: LineKind,
+    aLine: number | undefined,
+    bLine: number | undefined,
+    content: string | WordSegment[]
+  ): HTMLElement {
+    const lineEl = this.containerEl.createDiv({ cls: `evc-diff-line evc-diff-${kind}` });
+    lineEl.createSpan({ cls: "evc-diff-num", text: aLine !== undefined ? String(aLine + 1) : "" });
+    lineEl.createSpan({ cls: "evc-diff-num", text: bLine !== undefined ? String(bLine + 1) : "" });
+    lineEl.createSpan({ cls: "evc-diff-sign", text: kind === "removed" ? "-" : kind === "added" ? "+" : " " });
+    this.renderText(lineEl, content);
+    return lineEl;
+  }
+
+  /**
+   * A split-mode cell: one line number and the text
+   */
+  private renderCell(
+    rowEl: HTMLElement,
+    kind: LineKind,
+    line: number | undefined,
+    content: string | WordSegment[]
+  ): void {
+    const cellEl = rowEl.createDiv({ cls: `evc-diff-line evc-diff-${kind}` });
+    cellEl.createSpan({ cls: "evc-diff-num", text: line !== undefined ? String(line + 1) : "" });
+    this.renderText(cellEl, content);
+  }
+
+  /**
+   * Line text, with changed words marked when segments are given
+   */
+  private renderText(parent: HTMLElement, content: string | WordSegment[]): void {
+    const textEl = parent.createSpan({ cls: "evc-diff-text" });
+    if (typeof content === "string") {
+      textEl.setText(content);
+      return;
+    }
+    for (const segment of content) {
+      textEl.createSpan({ text: segment.text, cls: segment.changed ? "evc-diff-word" : undefined });
+    }
+  }
+}
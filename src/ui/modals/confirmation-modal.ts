@@ -9,6 +9,8 @@ export class ConfirmationModal extends Modal {
   private cancelText: string;
   private onConfirm: () => void;
   private onCancel?: () => void;
+  /** Whether a button was clicked (closing otherwise counts as cancel) */
+  private answered = false;
 
   constructor(
     app: App,
@@ -51,6 +53,7 @@ export class ConfirmationModal extends Modal {
       cls: "evc-btn",
     });
     cancelBtn.addEventListener("click", () => {
+      this.answered = true;
       this.onCancel?.();
       this.close();
     });
@@ -61,6 +64,7 @@ export class ConfirmationModal extends Modal {
       cls: "evc-btn evc-btn-cta mod-cta",
     });
     confirmBtn.addEventListener("click", () => {
+      this.answered = true;
       this.onConfirm();
       this.close();
     });
@@ -68,6 +72,12 @@ export class ConfirmationModal extends Modal {
 
   onClose(): void {
     this.contentEl.empty();
+    // Closed with Escape or the close button: a caller waiting on an answer
+    // (showConfirmation) must not wait forever
+    if (!this.answered) {
+      this.answered = true;
+      this.onCancel?.();
+    }
   }
 }
 
@@ -1,5 +1,7 @@
 import { App, Modal } from "obsidian";
 import type { ConflictInfo, ResolutionDecision } from "../../conflict-resolver";
+import { applyHunkChoices, buildTextDiff, type TextDiff } from "../../text-diff";
+import { DiffView, type DiffViewMode } from "../diff-view";
 
 /**
  * Modal for resolving file conflicts (FR-013)
@@ -8,24 +10,35 @@ import type { ConflictInfo, ResolutionDecision } from "../../conflict-resolver";
  * - File path
  * - AI version info (modified time, size)
  * - Obsidian version info (modified time, size)
- * - Action buttons: Use AI Version / Use Obsidian Version / Skip
+ * - A unified or side-by-side diff of the two versions (text files)
+ * - Action buttons: Use AI Version / Use Obsidian Version / Merge / Merge manually / Keep both / Skip
+ *
+ * "Merge manually" turns the diff into a hunk picker; the assembled text is
+ * returned with the "manual" decision and written to both sides.
  */
 export class ConflictModal extends Modal {
   private conflict: ConflictInfo;
-  private onResolve: (decision: ResolutionDecision) => void;
+  private onResolve: (decision: ResolutionDecision, mergedContent?: string) => void;
   private resolvePromise: Promise<ResolutionDecision>;
   private resolveCallback: ((decision: ResolutionDecision) => void) | null = null;
+  private decided = false;
+  private diff: TextDiff | null = null;
+  private diffView: DiffView | null = null;
+  private buttonsContainer!: HTMLElement;
 
   constructor(
     app: App,
     options: {
       conflict: ConflictInfo;
-      onResolve: (decision: ResolutionDecision) => void;
+      onResolve: (decision: ResolutionDecision, mergedContent?: string) => void;
     }
   ) {
     super(app);
     this.conflict = options.conflict;
     this.onResolve = options.onResolve;
+    if (this.conflict.aiContent !== undefined && this.conflict.obsidianContent !== undefined) {
+      this.diff = buildTextDiff(this.conflict.aiContent, this.conflict.obsidianContent);
+    }
 
     // Create a promise that will be resolved when user makes a choice
     this.resolvePromise = new Promise((resolve) => {
@@ -53,8 +66,61 @@ export class ConflictModal extends Modal {
     // Version comparison
     this.renderVersionComparison(contentEl);
 
+    // What actually differs
+    this.renderDiff(contentEl);
+
     // Action buttons
-    this.renderActionButtons(contentEl);
+    this.buttonsContainer = contentEl.createDiv({ cls: "evc-conflict-buttons" });
+    this.renderActionButtons();
+  }
+
+  /**
+   * Render the diff section: mode switch and the diff itself
+   */
+  private renderDiff(containerEl: HTMLElement): void {
+    if (!this.diff) {
+      containerEl.createEl("p", {
+        text: "No text diff is available for this file.",
+        cls: "evc-modal-description",
+      });
+      return;
+    }
+    if (this.diff.hunks.length === 0) {
+      containerEl.createEl("p", {
+        text: "Both versions have the same text once converted for the AI project.",
+        cls: "evc-modal-description",
+      });
+      return;
+    }
+    this.modalEl.addClass("evc-conflict-modal-wide");
+
+    const header = containerEl.createDiv({ cls: "evc-diff-header" });
+    header.createSpan({
+      text: `${this.diff.hunks.length} change(s): - AI project, + Obsidian`,
+      cls: "evc-diff-legend",
+    });
+
+    const modes = header.createDiv({ cls: "evc-diff-modes" });
+    const modeButtons: Array<{ mode: DiffViewMode; el: HTMLButtonElement }> = [];
+    for (const { mode, label } of [
+      { mode: "unified" as const, label: "Unified" },
+      { mode: "split" as const, label: "Side by side" },
+    ]) {
+      const el = modes.createEl("button", {
+        text: label,
+        cls: mode === "unified" ? "evc-btn evc-diff-mode is-active" : "evc-btn evc-diff-mode",
+      });
+      el.addEventListener("click", () => {
+        this.diffView?.setMode(mode);
+        for (const button of modeButtons) {
+          button.el.toggleClass("is-active", button.mode === mode);
+        }
+      });
+      modeButtons.push({ mode, el });
+    }
+
+    this.diffView = new DiffView(containerEl.createDiv(), this.diff);
+    this.diffView.render();
   }
 
   /**
@@ -173,8 +239,9 @@ export class ConflictModal extends Modal {
   /**
    * Render action buttons
    */
-  private renderActionButtons(containerEl: HTMLElement): void {
-    const buttonsEl = containerEl.createDiv({ cls: "evc-conflict-buttons" });
+  private renderActionButtons(): void {
+    const buttonsEl = this.buttonsContainer;
+    buttonsEl.empty();
 
     // Use AI Version button
     const useAiBtn = buttonsEl.createEl("button", {
@@ -194,6 +261,38 @@ export class ConflictModal extends Modal {
       this.handleDecision("use-obsidian");
     });
 
+    // Merge button
+    const mergeBtn = buttonsEl.createEl("button", {
+      text: "Merge both",
+      cls: "evc-btn",
+      attr: { title: "Combine both edits; overlapping changes are marked for manual resolution" },
+    });
+    mergeBtn.addEventListener("click", () => {
+      this.handleDecision("merge");
+    });
+
+    // Merge manually: pick each change from either side
+    if (this.diff && this.diff.hunks.length > 0) {
+      const manualBtn = buttonsEl.createEl("button", {
+        text: "Merge manually",
+        cls: "evc-btn",
+        attr: { title: "Choose each change from either version and write the result to both" },
+      });
+      manualBtn.addEventListener("click", () => {
+        this.startManualMerge();
+      });
+    }
+
+    // Keep both: the newer version wins, the other is saved as a conflict copy
+    const keepBothBtn = buttonsEl.createEl("button", {
+      text: "Keep both",
+      cls: "evc-btn",
+      attr: { title: "Sync the newer version and save the other next to it as a conflict copy" },
+    });
+    keepBothBtn.addEventListener("click", () => {
+      this.handleDecision("keep-both");
+    });
+
     // Skip button
     const skipBtn = buttonsEl.createEl("button", {
       text: "Skip",
@@ -204,11 +303,55 @@ export class ConflictModal extends Modal {
     });
   }
 
+  /**
+   * Switch the diff to hunk picking, every change starting from the newer side
+   */
+  private startManualMerge(): void {
+    if (!this.diff || !this.diffView) {
+      return;
+    }
+    const aiTime = new Date(this.conflict.aiMtime).getTime();
+    const obsTime = new Date(this.conflict.obsidianMtime).getTime();
+    this.diffView.setChoices(this.diff.hunks.map(() => (obsTime > aiTime ? "obsidian" : "ai")));
+    this.renderManualButtons();
+  }
+
+  /**
+   * Buttons while merging by hand: save to both sides, or go back
+   */
+  private renderManualButtons(): void {
+    const buttonsEl = this.buttonsContainer;
+    buttonsEl.empty();
+
+    const saveBtn = buttonsEl.createEl("button", {
+      text: "Save to both sides",
+      cls: "evc-btn mod-cta",
+    });
+    saveBtn.addEventListener("click", () => {
+      const choices = this.diffView?.getChoices();
+      if (!this.diff || !choices || this.conflict.aiContent === undefined || this.conflict.obsidianContent === undefined) {
+        return;
+      }
+      const merged = applyHunkChoices(this.conflict.aiContent, this.conflict.obsidianContent, this.diff.hunks, choices);
+      this.handleDecision("manual", merged);
+    });
+
+    const backBtn = buttonsEl.createEl("button", {
+      text: "Back",
+      cls: "evc-btn",
+    });
+    backBtn.addEventListener("click", () => {
+      this.diffView?.setChoices(null);
+      this.renderActionButtons();
+    });
+  }
+
   /**
    * Handle user's decision
    */
-  private handleDecision(decision: ResolutionDecision): void {
-    this.onResolve(decision);
+  private handleDecision(decision: ResolutionDecision, mergedContent?: string): void {
+    this.decided = true;
+    this.onResolve(decision, mergedContent);
     if (this.resolveCallback) {
       this.resolveCallback(decision);
     }
@@ -260,6 +403,9 @@ export class ConflictModal extends Modal {
 
   onClose(): void {
     // If modal is closed without a decision, treat as skip
+    if (!this.decided) {
+      this.onResolve("skip");
+    }
     if (this.resolveCallback) {
       this.resolveCallback("skip");
     }
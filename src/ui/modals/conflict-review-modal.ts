@@ -0,0 +1,293 @@
+import { App, DropdownComponent, Modal, TextComponent } from "obsidian";
+import type { ConflictInfo, ResolutionDecision, UserResolution } from "../../conflict-resolver";
+import { IgnoreMatcher } from "../../ignore-matcher";
+import { buildTextDiff } from "../../text-diff";
+import { DiffView } from "../diff-view";
+
+type ReviewSort = "path" | "newest" | "size";
+
+/** Decisions offered per file; hand merging is for the single-file modal */
+type ReviewDecision = Exclude<ResolutionDecision, "manual">;
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  skip: "Skip",
+  "use-ai": "Use AI version",
+  "use-obsidian": "Use Obsidian version",
+  merge: "Merge both",
+  "keep-both": "Keep both",
+};
+
+/**
+ * Modal for reviewing all conflicts of a sync run at once (FR-013, "always-ask")
+ *
+ * - Sort by path, most recent change or size difference
+ * - Filter by path: text matches anywhere, a glob (`adr/**`) matches gitignore-style
+ * - Apply one choice to every shown file ("AI wins for everything under adr/")
+ * - Preview the diff of any file before applying
+ *
+ * Every file starts as "Skip": nothing is overwritten that was not chosen.
+ * Closing the modal skips them all.
+ */
+export class ConflictReviewModal extends Modal {
+  private conflicts: ConflictInfo[];
+  private onResolve: (choices: UserResolution[]) => void;
+  private decisions: ReviewDecision[];
+  private sort: ReviewSort = "path";
+  private filter = "";
+  private previewing = new Set<number>();
+  private decided = false;
+  private listContainer: HTMLElement | null = null;
+  private bulkLabel: HTMLElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    options: {
+      conflicts: ConflictInfo[];
+      onResolve: (choices: UserResolution[]) => void;
+    }
+  ) {
+    super(app);
+    this.conflicts = options.conflicts;
+    this.onResolve = options.onResolve;
+    this.decisions = this.conflicts.map(() => "skip");
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("evc-sync-modal", "evc-conflict-review-modal");
+    this.modalEl.addClass("evc-conflict-modal-wide");
+
+    contentEl.createEl("h2", { text: `Review conflicts (${this.conflicts.length})` });
+    contentEl.createEl("p", {
+      text: "These files were changed in both locations. Choose a version for each, or for all shown files at once.",
+      cls: "evc-modal-description",
+    });
+
+    this.renderControls(contentEl);
+    this.renderBulkActions(contentEl);
+    this.listContainer = contentEl.createDiv({ cls: "evc-review-list" });
+    this.renderList();
+    this.renderButtons(contentEl);
+  }
+
+  /**
+   * Render sort and filter controls
+   */
+  private renderControls(containerEl: HTMLElement): void {
+    const controlsEl = containerEl.createDiv({ cls: "evc-log-controls" });
+
+    const sortContainer = controlsEl.createDiv({ cls: "evc-log-filter-container" });
+    sortContainer.createEl("label", { text: "Sort:", cls: "evc-log-filter-label" });
+    new DropdownComponent(sortContainer)
+      .addOption("path", "Path")
+      .addOption("newest", "Most recent change")
+      .addOption("size", "Largest size difference")
+      .setValue(this.sort)
+      .onChange((value) => {
+        this.sort = value as ReviewSort;
+        this.renderList();
+      });
+
+    const filterContainer = controlsEl.createDiv({ cls: "evc-log-search-container" });
+    filterContainer.createEl("label", { text: "Filter:", cls: "evc-log-search-label" });
+    const filterInput = new TextComponent(filterContainer);
+    filterInput
+      .setPlaceholder("Path, for example adr/")
+      .setValue(this.filter)
+      .onChange((value) => {
+        this.filter = value.trim();
+        this.renderList();
+      });
+    filterInput.inputEl.addClass("evc-log-search-input");
+  }
+
+  /**
+   * Render the "for all shown files" buttons
+   */
+  private renderBulkActions(containerEl: HTMLElement): void {
+    const bulkEl = containerEl.createDiv({ cls: "evc-review-bulk" });
+    this.bulkLabel = bulkEl.createSpan({ cls: "evc-review-bulk-label" });
+
+    for (const decision of ["use-ai", "use-obsidian", "merge", "keep-both", "skip"] as const) {
+      const button = bulkEl.createEl("button", { text: DECISION_LABELS[decision], cls: "evc-btn" });
+      button.addEventListener("click", () => {
+        for (const index of this.getVisibleIndexes()) {
+          this.decisions[index] = decision;
+        }
+        this.renderList();
+      });
+    }
+  }
+
+  /**
+   * Render the conflict list for the current sort and filter
+   */
+  private renderList(): void {
+    if (!this.listContainer) return;
+    const scrollTop = this.listContainer.scrollTop;
+    this.listContainer.empty();
+
+    const visible = this.getVisibleIndexes();
+    this.bulkLabel?.setText(`For the ${visible.length} shown file(s):`);
+
+    if (visible.length === 0) {
+      this.listContainer.createDiv({ text: "No conflicts match the filter", cls: "evc-log-empty" });
+    }
+    for (const index of visible) {
+      this.renderConflictRow(this.listContainer, index);
+    }
+
+    this.listContainer.scrollTop = scrollTop;
+    this.renderSummary();
+  }
+
+  /**
+   * Render one conflict: path, which side is newer, the choice and a preview toggle
+   */
+  private renderConflictRow(containerEl: HTMLElement, index: number): void {
+    const conflict = this.conflicts[index];
+    const rowEl = containerEl.createDiv({ cls: "evc-review-item" });
+    const headerEl = rowEl.createDiv({ cls: "evc-review-item-header" });
+
+    const infoEl = headerEl.createDiv({ cls: "evc-review-item-info" });
+    infoEl.createEl("code", { text: conflict.relativePath, cls: "evc-conflict-path-value" });
+    const aiTime = new Date(conflict.aiMtime).getTime();
+    const obsTime = new Date(conflict.obsidianMtime).getTime();
+    if (aiTime !== obsTime) {
+      infoEl.createSpan({
+        text: aiTime > obsTime ? "AI newer" : "Obsidian newer",
+        cls: "evc-review-newer",
+      });
+    }
+
+    const previewBtn = headerEl.createEl("button", {
+      text: this.previewing.has(index) ? "Hide preview" : "Preview",
+      cls: "evc-btn",
+    });
+    previewBtn.addEventListener("click", () => {
+      if (this.previewing.has(index)) {
+        this.previewing.delete(index);
+      } else {
+        this.previewing.add(index);
+      }
+      this.renderList();
+    });
+
+    new DropdownComponent(headerEl)
+      .addOptions(DECISION_LABELS)
+      .setValue(this.decisions[index])
+      .onChange((value) => {
+        this.decisions[index] = value as ReviewDecision;
+        this.renderSummary();
+      });
+
+    if (this.previewing.has(index)) {
+      this.renderPreview(rowEl, conflict);
+    }
+  }
+
+  /**
+   * Render the diff of one file under its row
+   */
+  private renderPreview(containerEl: HTMLElement, conflict: ConflictInfo): void {
+    if (conflict.aiContent === undefined || conflict.obsidianContent === undefined) {
+      containerEl.createDiv({ text: "No text diff is available for this file.", cls: "evc-modal-description" });
+      return;
+    }
+    const diff = buildTextDiff(conflict.aiContent, conflict.obsidianContent);
+    if (diff.hunks.length === 0) {
+      containerEl.createDiv({ text: "Both versions have the same text.", cls: "evc-modal-description" });
+      return;
+    }
+    containerEl.createDiv({
+      text: `${diff.hunks.length} change(s): - AI project, + Obsidian`,
+      cls: "evc-diff-legend",
+    });
+    new DiffView(containerEl.createDiv(), diff).render();
+  }
+
+  /**
+   * Render the count of each choice
+   */
+  private renderSummary(): void {
+    if (!this.summaryEl) return;
+    const counts = new Map<ReviewDecision, number>();
+    for (const decision of this.decisions) {
+      counts.set(decision, (counts.get(decision) ?? 0) + 1);
+    }
+    const parts = (Object.keys(DECISION_LABELS) as ReviewDecision[])
+      .filter((decision) => counts.has(decision))
+      .map((decision) => `${DECISION_LABELS[decision]}: ${counts.get(decision)}`);
+    this.summaryEl.setText(parts.join(" · "));
+  }
+
+  /**
+   * Render apply / cancel buttons
+   */
+  private renderButtons(containerEl: HTMLElement): void {
+    const buttonsEl = containerEl.createDiv({ cls: "evc-conflict-buttons evc-review-buttons" });
+    this.summaryEl = buttonsEl.createSpan({ cls: "evc-review-summary" });
+    this.renderSummary();
+
+    const applyBtn = buttonsEl.createEl("button", { text: "Apply", cls: "evc-btn mod-cta" });
+    applyBtn.addEventListener("click", () => {
+      this.finish(this.decisions.map((decision) => ({ decision })));
+    });
+
+    const cancelBtn = buttonsEl.createEl("button", { text: "Skip all", cls: "evc-btn" });
+    cancelBtn.addEventListener("click", () => {
+      this.close();
+    });
+  }
+
+  /**
+   * Indexes of the conflicts matching the filter, in the chosen order
+   */
+  private getVisibleIndexes(): number[] {
+    const filter = this.filter.toLowerCase();
+    // A glob filter uses the same rules as exclude patterns
+    const glob = /[*?[]/.test(filter) ? new IgnoreMatcher([this.filter]) : null;
+    const indexes = this.conflicts
+      .map((_, index) => index)
+      .filter((index) => {
+        const relativePath = this.conflicts[index].relativePath.replace(/\\/g, "/");
+        if (!filter) return true;
+        return glob ? glob.matches(relativePath) : relativePath.toLowerCase().includes(filter);
+      });
+
+    const latest = (c: ConflictInfo) => Math.max(new Date(c.aiMtime).getTime(), new Date(c.obsidianMtime).getTime());
+    const sizeDiff = (c: ConflictInfo) => Math.abs(c.aiSize - c.obsidianSize);
+    return indexes.sort((x, y) => {
+      const a = this.conflicts[x];
+      const b = this.conflicts[y];
+      switch (this.sort) {
+        case "newest":
+          return latest(b) - latest(a);
+        case "size":
+          return sizeDiff(b) - sizeDiff(a);
+        default:
+          return a.relativePath.localeCompare(b.relativePath);
+      }
+    });
+  }
+
+  /**
+   * Hand the choices back and close
+   */
+  private finish(choices: UserResolution[]): void {
+    this.decided = true;
+    this.onResolve(choices);
+    this.close();
+  }
+
+  onClose(): void {
+    // Closed without applying: leave every file as it is
+    if (!this.decided) {
+      this.decided = true;
+      this.onResolve(this.conflicts.map(() => ({ decision: "skip" })));
+    }
+    this.contentEl.empty();
+  }
+}
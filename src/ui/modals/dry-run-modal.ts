@@ -1,5 +1,5 @@
 import { App, Modal, Notice } from "obsidian";
-import type { DryRunResult, PlannedSyncAction } from "../../sync-engine";
+import type { DryRunResult, FilteredFile, PlannedSyncAction } from "../../sync-engine";
 import type { DetectedDeletion } from "../../sync-state-manager";
 
 /**
@@ -20,6 +20,7 @@ interface ActionGroup {
  * - Files to copy/update to Obsidian
  * - Files to copy/update to AI project
  * - Files that will be skipped
+ * - Files left out by exclude/include rules, and which rule did it
  * - Execute sync / Close buttons
  */
 export class DryRunModal extends Modal {
@@ -53,6 +54,9 @@ export class DryRunModal extends Modal {
     // Summary
     if (totalActions === 0 && totalDeletions === 0 && totalErrors === 0) {
       this.renderNoChanges(contentEl);
+      // Still explain filtered files: "why isn't X syncing?" is asked most
+      // when nothing else is pending
+      this.renderResults(contentEl);
     } else {
       this.renderSummary(contentEl, totalActions, totalDeletions, totalErrors);
       this.renderResults(contentEl);
@@ -92,12 +96,14 @@ export class DryRunModal extends Modal {
     let copyCount = 0;
     let updateCount = 0;
     let skipCount = 0;
+    let renameCount = 0;
 
     for (const result of this.results) {
       for (const action of result.plannedActions) {
         if (action.action === "copy") copyCount++;
         else if (action.action === "update") updateCount++;
         else if (action.action === "skip") skipCount++;
+        else if (action.action === "rename") renameCount++;
       }
     }
 
@@ -119,6 +125,12 @@ export class DryRunModal extends Modal {
         cls: "evc-dry-run-badge evc-dry-run-badge-update",
       });
     }
+    if (renameCount > 0) {
+      summaryEl.createSpan({
+        text: `${renameCount} rename`,
+        cls: "evc-dry-run-badge evc-dry-run-badge-rename",
+      });
+    }
     if (totalDeletions > 0) {
       summaryEl.createSpan({
         text: `${totalDeletions} delete`,
@@ -147,10 +159,11 @@ export class DryRunModal extends Modal {
     const resultsEl = containerEl.createDiv({ cls: "evc-dry-run-results" });
 
     for (const result of this.results) {
-      // Skip mappings with no actions, no deletions, and no errors
+      // Skip mappings with no actions, no deletions, no filtered files, and no errors
       if (
         result.plannedActions.length === 0 &&
         result.plannedDeletions.length === 0 &&
+        result.filteredFiles.length === 0 &&
         result.errors.length === 0
       ) {
         continue;
@@ -235,6 +248,11 @@ export class DryRunModal extends Modal {
     if (groups.skipped.length > 0) {
       this.renderSkippedGroup(sectionEl, groups.skipped);
     }
+
+    // Filtered out by exclude/include rules (collapsible)
+    if (result.filteredFiles.length > 0) {
+      this.renderFilteredGroup(sectionEl, result.filteredFiles);
+    }
   }
 
   /**
@@ -345,7 +363,7 @@ export class DryRunModal extends Modal {
       });
 
       // Action icon
-      const iconText = action.action === "copy" ? "+" : "*";
+      const iconText = action.action === "copy" ? "+" : action.action === "rename" ? "\u2192" : "*";
       itemEl.createSpan({
         text: iconText,
         cls: `evc-dry-run-icon evc-dry-run-icon-${action.action}`,
@@ -362,9 +380,21 @@ export class DryRunModal extends Modal {
         text: `(${action.reason})`,
         cls: "evc-dry-run-reason",
       });
+      this.renderConflictRule(itemEl, action);
     }
   }
 
+  /**
+   * Name the mapping's conflict rule that decided a conflict, if one did
+   */
+  private renderConflictRule(itemEl: HTMLElement, action: PlannedSyncAction): void {
+    if (!action.conflictRule) return;
+    itemEl.createSpan({
+      text: `rule: ${action.conflictRule}`,
+      cls: "evc-dry-run-rule",
+    });
+  }
+
   /**
    * Render skipped files group (collapsible)
    */
@@ -414,6 +444,72 @@ export class DryRunModal extends Modal {
         text: `(${action.reason})`,
         cls: "evc-dry-run-reason",
       });
+      this.renderConflictRule(itemEl, action);
+    }
+
+    // Toggle click handler
+    headerEl.addEventListener("click", () => {
+      const isCollapsed = contentEl.hasClass("evc-collapsible-collapsed");
+      if (isCollapsed) {
+        contentEl.removeClass("evc-collapsible-collapsed");
+        toggleIcon.textContent = "\u25BE";
+      } else {
+        contentEl.addClass("evc-collapsible-collapsed");
+        toggleIcon.textContent = "\u25B8";
+      }
+    });
+  }
+
+  /**
+   * Render files left out by exclude/include rules (collapsible)
+   */
+  private renderFilteredGroup(
+    containerEl: HTMLElement,
+    filtered: FilteredFile[]
+  ): void {
+    const groupEl = containerEl.createDiv({ cls: "evc-dry-run-group evc-dry-run-group-filtered" });
+
+    // Collapsible header
+    const headerEl = groupEl.createDiv({
+      cls: "evc-dry-run-group-title evc-dry-run-group-title-skip evc-collapsible-header",
+    });
+
+    const toggleIcon = headerEl.createSpan({
+      text: "\u25B8",
+      cls: "evc-collapsible-icon",
+    });
+
+    headerEl.createSpan({
+      text: `Filtered out (${filtered.length})`,
+    });
+
+    // Collapsible content
+    const contentEl = groupEl.createDiv({
+      cls: "evc-collapsible-content evc-collapsible-collapsed",
+    });
+
+    const listEl = contentEl.createEl("ul", { cls: "evc-dry-run-list" });
+
+    for (const entry of filtered) {
+      const itemEl = listEl.createEl("li", {
+        cls: "evc-dry-run-item evc-dry-run-item-filtered",
+      });
+
+      itemEl.createSpan({
+        text: "\u2205",
+        cls: "evc-dry-run-icon evc-dry-run-icon-skip",
+      });
+
+      itemEl.createSpan({
+        text: entry.file,
+        cls: "evc-dry-run-filename",
+      });
+
+      const side = entry.side === "ai" ? "AI project" : "Obsidian";
+      itemEl.createSpan({
+        text: `(${side}: ${entry.reason})`,
+        cls: "evc-dry-run-reason",
+      });
     }
 
     // Toggle click handler
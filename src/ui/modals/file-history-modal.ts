@@ -0,0 +1,152 @@
+import { App, Modal, Notice } from "obsidian";
+import type { BackupEntry, BackupReason } from "../../backup-store";
+import { isBinaryFile } from "../../binary-files";
+
+const SIDE_LABELS: Record<BackupEntry["side"], string> = {
+  ai: "AI project",
+  obsidian: "Obsidian",
+};
+
+const REASON_LABELS: Record<BackupReason, string> = {
+  overwrite: "before sync overwrote it",
+  delete: "before sync deleted it",
+  restore: "before a restore replaced it",
+  undo: "before an undo reverted it",
+};
+
+/**
+ * Modal listing the saved versions of one synced file
+ *
+ * - Newest first, with the side each version was taken from and why
+ * - Preview of any version (text as is, binary files by size only)
+ * - Restore puts a version back on its side; the current copy is saved first
+ */
+export class FileHistoryModal extends Modal {
+  private filePath: string;
+  private versions: BackupEntry[];
+  private readVersion: (entry: BackupEntry) => Promise<Buffer | undefined>;
+  private onRestore: (entry: BackupEntry) => Promise<void>;
+  private previewing: string | null = null;
+  private listContainer: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    options: {
+      filePath: string;
+      versions: BackupEntry[];
+      readVersion: (entry: BackupEntry) => Promise<Buffer | undefined>;
+      onRestore: (entry: BackupEntry) => Promise<void>;
+    }
+  ) {
+    super(app);
+    this.filePath = options.filePath;
+    this.versions = options.versions;
+    this.readVersion = options.readVersion;
+    this.onRestore = options.onRestore;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("evc-sync-modal", "evc-file-history-modal");
+
+    contentEl.createEl("h2", { text: "File history" });
+    const descEl = contentEl.createEl("p", { cls: "evc-modal-description" });
+    descEl.createEl("code", { text: this.filePath });
+    descEl.appendText(
+      ` — ${this.versions.length} saved version(s). A restored version reaches the other side with the next sync.`
+    );
+
+    this.listContainer = contentEl.createDiv({ cls: "evc-review-list" });
+    this.renderList();
+  }
+
+  /**
+   * Render every version, with the preview under the one being previewed
+   */
+  private renderList(): void {
+    if (!this.listContainer) return;
+    this.listContainer.empty();
+
+    if (this.versions.length === 0) {
+      this.listContainer.createDiv({ text: "No saved versions of this file", cls: "evc-log-empty" });
+      return;
+    }
+    for (const entry of this.versions) {
+      this.renderVersion(this.listContainer, entry);
+    }
+  }
+
+  /**
+   * Render one version: when, which side, why, and its buttons
+   */
+  private renderVersion(containerEl: HTMLElement, entry: BackupEntry): void {
+    const rowEl = containerEl.createDiv({ cls: "evc-review-item" });
+    const headerEl = rowEl.createDiv({ cls: "evc-review-item-header" });
+
+    const infoEl = headerEl.createDiv({ cls: "evc-review-item-info" });
+    infoEl.createSpan({ text: new Date(entry.time).toLocaleString(), cls: "evc-history-time" });
+    infoEl.createSpan({ text: SIDE_LABELS[entry.side], cls: "evc-history-side" });
+    infoEl.createSpan({
+      text: `${REASON_LABELS[entry.reason]} · ${formatSize(entry.size)}`,
+      cls: "evc-review-newer",
+    });
+
+    const previewBtn = headerEl.createEl("button", {
+      text: this.previewing === entry.id ? "Hide preview" : "Preview",
+      cls: "evc-btn",
+    });
+    previewBtn.addEventListener("click", () => {
+      this.previewing = this.previewing === entry.id ? null : entry.id;
+      this.renderList();
+    });
+
+    const restoreBtn = headerEl.createEl("button", { text: "Restore", cls: "evc-btn mod-cta" });
+    restoreBtn.addEventListener("click", () => {
+      restoreBtn.disabled = true;
+      this.onRestore(entry).then(() => {
+        new Notice(`Restored the ${SIDE_LABELS[entry.side]} version from ${new Date(entry.time).toLocaleString()}`);
+        this.close();
+      }).catch((error: Error) => {
+        restoreBtn.disabled = false;
+        new Notice(`EVC Sync: Restore failed - ${error.message}`, 5000);
+      });
+    });
+
+    if (this.previewing === entry.id) {
+      void this.renderPreview(rowEl.createDiv({ cls: "evc-history-preview" }), entry);
+    }
+  }
+
+  /**
+   * Show a version's text, or a note for binary files and missing versions
+   */
+  private async renderPreview(containerEl: HTMLElement, entry: BackupEntry): Promise<void> {
+    containerEl.setText("Loading...");
+    const content = await this.readVersion(entry);
+    containerEl.empty();
+
+    if (!content) {
+      containerEl.createDiv({ text: "This version is no longer in the backup store.", cls: "evc-modal-description" });
+      return;
+    }
+    if (isBinaryFile(entry.relativePath, content)) {
+      containerEl.createDiv({ text: `Binary file (${formatSize(content.length)}), no preview.`, cls: "evc-modal-description" });
+      return;
+    }
+    containerEl.createEl("pre", { text: content.toString("utf-8"), cls: "evc-history-preview-text" });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Human-readable byte count
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
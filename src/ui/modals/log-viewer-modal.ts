@@ -170,6 +170,13 @@ export class LogViewerModal extends Modal {
         text: entry.file,
         attr: { title: entry.file },
       });
+      if (entry.branch) {
+        fileCell.createSpan({
+          text: entry.branch,
+          cls: "evc-log-branch",
+          attr: { title: `Branch in the AI project: ${entry.branch}` },
+        });
+      }
 
       // Action
       const actionCell = row.createEl("td", { cls: "evc-log-cell-action" });
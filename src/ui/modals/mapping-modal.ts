@@ -11,6 +11,9 @@ import {
 import type { ProjectMapping, SyncDirection, ConflictResolution } from "../../settings";
 import type EVCLocalSyncPlugin from "../../main";
 import { FolderSuggestModal } from "../folder-suggest";
+import { formatFrontmatterRules, parseFrontmatterRules } from "../../frontmatter-rules";
+import { formatConflictRules, parseConflictRules } from "../../conflict-resolver";
+import { DEFAULT_SAFETY_LIMIT, formatSafetyLimit } from "../../sync-state-manager";
 
 /**
  * Modal options
@@ -44,6 +47,8 @@ export class MappingModal extends Modal {
   // Advanced settings
   private advancedContainer!: HTMLElement;
   private advancedExpanded = false;
+  private conflictRuleErrors: string[] = [];
+  private frontmatterRuleErrors: string[] = [];
 
   // Error display
   private errorContainer!: HTMLElement;
@@ -67,16 +72,32 @@ export class MappingModal extends Modal {
           syncDirection: "ai-to-obs",
           intraVault: false,
           conflictResolutionOverride: undefined,
+          conflictRules: undefined,
           fileTypesOverride: undefined,
           excludePatternsOverride: undefined,
+          includePatternsOverride: undefined,
+          useGitignore: false,
+          useSyncIgnore: false,
+          rewriteLinks: false,
+          frontmatterRules: undefined,
+          maxChangedFiles: undefined,
+          maxChangedPercent: undefined,
         };
 
     // Expand advanced settings if any override is set
     if (options.mapping) {
       this.advancedExpanded = !!(
         options.mapping.conflictResolutionOverride ||
+        options.mapping.conflictRules?.length ||
         options.mapping.fileTypesOverride ||
-        options.mapping.excludePatternsOverride
+        options.mapping.excludePatternsOverride ||
+        options.mapping.includePatternsOverride ||
+        options.mapping.useGitignore ||
+        options.mapping.useSyncIgnore ||
+        options.mapping.rewriteLinks ||
+        options.mapping.frontmatterRules?.length ||
+        options.mapping.maxChangedFiles !== undefined ||
+        options.mapping.maxChangedPercent !== undefined
       );
     }
   }
@@ -286,6 +307,8 @@ export class MappingModal extends Modal {
       "always-ask": "Always ask",
       "ai-wins": "AI project wins",
       "obsidian-wins": "Obsidian wins",
+      "auto-merge": "Merge both versions",
+      "keep-both": "Keep both (save a conflict copy)",
     };
 
     new Setting(this.advancedContainer)
@@ -298,12 +321,35 @@ export class MappingModal extends Modal {
           .addOption("always-ask", "Always ask")
           .addOption("ai-wins", "AI project wins")
           .addOption("obsidian-wins", "Obsidian wins")
+          .addOption("auto-merge", "Merge both versions")
+          .addOption("keep-both", "Keep both (save a conflict copy)")
           .setValue(this.mapping.conflictResolutionOverride || "")
           .onChange((value) => {
             this.mapping.conflictResolutionOverride = value ? value as ConflictResolution : undefined;
           });
       });
 
+    // Conflict rules by path, first match wins
+    new Setting(this.advancedContainer)
+      .setName("Conflict rules")
+      .setDesc(
+        "One rule per line, a gitignore pattern and a strategy, for example: generated/** ai-wins, " +
+          "decisions/** always-ask. The first matching rule wins; other files use the setting above. " +
+          "Strategies: newer-wins, always-ask, ai-wins, obsidian-wins, auto-merge, keep-both."
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("No rules")
+          .setValue(formatConflictRules(this.mapping.conflictRules ?? []))
+          .onChange((value) => {
+            const { rules, errors } = parseConflictRules(value);
+            this.conflictRuleErrors = errors;
+            this.mapping.conflictRules = rules.length > 0 ? rules : undefined;
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.addClass("evc-input-wide");
+      });
+
     // File Types Override
     const globalFileTypes = this.plugin.settings.fileTypes.join(", ");
 
@@ -332,7 +378,7 @@ export class MappingModal extends Modal {
 
     new Setting(this.advancedContainer)
       .setName("Exclude patterns")
-      .setDesc(`Override global exclusions (current: ${globalExclude})`)
+      .setDesc(`Override global exclusions, gitignore syntax (current: ${globalExclude})`)
       .addText((text) => {
         text
           .setPlaceholder(`Use global (${globalExclude})`)
@@ -349,6 +395,108 @@ export class MappingModal extends Modal {
           });
         text.inputEl.addClass("evc-input-wide");
       });
+
+    // Include Patterns (no global counterpart: empty = sync everything)
+    new Setting(this.advancedContainer)
+      .setName("Include patterns")
+      .setDesc("Only sync files matching one of these patterns, gitignore syntax, for example adr/*.md. Leave empty to sync everything.")
+      .addText((text) => {
+        text
+          .setPlaceholder("Sync everything")
+          .setValue(this.mapping.includePatternsOverride?.join(", ") || "")
+          .onChange((value) => {
+            if (value.trim()) {
+              this.mapping.includePatternsOverride = value
+                .split(",")
+                .map((s) => s.trim())
+                .filter((s) => s.length > 0);
+            } else {
+              this.mapping.includePatternsOverride = undefined;
+            }
+          });
+        text.inputEl.addClass("evc-input-wide");
+      });
+
+    // Ignore files in the AI project
+    new Setting(this.advancedContainer)
+      .setName("Honor .gitignore")
+      .setDesc("Also skip whatever the AI project's .gitignore ignores")
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.mapping.useGitignore ?? false)
+          .onChange((value) => {
+            this.mapping.useGitignore = value;
+          });
+      });
+
+    new Setting(this.advancedContainer)
+      .setName("Honor .evcsyncignore")
+      .setDesc("Read sync-only exclusions from .evcsyncignore in the AI project root")
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.mapping.useSyncIgnore ?? false)
+          .onChange((value) => {
+            this.mapping.useSyncIgnore = value;
+          });
+      });
+
+    // Link syntax
+    new Setting(this.advancedContainer)
+      .setName("Rewrite links")
+      .setDesc("Convert wikilinks to relative Markdown links in the AI project, and back in the vault")
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.mapping.rewriteLinks ?? false)
+          .onChange((value) => {
+            this.mapping.rewriteLinks = value;
+          });
+      });
+
+    // Frontmatter rules, one per line
+    new Setting(this.advancedContainer)
+      .setName("Frontmatter rules")
+      .setDesc(
+        "One rule per line, for example: obs-to-ai strip tags, obs-to-ai rename aliases -> synonyms, " +
+          "obs-to-ai default layout = doc, ai-to-obs map status draft -> wip. " +
+          "Each rule is undone when the note is copied back."
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("No rules")
+          .setValue(formatFrontmatterRules(this.mapping.frontmatterRules ?? []))
+          .onChange((value) => {
+            const { rules, errors } = parseFrontmatterRules(value);
+            this.frontmatterRuleErrors = errors;
+            this.mapping.frontmatterRules = rules.length > 0 ? rules : undefined;
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.addClass("evc-input-wide");
+      });
+
+    // Safety limit: files, then percent (empty = default)
+    new Setting(this.advancedContainer)
+      .setName("Safety limit")
+      .setDesc(
+        "Stop a sync that would delete or overwrite more than this many files, or this share of the mapping, " +
+          `until you confirm it. 0 turns a limit off (default: ${formatSafetyLimit(DEFAULT_SAFETY_LIMIT)}). ` +
+          "A sync that finds the AI project folder empty always stops."
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder(`${DEFAULT_SAFETY_LIMIT.maxFiles} files`)
+          .setValue(this.mapping.maxChangedFiles !== undefined ? String(this.mapping.maxChangedFiles) : "")
+          .onChange((value) => {
+            this.mapping.maxChangedFiles = parseLimit(value);
+          });
+      })
+      .addText((text) => {
+        text
+          .setPlaceholder(`${DEFAULT_SAFETY_LIMIT.maxPercent}%`)
+          .setValue(this.mapping.maxChangedPercent !== undefined ? String(this.mapping.maxChangedPercent) : "")
+          .onChange((value) => {
+            this.mapping.maxChangedPercent = parseLimit(value);
+          });
+      });
   }
 
   /**
@@ -436,6 +584,9 @@ export class MappingModal extends Modal {
       errors.push("Sync direction is required for unidirectional sync");
     }
 
+    errors.push(...this.conflictRuleErrors.map((e) => `Conflict rules: ${e}`));
+    errors.push(...this.frontmatterRuleErrors.map((e) => `Frontmatter rules: ${e}`));
+
     if (errors.length > 0) {
       this.showError(errors.join("\n"));
       return;
@@ -489,3 +640,12 @@ export class MappingModal extends Modal {
     this.contentEl.empty();
   }
 }
+
+/**
+ * A safety limit as typed: a whole number of 0 or more, anything else (or
+ * nothing) means the default
+ */
+function parseLimit(value: string): number | undefined {
+  const parsed = parseInt(value.replace("%", "").trim(), 10);
+  return !isNaN(parsed) && parsed >= 0 ? parsed : undefined;
+}
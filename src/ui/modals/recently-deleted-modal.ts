@@ -0,0 +1,151 @@
+import { App, Modal, Notice } from "obsidian";
+import type { DeletedFile } from "../../recycle-bin";
+import { showConfirmation } from "./confirmation-modal";
+
+const SIDE_LABELS: Record<DeletedFile["side"], string> = {
+  ai: "AI project",
+  obsidian: "Obsidian",
+};
+
+/**
+ * Modal listing the files sync deleted, from the recycle bin
+ *
+ * - Most recently deleted first, with the mapping and the side it was deleted from
+ * - Restore puts a file back where it was; purge removes it for good
+ */
+export class RecentlyDeletedModal extends Modal {
+  private entries: DeletedFile[];
+  private onRestore: (entry: DeletedFile) => Promise<void>;
+  private onPurge: (entry: DeletedFile) => Promise<void>;
+  private onPurgeAll: () => Promise<number>;
+  private listContainer: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    options: {
+      entries: DeletedFile[];
+      onRestore: (entry: DeletedFile) => Promise<void>;
+      onPurge: (entry: DeletedFile) => Promise<void>;
+      onPurgeAll: () => Promise<number>;
+    }
+  ) {
+    super(app);
+    this.entries = options.entries;
+    this.onRestore = options.onRestore;
+    this.onPurge = options.onPurge;
+    this.onPurgeAll = options.onPurgeAll;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("evc-sync-modal", "evc-recently-deleted-modal");
+
+    contentEl.createEl("h2", { text: "Recently deleted" });
+    contentEl.createEl("p", {
+      text: "Files sync deleted in either location. A restored file reaches the other location with the next sync.",
+      cls: "evc-modal-description",
+    });
+
+    this.listContainer = contentEl.createDiv({ cls: "evc-review-list" });
+    this.renderList();
+
+    const buttonContainer = contentEl.createDiv({ cls: "evc-modal-buttons" });
+    const emptyBtn = buttonContainer.createEl("button", { text: "Empty recycle bin", cls: "mod-warning" });
+    emptyBtn.addEventListener("click", () => {
+      if (this.entries.length === 0) {
+        return;
+      }
+      void showConfirmation(
+        this.app,
+        `Permanently delete all ${this.entries.length} file(s) in the recycle bin?`,
+        "Empty"
+      ).then(async (confirmed) => {
+        if (!confirmed) {
+          return;
+        }
+        const count = await this.onPurgeAll();
+        this.entries = [];
+        this.renderList();
+        new Notice(`Purged ${count} file(s)`);
+      });
+    });
+  }
+
+  /**
+   * Render every entry, or a note when the bin is empty
+   */
+  private renderList(): void {
+    if (!this.listContainer) return;
+    this.listContainer.empty();
+
+    if (this.entries.length === 0) {
+      this.listContainer.createDiv({ text: "The recycle bin is empty", cls: "evc-log-empty" });
+      return;
+    }
+    for (const entry of this.entries) {
+      this.renderEntry(this.listContainer, entry);
+    }
+  }
+
+  /**
+   * Render one deleted file: what, where from, when, and its buttons
+   */
+  private renderEntry(containerEl: HTMLElement, entry: DeletedFile): void {
+    const rowEl = containerEl.createDiv({ cls: "evc-review-item" });
+    const headerEl = rowEl.createDiv({ cls: "evc-review-item-header" });
+
+    const infoEl = headerEl.createDiv({ cls: "evc-review-item-info" });
+    infoEl.createEl("code", { text: entry.relativePath });
+    infoEl.createSpan({ text: SIDE_LABELS[entry.side], cls: "evc-history-side" });
+    infoEl.createSpan({
+      text: `${entry.mappingName} · ${new Date(entry.deletedAt).toLocaleString()} · ${formatSize(entry.size)}`,
+      cls: "evc-review-newer",
+    });
+
+    const restoreBtn = headerEl.createEl("button", { text: "Restore", cls: "evc-btn mod-cta" });
+    const purgeBtn = headerEl.createEl("button", { text: "Purge", cls: "evc-btn" });
+
+    restoreBtn.addEventListener("click", () => {
+      restoreBtn.disabled = true;
+      this.onRestore(entry).then(() => {
+        new Notice(`Restored ${entry.relativePath} in ${SIDE_LABELS[entry.side]}`);
+        this.dropEntry(entry);
+      }).catch((error: Error) => {
+        restoreBtn.disabled = false;
+        new Notice(`EVC Sync: Restore failed - ${error.message}`, 5000);
+      });
+    });
+
+    purgeBtn.addEventListener("click", () => {
+      purgeBtn.disabled = true;
+      this.onPurge(entry).then(() => {
+        this.dropEntry(entry);
+      }).catch((error: Error) => {
+        purgeBtn.disabled = false;
+        new Notice(`EVC Sync: Purge failed - ${error.message}`, 5000);
+      });
+    });
+  }
+
+  /**
+   * Take a restored or purged entry off the list
+   */
+  private dropEntry(entry: DeletedFile): void {
+    this.entries = this.entries.filter((e) => e.id !== entry.id);
+    this.renderList();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Human-readable byte count
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -13,6 +13,7 @@ export type SyncStatus = "idle" | "syncing" | "success" | "error" | "watching";
  *
  * Features:
  * - Shows current sync status with icon only (no text)
+ * - Shows the number of pending conflicts next to it, when there are any
  * - Click to open quick actions menu
  * - Updates during sync operations
  */
@@ -21,6 +22,7 @@ export class StatusBarItem {
   private statusBarEl: HTMLElement | null = null;
   private currentStatus: SyncStatus = "idle";
   private statusTimeout: number | null = null;
+  private pendingConflicts = 0;
 
   constructor(plugin: EVCLocalSyncPlugin) {
     this.plugin = plugin;
@@ -108,11 +110,38 @@ export class StatusBarItem {
         break;
     }
 
+    this.renderPendingConflicts();
+
     // Update CSS class for styling
     this.statusBarEl.removeClass("evc-status-idle", "evc-status-watching", "evc-status-syncing", "evc-status-success", "evc-status-error");
     this.statusBarEl.addClass(`evc-status-${status}`);
   }
 
+  /**
+   * Update the number of conflicts waiting in the pending queue
+   */
+  setPendingConflicts(count: number): void {
+    this.pendingConflicts = count;
+    this.setStatus(this.currentStatus);
+  }
+
+  /**
+   * Render the pending conflict count after the status icon
+   */
+  private renderPendingConflicts(): void {
+    if (!this.statusBarEl) return;
+
+    this.statusBarEl.setAttribute(
+      "aria-label",
+      this.pendingConflicts > 0 ? `Sync status: ${this.pendingConflicts} pending conflict(s)` : "Sync status"
+    );
+    if (this.pendingConflicts === 0) return;
+
+    const badgeEl = this.statusBarEl.createSpan({ cls: "evc-status-pending" });
+    setIcon(badgeEl.createSpan({ cls: "evc-status-pending-icon" }), "alert-triangle");
+    badgeEl.createSpan({ text: String(this.pendingConflicts) });
+  }
+
   /**
    * Show quick actions menu
    */
@@ -149,6 +178,40 @@ export class StatusBarItem {
         })
     );
 
+    // Resolve Pending Conflicts
+    if (this.pendingConflicts > 0) {
+      menu.addItem((item) =>
+        item
+          .setTitle(`Resolve pending conflicts (${this.pendingConflicts})`)
+          .setIcon("alert-triangle")
+          .onClick(() => {
+            void this.plugin.resolvePendingConflicts();
+          })
+      );
+    }
+
+    // Undo Last Sync
+    if (this.plugin.canUndoLastSync()) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Undo last sync")
+          .setIcon("undo-2")
+          .onClick(() => {
+            void this.plugin.undoLastSync();
+          })
+      );
+    }
+
+    // Recently Deleted
+    menu.addItem((item) =>
+      item
+        .setTitle("Recently deleted")
+        .setIcon("trash-2")
+        .onClick(() => {
+          void this.plugin.showRecentlyDeleted();
+        })
+    );
+
     menu.addSeparator();
 
     // View Logs